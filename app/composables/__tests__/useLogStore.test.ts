@@ -1,9 +1,5 @@
-import { beforeEach, describe, expect, it } from 'vitest'
-import {
-  __resetForTests,
-  useLogStore,
-  useTabLogger,
-} from '../useLogStore'
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { __resetForTests, useLogStore, useTabLogger } from '../useLogStore'
 
 describe('useLogStore', () => {
   beforeEach(() => __resetForTests())
@@ -81,4 +77,33 @@ describe('useLogStore', () => {
     expect(entry?.type).toBe('success')
     expect(entry?.timestamp).toMatch(/\d/) // any digits — locale-dependent format
   })
+
+  it('followJob replays a background job into the tab and releases it', async () => {
+    const fetchSpy = vi
+      .spyOn(globalThis, 'fetch')
+      .mockResolvedValue(
+        new Response(
+          [
+            'id: 1\nevent: log\ndata: {"message":"crawling","type":"info"}\n\n',
+            'id: 2\nevent: progress\ndata: {"done":1,"total":2,"currentUrl":"https://example.com/"}\n\n',
+            'id: 3\nevent: end\ndata: {"status":"completed"}\n\n',
+          ].join(''),
+        ),
+      )
+    const logger = useTabLogger('broken-links')
+    logger.addLog('stale')
+    const seen: string[] = []
+
+    const outcome = await logger.followJob('job-1', (name) => seen.push(name))
+
+    const store = useLogStore()
+    store.setActiveTab('broken-links')
+    expect(outcome).toBe('ended')
+    expect(seen).toEqual(['log', 'progress', 'end'])
+    expect(store.currentLogs.value.map((e) => e.message)).toEqual(['crawling'])
+    expect(store.currentProgress.value).toEqual({ done: 1, total: 2 })
+    expect(store.currentIsRunning.value).toBe(false)
+    expect(logger.activeJobId()).toBeNull()
+    fetchSpy.mockRestore()
+  })
 })
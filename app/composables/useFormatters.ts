@@ -1,3 +1,13 @@
+/** One request of a redirect chain (see `RedirectStep` on the server) */
+export interface RedirectHop {
+  url: string
+  status: number
+  method: 'HEAD' | 'GET'
+  location?: string
+  responseTime: number
+  headers: Record<string, string>
+}
+
 export function useFormatters() {
   function formatSize(bytes: number): string {
     if (!bytes) return '-'
@@ -6,5 +16,15 @@ export function useFormatters() {
     return `${(bytes / 1024 / 1024).toFixed(1)} MB`
   }
 
-  return { formatSize }
+  // One line per hop, for tooltips: "HEAD 301 https://a/ → https://b/ (42 ms)"
+  function formatRedirectHops(hops?: RedirectHop[]): string {
+    return (hops ?? [])
+      .map((hop) => {
+        const target = hop.location ? ` → ${hop.location}` : ''
+        return `${hop.method} ${hop.status} ${hop.url}${target} (${hop.responseTime} ms)`
+      })
+      .join('\n')
+  }
+
+  return { formatSize, formatRedirectHops }
 }
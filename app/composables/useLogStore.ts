@@ -1,4 +1,9 @@
 import { computed, reactive, ref, watch } from 'vue'
+import {
+  type FollowOutcome,
+  followJob,
+  type JobEventHandler,
+} from '../utils/job-client'
 
 export type TabId =
   | 'scraper'
@@ -8,6 +13,7 @@ export type TabId =
   | 'sitemap'
   | 'broken-links'
   | 'silo'
+  | 'cloaking'
 
 export interface LogEntry {
   timestamp: string
@@ -23,6 +29,7 @@ export interface Progress {
 const MAX_ENTRIES = 500
 const STORAGE_OPEN = 'url-tools.drawerOpen'
 const STORAGE_WIDTH = 'url-tools.drawerWidth'
+const STORAGE_JOBS = 'url-tools.jobs'
 const MIN_WIDTH = 240
 const MAX_WIDTH = 800
 const DEFAULT_WIDTH = 380
@@ -36,6 +43,7 @@ function emptyLogs(): Record<TabId, LogEntry[]> {
     sitemap: [],
     'broken-links': [],
     silo: [],
+    cloaking: [],
   }
 }
 
@@ -48,6 +56,7 @@ function emptyProgress(): Record<TabId, Progress> {
     sitemap: { done: 0, total: 0 },
     'broken-links': { done: 0, total: 0 },
     silo: { done: 0, total: 0 },
+    cloaking: { done: 0, total: 0 },
   }
 }
 
@@ -60,6 +69,7 @@ function emptyCurrentUrl(): Record<TabId, string | null> {
     sitemap: null,
     'broken-links': null,
     silo: null,
+    cloaking: null,
   }
 }
 
@@ -72,6 +82,20 @@ function emptyRunning(): Record<TabId, boolean> {
     sitemap: false,
     'broken-links': false,
     silo: false,
+    cloaking: false,
+  }
+}
+
+function emptyJobs(): Record<TabId, string | null> {
+  return {
+    scraper: null,
+    seo: null,
+    screenshots: null,
+    images: null,
+    sitemap: null,
+    'broken-links': null,
+    silo: null,
+    cloaking: null,
   }
 }
 
@@ -80,6 +104,10 @@ const allLogs = reactive(emptyLogs())
 const allProgress = reactive(emptyProgress())
 const allCurrentUrl = reactive(emptyCurrentUrl())
 const allRunning = reactive(emptyRunning())
+// Background job per tab (see /api/jobs); persisted so a reload can reattach
+const allJobs = reactive(emptyJobs())
+// Aborts the request currently following a tab's job
+const jobFollowers = new Map<TabId, AbortController>()
 const activeTabId = ref<TabId>('scraper')
 const drawerOpen = ref<boolean>(true)
 const drawerWidth = ref<number>(DEFAULT_WIDTH)
@@ -99,6 +127,8 @@ function initFromStorage() {
         drawerWidth.value = Math.max(MIN_WIDTH, Math.min(MAX_WIDTH, w))
       }
     }
+    const storedJobs = localStorage.getItem(STORAGE_JOBS)
+    if (storedJobs) Object.assign(allJobs, JSON.parse(storedJobs))
   } catch {
     // localStorage may throw in private mode — silently keep defaults
   }
@@ -112,6 +142,91 @@ function initFromStorage() {
       localStorage.setItem(STORAGE_WIDTH, String(v))
     } catch {}
   })
+  watch(allJobs, (v) => {
+    try {
+      localStorage.setItem(STORAGE_JOBS, JSON.stringify(v))
+    } catch {}
+  })
+}
+
+function addLogEntry(
+  tab: TabId,
+  message: string,
+  type: LogEntry['type'] = 'info',
+) {
+  const entry: LogEntry = {
+    timestamp: new Date().toLocaleTimeString('en-US'),
+    message,
+    type,
+  }
+  allLogs[tab].push(entry)
+  if (allLogs[tab].length > MAX_ENTRIES) {
+    allLogs[tab].shift()
+  }
+}
+
+/**
+ * Follows a tab's background job from its first event, rebuilding the tab's
+ * logs and progress. Replaces any earlier follower of the same tab, so a
+ * remounted component can take over from the drawer.
+ */
+async function followTabJob(
+  tab: TabId,
+  jobId: string,
+  onEvent?: JobEventHandler,
+): Promise<FollowOutcome> {
+  jobFollowers.get(tab)?.abort()
+  const controller = new AbortController()
+  jobFollowers.set(tab, controller)
+
+  allJobs[tab] = jobId
+  allLogs[tab] = []
+  allProgress[tab] = { done: 0, total: 0 }
+  allCurrentUrl[tab] = null
+  allRunning[tab] = true
+
+  let outcome: FollowOutcome
+  try {
+    outcome = await followJob(
+      jobId,
+      (eventName, data) => {
+        try {
+          const parsed = JSON.parse(data)
+          if (eventName === 'log') addLogEntry(tab, parsed.message, parsed.type)
+          else if (eventName === 'error')
+            addLogEntry(tab, parsed.message, 'error')
+          else if (eventName === 'progress') {
+            allProgress[tab] = { done: parsed.done, total: parsed.total }
+            allCurrentUrl[tab] = parsed.currentUrl
+          }
+        } catch {
+          // Skip malformed events
+        }
+        onEvent?.(eventName, data)
+      },
+      { signal: controller.signal },
+    )
+  } catch (e) {
+    addLogEntry(
+      tab,
+      e instanceof Error ? e.message : 'Lost connection',
+      'error',
+    )
+    outcome = 'ended'
+  }
+
+  // A newer follower owns the tab now
+  if (outcome === 'aborted' && jobFollowers.get(tab) !== controller) {
+    return outcome
+  }
+  jobFollowers.delete(tab)
+  if (outcome === 'not-found') {
+    addLogEntry(tab, 'Job no longer exists on the server', 'error')
+  }
+  allJobs[tab] = null
+  allRunning[tab] = false
+  allCurrentUrl[tab] = null
+  return outcome
 }
 
 export function useLogStore() {
@@ -121,9 +236,7 @@ export function useLogStore() {
   const currentProgress = computed(() => allProgress[activeTabId.value])
   const currentUrlValue = computed(() => allCurrentUrl[activeTabId.value])
   const currentIsRunning = computed(() => allRunning[activeTabId.value])
-  const anyRunning = computed(() =>
-    Object.values(allRunning).some((v) => v),
-  )
+  const anyRunning = computed(() => Object.values(allRunning).some((v) => v))
 
   function setActiveTab(tab: TabId) {
     activeTabId.value = tab
@@ -141,6 +254,15 @@ export function useLogStore() {
     allLogs[tab] = []
   }
 
+  // Follows jobs left running by a previous page load. Tabs whose component
+  // already reattached are skipped.
+  function reattachJobs() {
+    for (const tab of Object.keys(allJobs) as TabId[]) {
+      const jobId = allJobs[tab]
+      if (jobId && !jobFollowers.has(tab)) followTabJob(tab, jobId)
+    }
+  }
+
   return {
     activeTabId,
     drawerOpen,
@@ -154,6 +276,7 @@ export function useLogStore() {
     toggleDrawer,
     setDrawerWidth,
     clearLogs,
+    reattachJobs,
     minWidth: MIN_WIDTH,
     maxWidth: MAX_WIDTH,
   }
@@ -170,6 +293,9 @@ export function __resetForTests() {
   Object.assign(allProgress, emptyProgress())
   Object.assign(allCurrentUrl, emptyCurrentUrl())
   Object.assign(allRunning, emptyRunning())
+  Object.assign(allJobs, emptyJobs())
+  for (const controller of jobFollowers.values()) controller.abort()
+  jobFollowers.clear()
   activeTabId.value = 'scraper'
 }
 
@@ -177,15 +303,7 @@ export function useTabLogger(tabId: TabId) {
   initFromStorage()
 
   function addLog(message: string, type: LogEntry['type'] = 'info') {
-    const entry: LogEntry = {
-      timestamp: new Date().toLocaleTimeString('en-US'),
-      message,
-      type,
-    }
-    allLogs[tabId].push(entry)
-    if (allLogs[tabId].length > MAX_ENTRIES) {
-      allLogs[tabId].shift()
-    }
+    addLogEntry(tabId, message, type)
   }
 
   function clearLogs() {
@@ -208,6 +326,11 @@ export function useTabLogger(tabId: TabId) {
     allRunning[tabId] = v
   }
 
+  // Job this tab is following, if any — also set after a page reload
+  function activeJobId(): string | null {
+    return allJobs[tabId]
+  }
+
   return {
     addLog,
     clearLogs,
@@ -215,5 +338,8 @@ export function useTabLogger(tabId: TabId) {
     resetProgress,
     setCurrentUrl,
     setRunning,
+    activeJobId,
+    followJob: (jobId: string, onEvent?: JobEventHandler) =>
+      followTabJob(tabId, jobId, onEvent),
   }
 }
@@ -0,0 +1,41 @@
+import type { ServerConfig } from '../utils/server-config'
+
+let pending: Promise<ServerConfig | null> | null = null
+// Settings objects that already got the server defaults, so a form that
+// is mounted again doesn't overwrite what the user changed since
+const initialized = new WeakSet<object>()
+
+export function useServerConfig() {
+  const config = useState<ServerConfig | null>('server-config', () => null)
+
+  function loadServerConfig(): Promise<ServerConfig | null> {
+    pending ??= $fetch<ServerConfig>('/api/config')
+      .then((loaded) => {
+        config.value = loaded
+        return loaded
+      })
+      .catch(() => {
+        // Keep the built-in defaults; try again next time
+        pending = null
+        return null
+      })
+    return pending
+  }
+
+  /**
+   * Applies the server's defaults to a settings object once it is loaded,
+   * the first time that object is shown.
+   */
+  async function initSettings<T extends object>(
+    settings: T,
+    apply: (settings: T, config: ServerConfig) => void,
+  ): Promise<void> {
+    if (initialized.has(settings)) return
+    initialized.add(settings)
+    const loaded = await loadServerConfig()
+    if (loaded) apply(settings, loaded)
+    else initialized.delete(settings)
+  }
+
+  return { config, loadServerConfig, initSettings }
+}
@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest'
+import { CLOAKING_FIELDS } from '../../../server/utils/cloaking-check-tool'
+import {
+  CLOAKING_FIELD_LABELS,
+  type CloakingCheckResult,
+  cloakingRows,
+} from '../cloaking'
+
+describe('cloaking fields (client copy)', () => {
+  it('labels exactly the fields the server diffs, in the same order', () => {
+    expect(Object.keys(CLOAKING_FIELD_LABELS)).toEqual(CLOAKING_FIELDS)
+  })
+})
+
+describe('cloakingRows', () => {
+  it('flattens each URL into one row per user agent', () => {
+    const page = {
+      status: 200,
+      redirects: '200',
+      finalUrl: 'https://example.com/',
+      title: 'Shoes',
+      description: '',
+      canonical: null,
+      robots: null,
+      linkCount: 2,
+      contentHash: 1,
+    }
+    const result: CloakingCheckResult = {
+      url: 'https://example.com/',
+      profiles: [
+        { ...page, userAgent: 'chrome-desktop' },
+        { ...page, userAgent: 'googlebot-smartphone', title: 'Cheap shoes' },
+      ],
+      diffs: [
+        {
+          userAgent: 'googlebot-smartphone',
+          fields: ['title', 'links'],
+          contentDistance: 2,
+          linksAdded: ['https://example.com/a', 'https://example.com/b'],
+          linksRemoved: [],
+        },
+      ],
+      isDifferent: true,
+    }
+
+    const [baseline, other] = cloakingRows([result])
+    expect(baseline).toMatchObject({
+      userAgent: 'chrome-desktop',
+      isBaseline: true,
+      differsIn: '',
+      canonical: '',
+    })
+    expect(other).toMatchObject({
+      userAgent: 'googlebot-smartphone',
+      isBaseline: false,
+      title: 'Cheap shoes',
+      differsIn: 'title, links',
+      contentDistance: 2,
+      linksAdded: 'https://example.com/a https://example.com/b',
+    })
+  })
+})
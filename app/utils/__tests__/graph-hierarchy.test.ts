@@ -1,5 +1,9 @@
 import { describe, expect, it } from 'vitest'
-import { pathDepth, resolveParentId } from '../graph-hierarchy'
+import {
+  pathDepth,
+  resolveParentId,
+  resolveRootParentId,
+} from '../graph-hierarchy'
 
 describe('pathDepth', () => {
   it('returns 0 for root URL', () => {
@@ -81,9 +85,53 @@ describe('resolveParentId', () => {
     expect(resolveParentId('not-a-url', new Set())).toBeNull()
   })
 
+  it('tries the canonical spelling of each candidate when rules are given', () => {
+    const ids = new Set(['https://x.com/blog/'])
+    expect(resolveParentId('https://x.com/Blog/post', ids)).toBeNull()
+    expect(
+      resolveParentId('https://x.com/Blog/post', ids, {
+        lowercasePath: true,
+        trailingSlash: 'add',
+      }),
+    ).toBe('https://x.com/blog/')
+  })
+
   // KNOWN LIMITATION — documented by snapshot
   it('does NOT match parent across query strings (exact-string match only)', () => {
     const ids = new Set(['https://x.com/blog/'])
     expect(resolveParentId('https://x.com/blog?page=2', ids)).toBeNull()
   })
 })
+
+describe('resolveRootParentId', () => {
+  const roots = [
+    'https://blog.x.com/',
+    'https://www.x.com/',
+    'https://shop.x.com/',
+    'https://y.com/',
+  ]
+
+  it('keeps every root separate with the default scope', () => {
+    expect(resolveRootParentId('https://blog.x.com/', roots)).toBeNull()
+    expect(
+      resolveRootParentId('https://blog.x.com/', roots, { mode: 'host' }),
+    ).toBeNull()
+  })
+
+  it('hangs subdomain roots under the main host in domain scope', () => {
+    const scope = { mode: 'domain' as const }
+    expect(resolveRootParentId('https://blog.x.com/', roots, scope)).toBe(
+      'https://www.x.com/',
+    )
+    expect(resolveRootParentId('https://www.x.com/', roots, scope)).toBeNull()
+    expect(resolveRootParentId('https://y.com/', roots, scope)).toBeNull()
+  })
+
+  it('uses the host list in hosts scope', () => {
+    const scope = { mode: 'hosts' as const, hosts: ['shop.x.com'] }
+    expect(resolveRootParentId('https://shop.x.com/', roots, scope)).toBe(
+      'https://www.x.com/',
+    )
+    expect(resolveRootParentId('https://blog.x.com/', roots, scope)).toBeNull()
+  })
+})
@@ -0,0 +1,79 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { followJob, parseSseEvents, startJob } from '../job-client'
+
+function sse(...messages: string[]): Response {
+  return new Response(messages.join(''), {
+    headers: { 'Content-Type': 'text/event-stream' },
+  })
+}
+
+describe('parseSseEvents', () => {
+  it('parses ids and keeps the incomplete tail', () => {
+    const { events, rest } = parseSseEvents(
+      'id: 1\nevent: log\ndata: {"a":1}\n\nevent: result\ndata: {}\n\nid: 3\nev',
+    )
+    expect(events).toEqual([
+      { id: 1, event: 'log', data: '{"a":1}' },
+      { id: null, event: 'result', data: '{}' },
+    ])
+    expect(rest).toBe('id: 3\nev')
+  })
+})
+
+describe('job client', () => {
+  let fetchSpy: ReturnType<typeof vi.spyOn>
+
+  beforeEach(() => {
+    fetchSpy = vi.spyOn(globalThis, 'fetch')
+  })
+
+  afterEach(() => {
+    fetchSpy.mockRestore()
+  })
+
+  it('surfaces the server message when a job cannot start', async () => {
+    fetchSpy.mockResolvedValue(
+      Response.json({ message: 'urls array required' }, { status: 400 }),
+    )
+    await expect(startJob('check-links', {})).rejects.toThrow(
+      'urls array required',
+    )
+  })
+
+  it('reconnects with Last-Event-ID until the end event', async () => {
+    vi.useFakeTimers()
+    fetchSpy
+      .mockResolvedValueOnce(
+        sse(
+          'id: 1\nevent: log\ndata: {"message":"a"}\n\n',
+          'id: 2\nevent: result\ndata: {"n":1}\n\n',
+        ),
+      )
+      .mockResolvedValueOnce(
+        sse(
+          'id: 3\nevent: result\ndata: {"n":2}\n\n',
+          'id: 4\nevent: end\ndata: {"status":"completed"}\n\n',
+        ),
+      )
+
+    const seen: string[] = []
+    const outcome = followJob('job-1', (name) => seen.push(name))
+    await vi.runAllTimersAsync()
+
+    expect(await outcome).toBe('ended')
+    expect(seen).toEqual(['log', 'result', 'result', 'end'])
+    const headers = fetchSpy.mock.calls.map(
+      (call) => (call[1] as RequestInit).headers,
+    )
+    expect(headers).toEqual([
+      { 'Last-Event-ID': '0' },
+      { 'Last-Event-ID': '2' },
+    ])
+    vi.useRealTimers()
+  })
+
+  it('reports jobs the server no longer knows', async () => {
+    fetchSpy.mockResolvedValue(new Response('', { status: 404 }))
+    expect(await followJob('gone', () => {})).toBe('not-found')
+  })
+})
@@ -0,0 +1,9 @@
+import { describe, expect, it } from 'vitest'
+import { LINK_KINDS } from '../../../server/utils/link-analyzer'
+import { LINK_KIND_LABELS } from '../link-kinds'
+
+describe('link kinds (client copy)', () => {
+  it('labels exactly the kinds the server extracts, in the same order', () => {
+    expect(Object.keys(LINK_KIND_LABELS)).toEqual(LINK_KINDS)
+  })
+})
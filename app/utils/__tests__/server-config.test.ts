@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest'
+import { DEFAULT_CONFIG } from '../../../server/utils/server-config'
+import {
+  applyCrawlDefaults,
+  applyRequestDefaults,
+  type ServerConfig,
+} from '../server-config'
+
+// The client shape must accept what the server sends
+const config: ServerConfig = {
+  ...DEFAULT_CONFIG,
+  requestDefaults: { timeout: 45, retries: 3, parallelRequests: 8 },
+  limits: {
+    ...DEFAULT_CONFIG.limits,
+    maxUrls: { ...DEFAULT_CONFIG.limits.maxUrls, scrapeLinks: 250 },
+  },
+  userAgents: { ...DEFAULT_CONFIG.userAgents, robots: 'Googlebot' },
+}
+
+describe('server defaults', () => {
+  it('replaces the request defaults and keeps the other fields', () => {
+    const settings = {
+      timeout: 30,
+      retries: 1,
+      parallelRequests: 5,
+      proxy: 'http://proxy:8080',
+    }
+    applyRequestDefaults(settings, config)
+    expect(settings).toEqual({
+      timeout: 45,
+      retries: 3,
+      parallelRequests: 8,
+      proxy: 'http://proxy:8080',
+    })
+  })
+
+  it('replaces the crawl defaults', () => {
+    const settings = { maxUrls: 100, robotsUserAgent: 'URLTools', maxDepth: 3 }
+    applyCrawlDefaults(settings, config)
+    expect(settings).toEqual({
+      maxUrls: 250,
+      robotsUserAgent: 'Googlebot',
+      maxDepth: 3,
+    })
+  })
+})
@@ -0,0 +1,51 @@
+/**
+ * Parity with server/utils/site-scope.ts — the graph groups hosts
+ * client-side, so both must agree on what is internal.
+ */
+import { describe, expect, it } from 'vitest'
+import {
+  type SiteScope,
+  isInScope as serverIsInScope,
+  getRegistrableDomain as serverRegistrableDomain,
+} from '../../../server/utils/site-scope'
+import { getRegistrableDomain, isInScope } from '../site-scope'
+
+describe('site scope (client)', () => {
+  const hosts = [
+    'example.com',
+    'www.example.com',
+    'blog.example.com',
+    'shop.example.co.uk',
+    'example.co.uk',
+    'other.net',
+    'a.github.io',
+    'b.github.io',
+    'my-app.vercel.app',
+    '10.0.0.1',
+    'localhost',
+  ]
+
+  it('matches server getRegistrableDomain', () => {
+    for (const host of hosts) {
+      expect(getRegistrableDomain(host)).toBe(serverRegistrableDomain(host))
+    }
+  })
+
+  it('matches server isInScope', () => {
+    const scopes: (SiteScope | undefined)[] = [
+      undefined,
+      { mode: 'host' },
+      { mode: 'domain' },
+      { mode: 'hosts', hosts: ['*.example.com', 'other.net'] },
+    ]
+    for (const scope of scopes) {
+      for (const base of hosts) {
+        for (const target of hosts) {
+          expect(isInScope(base, target, scope)).toBe(
+            serverIsInScope(base, target, scope),
+          )
+        }
+      }
+    }
+  })
+})
@@ -0,0 +1,71 @@
+import { describe, expect, it } from 'vitest'
+import {
+  parseSitemapInput,
+  SITEMAP_DISCOVERY_LABELS as SERVER_LABELS,
+} from '../../../server/utils/sitemap-discovery'
+import { SITEMAP_STATUS_ISSUES } from '../../../server/utils/sitemap-status-tool'
+import { SITEMAP_ISSUE_TYPES } from '../../../server/utils/sitemap-validator'
+import {
+  isValidSitemapInput,
+  SITEMAP_DISCOVERY_LABELS,
+  SITEMAP_ISSUE_LABELS,
+  SITEMAP_STATUS_LABELS,
+  sitemapRows,
+} from '../sitemap'
+
+describe('sitemap discovery (client copy)', () => {
+  it('labels the same discovery methods as the server', () => {
+    expect(SITEMAP_DISCOVERY_LABELS).toEqual(SERVER_LABELS)
+  })
+
+  it('accepts the same input as the server', () => {
+    for (const input of [
+      'example.com',
+      ' https://example.com/sitemap.xml ',
+      'http://example.com',
+      'ftp://example.com/sitemap.xml',
+      'mailto:webmaster@example.com',
+      'not a url',
+      '',
+    ]) {
+      expect(isValidSitemapInput(input), input).toBe(
+        parseSitemapInput(input) !== null,
+      )
+    }
+  })
+})
+
+describe('sitemap issues (client copy)', () => {
+  it('labels exactly the issue types the server reports, in the same order', () => {
+    expect(Object.keys(SITEMAP_ISSUE_LABELS)).toEqual(SITEMAP_ISSUE_TYPES)
+  })
+})
+
+describe('sitemap status issues (client copy)', () => {
+  it('labels exactly the issues the status check reports, in the same order', () => {
+    expect(Object.keys(SITEMAP_STATUS_LABELS)).toEqual(SITEMAP_STATUS_ISSUES)
+  })
+})
+
+describe('sitemapRows', () => {
+  it('gives plain and extended entries the same columns', () => {
+    const rows = sitemapRows([
+      { loc: 'https://example.com/', source: 'https://example.com/s.xml' },
+      {
+        loc: 'https://example.com/a',
+        lastmod: '2025-06-10',
+        source: 'https://example.com/s.xml',
+        images: [{ loc: 'https://example.com/a.png' }],
+        alternates: [{ hreflang: 'de', href: 'https://example.com/de/a' }],
+      },
+    ])
+
+    expect(Object.keys(rows[0] ?? {})).toEqual(Object.keys(rows[1] ?? {}))
+    expect(rows[0]).toMatchObject({ lastmod: '', images: [], news: null })
+    expect(rows[1]).toMatchObject({
+      lastmod: '2025-06-10',
+      images: [{ loc: 'https://example.com/a.png' }],
+      videos: [],
+    })
+  })
+})
@@ -0,0 +1,36 @@
+/**
+ * Parity with server/utils/url-canonical.ts — the graph canonicalizes
+ * targets and parents client-side, so both must agree on every URL.
+ */
+import { describe, expect, it } from 'vitest'
+import {
+  type CanonicalRules,
+  canonicalizeUrl as serverCanonicalize,
+} from '../../../server/utils/url-canonical'
+import { canonicalizeUrl } from '../url-canonical'
+
+describe('canonicalizeUrl (client)', () => {
+  it('matches server implementation', () => {
+    const urls = [
+      'https://X.com/Blog/?utm_source=a&b=2&a=1#top',
+      'https://x.com/blog',
+      'https://x.com/',
+      'https://x.com/feed.xml',
+      'https://x.com/a//?gclid=1',
+      'http://x.com:80/p?q=%20',
+      'not-a-url',
+    ]
+    const ruleSets: CanonicalRules[] = [
+      {},
+      { stripParams: ['gclid'], stripParamsPattern: '^utm_', sortParams: true },
+      { lowercasePath: true, trailingSlash: 'add' },
+      { trailingSlash: 'keep' },
+      { rewrites: [{ pattern: '^http://', replacement: 'https://' }] },
+    ]
+    for (const rules of ruleSets) {
+      for (const url of urls) {
+        expect(canonicalizeUrl(url, rules)).toBe(serverCanonicalize(url, rules))
+      }
+    }
+  })
+})
@@ -0,0 +1,18 @@
+import { describe, expect, it } from 'vitest'
+import { USER_AGENT_PRESETS } from '../../../server/utils/user-agents'
+import { USER_AGENT_LABELS, userAgentChoice } from '../user-agents'
+
+describe('user agent presets (client copy)', () => {
+  it('labels exactly the presets the server knows, in the same order', () => {
+    expect(Object.keys(USER_AGENT_LABELS)).toEqual(
+      Object.keys(USER_AGENT_PRESETS),
+    )
+  })
+
+  it('maps stored values to the picker', () => {
+    expect(userAgentChoice(undefined)).toBe('default')
+    expect(userAgentChoice('bingbot')).toBe('bingbot')
+    expect(userAgentChoice('MyBot/1.0')).toBe('custom')
+    expect(userAgentChoice('toString')).toBe('custom')
+  })
+})
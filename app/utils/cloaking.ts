@@ -0,0 +1,88 @@
+/** Client-side copy of `CloakingField` from `server/utils/cloaking-check-tool.ts` */
+export type CloakingField =
+  | 'status'
+  | 'redirects'
+  | 'title'
+  | 'description'
+  | 'canonical'
+  | 'robots'
+  | 'links'
+  | 'content'
+
+/** Column labels, in the server's `CLOAKING_FIELDS` order */
+export const CLOAKING_FIELD_LABELS: Record<CloakingField, string> = {
+  status: 'Status',
+  redirects: 'Redirects',
+  title: 'Title',
+  description: 'Description',
+  canonical: 'Canonical',
+  robots: 'Robots',
+  links: 'Links',
+  content: 'Content',
+}
+
+/** Client-side shape of `CloakingProfile` (see server/utils/cloaking-check-tool.ts) */
+export interface CloakingProfile {
+  userAgent: string
+  status: number
+  redirects: string
+  finalUrl: string
+  title: string
+  description: string
+  canonical: string | null
+  robots: string | null
+  linkCount: number
+  contentHash: number
+  error?: string
+}
+
+/** Client-side shape of `CloakingDiff` */
+export interface CloakingDiff {
+  userAgent: string
+  fields: CloakingField[]
+  contentDistance: number
+  linksAdded: string[]
+  linksRemoved: string[]
+}
+
+/** Client-side shape of `CloakingCheckResult` */
+export interface CloakingCheckResult {
+  url: string
+  profiles: CloakingProfile[]
+  diffs: CloakingDiff[]
+  isDifferent: boolean
+}
+
+/**
+ * One row per URL and user agent for `save-results`, so the CSV reads
+ * without nested JSON. Baseline rows have no diff columns.
+ */
+export function cloakingRows(
+  results: CloakingCheckResult[],
+): Record<string, string | number | boolean>[] {
+  return results.flatMap((result) =>
+    result.profiles.map((profile, index) => {
+      const diff = result.diffs.find(
+        (entry) => index > 0 && entry.userAgent === profile.userAgent,
+      )
+      return {
+        url: result.url,
+        userAgent: profile.userAgent,
+        isBaseline: index === 0,
+        status: profile.status,
+        redirects: profile.redirects,
+        finalUrl: profile.finalUrl,
+        title: profile.title,
+        description: profile.description,
+        canonical: profile.canonical ?? '',
+        robots: profile.robots ?? '',
+        linkCount: profile.linkCount,
+        differsIn: diff?.fields.join(', ') ?? '',
+        contentDistance: diff?.contentDistance ?? 0,
+        linksAdded: diff?.linksAdded.join(' ') ?? '',
+        linksRemoved: diff?.linksRemoved.join(' ') ?? '',
+        error: profile.error ?? '',
+      }
+    }),
+  )
+}
@@ -0,0 +1,26 @@
+/** Client-side shape of `RequestSettings.credentials` (see `server/utils/credentials.ts`) */
+export type CredentialType = 'basic' | 'bearer' | 'cookie'
+
+export interface HostCredential {
+  host: string
+  type: CredentialType
+  username?: string
+  password?: string
+  token?: string
+  cookie?: string
+}
+
+/**
+ * Adds credentials returned by a form login, replacing the cookie
+ * credentials already stored for the same hosts.
+ */
+export function mergeCredentials(
+  current: HostCredential[],
+  added: HostCredential[],
+): HostCredential[] {
+  const replaced = new Set(added.map((c) => c.host))
+  return [
+    ...current.filter((c) => c.type !== 'cookie' || !replaced.has(c.host)),
+    ...added,
+  ]
+}
@@ -1,3 +1,6 @@
+import { isInScope, type SiteScope } from './site-scope'
+import { type CanonicalRules, canonicalizeUrl } from './url-canonical'
+
 /**
  * Resolves the closest URL-path parent of `childId` from the given set of
  * known node IDs. Walks up the path segments and tries with/without trailing
@@ -8,10 +11,15 @@
  * `https://x.com/blog?page=2` will NOT find `https://x.com/blog/` as parent
  * because the query string is part of the candidate string. See
  * `graph-hierarchy.test.ts` for the documented behavior.
+ *
+ * With `rules`, each candidate is also tried in its canonical spelling, so
+ * a crawl run with `trailingSlash: 'add'` or `lowercasePath` still finds the
+ * parent under the URL the server stored.
  */
 export function resolveParentId(
   childId: string,
   allIds: Set<string>,
+  rules?: CanonicalRules,
 ): string | null {
   let u: URL
   try {
@@ -27,7 +35,7 @@ export function resolveParentId(
   for (let i = segments.length - 1; i > 0; i--) {
     const parentPath = `/${segments.slice(0, i).join('/')}`
     const candidates = [`${origin}${parentPath}/`, `${origin}${parentPath}`]
-    for (const c of candidates) {
+    for (const c of withCanonical(candidates, rules)) {
       if (c !== childId && allIds.has(c)) return c
     }
   }
@@ -36,6 +44,59 @@ export function resolveParentId(
   return null
 }
 
+function withCanonical(candidates: string[], rules?: CanonicalRules): string[] {
+  if (!rules) return candidates
+  const result = [...candidates]
+  for (const c of candidates) {
+    const canonical = canonicalizeUrl(c, rules)
+    if (canonical && !result.includes(canonical)) result.push(canonical)
+  }
+  return result
+}
+
+// Hostname used to rank roots; www.example.com ranks like example.com
+function rootRank(id: string): [number, string] | null {
+  try {
+    const host = new URL(id).hostname.replace(/^www\./, '')
+    return [host.split('.').length, id]
+  } catch {
+    return null
+  }
+}
+
+function ranksBefore(a: [number, string], b: [number, string]): boolean {
+  return a[0] < b[0] || (a[0] === b[0] && a[1] < b[1])
+}
+
+/**
+ * Parent of an origin root when the site scope spans several hosts: the
+ * highest-ranked other root (fewest host labels, ignoring `www.`) whose host
+ * has `rootId`'s host in scope. Only higher-ranked roots qualify, so the
+ * result is always a tree. Returns `null` for the top root and for the
+ * default exact-host scope.
+ */
+export function resolveRootParentId(
+  rootId: string,
+  rootIds: Iterable<string>,
+  scope?: SiteScope,
+): string | null {
+  if (!scope || scope.mode === 'host') return null
+  const rank = rootRank(rootId)
+  if (!rank) return null
+  const childHost = new URL(rootId).hostname
+
+  let best: { id: string; rank: [number, string] } | null = null
+  for (const id of rootIds) {
+    const candidate = rootRank(id)
+    if (!candidate || id === rootId || !ranksBefore(candidate, rank)) continue
+    if (!isInScope(new URL(id).hostname, childHost, scope)) continue
+    if (!best || ranksBefore(candidate, best.rank)) {
+      best = { id, rank: candidate }
+    }
+  }
+  return best?.id ?? null
+}
+
 /**
  * Number of non-empty path segments in a URL. Trailing slashes are ignored.
  * Returns 0 for a URL whose pathname is "/" (or empty after stripping). Returns
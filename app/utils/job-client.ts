@@ -0,0 +1,183 @@
+export type JobTool =
+  | 'scrape-links'
+  | 'check-links'
+  | 'inbound-links'
+  | 'cloaking-check'
+  | 'sitemap-status'
+export type JobStatus =
+  | 'running'
+  | 'paused'
+  | 'completed'
+  | 'failed'
+  | 'cancelled'
+
+export interface JobSummary {
+  jobId: string
+  tool: JobTool
+  status: JobStatus
+  eventCount: number
+  createdAt: string
+  updatedAt: string
+}
+
+export interface SseEvent {
+  id: number | null
+  event: string
+  data: string
+}
+
+/** `data` is the raw JSON payload of the event */
+export type JobEventHandler = (eventName: string, data: string) => void
+
+/** How following a job ended */
+export type FollowOutcome = 'ended' | 'not-found' | 'aborted'
+
+const RECONNECT_DELAY_MS = 1000
+// Consecutive failed attempts before giving up on a job
+const MAX_RECONNECTS = 5
+
+/**
+ * Splits complete SSE messages off `buffer`; the incomplete tail is returned
+ * as `rest` for the next chunk.
+ */
+export function parseSseEvents(buffer: string): {
+  events: SseEvent[]
+  rest: string
+} {
+  const parts = buffer.split('\n\n')
+  const rest = parts.pop() || ''
+  const events: SseEvent[] = []
+
+  for (const part of parts) {
+    if (!part.trim()) continue
+    let id: number | null = null
+    let event = 'message'
+    let data = ''
+    for (const line of part.split('\n')) {
+      if (line.startsWith('id:')) id = Number(line.slice(3).trim())
+      else if (line.startsWith('event:')) event = line.slice(6).trim()
+      else if (line.startsWith('data:')) data = line.slice(5).trim()
+    }
+    if (data) events.push({ id, event, data })
+  }
+
+  return { events, rest }
+}
+
+async function responseError(response: Response): Promise<Error> {
+  try {
+    const body = await response.json()
+    if (body?.message) return new Error(body.message)
+  } catch {}
+  return new Error(`Server error: ${response.status}`)
+}
+
+/**
+ * Starts a streaming tool as a background job. `params` is the body the
+ * tool's streaming endpoint accepts.
+ */
+export async function startJob(
+  tool: JobTool,
+  params: object,
+): Promise<JobSummary> {
+  const response = await fetch('/api/jobs', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ tool, params }),
+  })
+  if (!response.ok) throw await responseError(response)
+  return response.json()
+}
+
+async function jobAction(
+  jobId: string,
+  action: 'pause' | 'resume' | 'cancel',
+): Promise<JobSummary> {
+  const response = await fetch(
+    `/api/jobs/${encodeURIComponent(jobId)}/${action}`,
+    { method: 'POST' },
+  )
+  if (!response.ok) throw await responseError(response)
+  return response.json()
+}
+
+export function pauseJob(jobId: string): Promise<JobSummary> {
+  return jobAction(jobId, 'pause')
+}
+
+export function resumeJob(jobId: string): Promise<JobSummary> {
+  return jobAction(jobId, 'resume')
+}
+
+export function cancelJob(jobId: string): Promise<JobSummary> {
+  return jobAction(jobId, 'cancel')
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    const timer = setTimeout(resolve, ms)
+    signal?.addEventListener('abort', () => {
+      clearTimeout(timer)
+      resolve()
+    })
+  })
+}
+
+/**
+ * Attaches to a job's events, starting after `lastEventId` (0 replays the
+ * whole job). Dropped connections are resumed with Last-Event-ID until the
+ * job sends its final `end` event. Throws after repeated failed attempts.
+ */
+export async function followJob(
+  jobId: string,
+  onEvent: JobEventHandler,
+  options: { signal?: AbortSignal; lastEventId?: number } = {},
+): Promise<FollowOutcome> {
+  let lastEventId = options.lastEventId ?? 0
+  let failures = 0
+
+  while (!options.signal?.aborted) {
+    let ended = false
+    let lastError: unknown = null
+    try {
+      const response = await fetch(
+        `/api/jobs/${encodeURIComponent(jobId)}/events`,
+        {
+          headers: { 'Last-Event-ID': String(lastEventId) },
+          signal: options.signal,
+        },
+      )
+      if (response.status === 404) return 'not-found'
+      if (!response.ok || !response.body) throw await responseError(response)
+
+      const reader = response.body.getReader()
+      const decoder = new TextDecoder()
+      let buffer = ''
+
+      while (true) {
+        const { done, value } = await reader.read()
+        if (done) break
+
+        buffer += decoder.decode(value, { stream: true })
+        const parsed = parseSseEvents(buffer)
+        buffer = parsed.rest
+
+        for (const message of parsed.events) {
+          if (message.id !== null) lastEventId = message.id
+          failures = 0
+          if (message.event === 'end') ended = true
+          onEvent(message.event, message.data)
+        }
+      }
+    } catch (e) {
+      if ((e as Error).name === 'AbortError') return 'aborted'
+      lastError = e
+    }
+
+    if (ended) return 'ended'
+    if (lastError && ++failures >= MAX_RECONNECTS) throw lastError
+    await sleep(RECONNECT_DELAY_MS, options.signal)
+  }
+
+  return 'aborted'
+}
@@ -0,0 +1,26 @@
+/** Client-side copy of `LinkKind` from `server/utils/link-analyzer.ts` */
+export type LinkKind =
+  | 'anchor'
+  | 'canonical'
+  | 'hreflang'
+  | 'pagination'
+  | 'iframe'
+  | 'script'
+  | 'stylesheet'
+  | 'image'
+  | 'media'
+  | 'meta-refresh'
+
+/** Labels for the kind checkboxes, in the server's `LINK_KINDS` order */
+export const LINK_KIND_LABELS: Record<LinkKind, string> = {
+  anchor: 'Links (a href)',
+  canonical: 'Canonical',
+  hreflang: 'hreflang alternates',
+  pagination: 'Pagination (next/prev)',
+  iframe: 'Iframes',
+  script: 'Scripts',
+  stylesheet: 'Stylesheets',
+  image: 'Images',
+  media: 'Video/audio',
+  'meta-refresh': 'Meta refresh',
+}
@@ -0,0 +1,16 @@
+/** Client-side shape of the `render` request field (see `server/utils/page-renderer.ts`) */
+export interface RenderSettings {
+  enabled: boolean
+  waitUntil: 'load' | 'domcontentloaded' | 'networkidle0' | 'networkidle2'
+  waitForSelector: string
+  waitMs: number
+}
+
+export function defaultRenderSettings(): RenderSettings {
+  return {
+    enabled: false,
+    waitUntil: 'networkidle2',
+    waitForSelector: '',
+    waitMs: 0,
+  }
+}
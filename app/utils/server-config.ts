@@ -0,0 +1,70 @@
+/** Client-side shape of `GET /api/config` (see `server/utils/server-config.ts`) */
+export interface ServerConfig {
+  requestDefaults: {
+    timeout: number
+    retries: number
+    parallelRequests: number
+  }
+  limits: {
+    maxUrls: {
+      scrapeLinks: number
+      checkLinks: number
+      inboundLinks: number
+    }
+    maxBodySize: number
+    maxImageSize: number
+    maxTargets: number
+    maxResults: number
+  }
+  userAgents: {
+    fetch: string
+    robots: string
+  }
+  domains: {
+    allow: string[]
+    deny: string[]
+  }
+  output: {
+    dir: string
+    folders: Record<
+      | 'scraper'
+      | 'seoAudit'
+      | 'silo'
+      | 'images'
+      | 'screenshots'
+      | 'cloaking'
+      | 'sitemap',
+      string
+    >
+  }
+}
+
+interface RequestDefaults {
+  timeout: number
+  retries: number
+  parallelRequests: number
+}
+
+interface CrawlDefaults {
+  maxUrls: number
+  robotsUserAgent: string
+}
+
+/** Replaces the form's built-in request defaults with the server's */
+export function applyRequestDefaults(
+  settings: RequestDefaults,
+  config: ServerConfig,
+): void {
+  settings.timeout = config.requestDefaults.timeout
+  settings.retries = config.requestDefaults.retries
+  settings.parallelRequests = config.requestDefaults.parallelRequests
+}
+
+/** Replaces the link scraper's built-in crawl defaults with the server's */
+export function applyCrawlDefaults(
+  settings: CrawlDefaults,
+  config: ServerConfig,
+): void {
+  settings.maxUrls = config.limits.maxUrls.scrapeLinks
+  settings.robotsUserAgent = config.userAgents.robots
+}
@@ -0,0 +1,166 @@
+/** Client-side shapes of the sitemap extensions (see server/utils/sitemap.ts) */
+export interface SitemapImage {
+  loc: string
+  title?: string
+  caption?: string
+}
+
+export interface SitemapVideo {
+  thumbnailLoc: string
+  title: string
+  description: string
+  contentLoc?: string
+  playerLoc?: string
+  duration?: string
+  publicationDate?: string
+}
+
+export interface SitemapNews {
+  publicationName: string
+  publicationLanguage: string
+  publicationDate: string
+  title: string
+}
+
+export interface SitemapAlternate {
+  hreflang: string
+  href: string
+}
+
+/** Client-side shape of `SitemapEntry` (see server/utils/sitemap.ts) */
+export interface SitemapEntry {
+  loc: string
+  lastmod?: string
+  changefreq?: string
+  priority?: string
+  source: string
+  images?: SitemapImage[]
+  videos?: SitemapVideo[]
+  news?: SitemapNews
+  alternates?: SitemapAlternate[]
+}
+
+/** Client-side copy of `SitemapIssueType` from `server/utils/sitemap-validator.ts` */
+export type SitemapIssueType =
+  | 'fetch-failed'
+  | 'not-a-sitemap'
+  | 'too-many-urls'
+  | 'too-large'
+  | 'nested-index'
+  | 'foreign-url'
+  | 'duplicate-loc'
+  | 'invalid-lastmod'
+  | 'invalid-priority'
+
+/** Badge labels, in the server's `SITEMAP_ISSUE_TYPES` order */
+export const SITEMAP_ISSUE_LABELS: Record<SitemapIssueType, string> = {
+  'fetch-failed': 'Fetch failed',
+  'not-a-sitemap': 'Not a sitemap',
+  'too-many-urls': '> 50,000 URLs',
+  'too-large': '> 50MB',
+  'nested-index': 'Nested index',
+  'foreign-url': 'Other host/protocol',
+  'duplicate-loc': 'Duplicate',
+  'invalid-lastmod': 'Invalid lastmod',
+  'invalid-priority': 'Invalid priority',
+}
+
+/** Client-side shape of `SitemapFileReport` (see server/utils/sitemap-validator.ts) */
+export interface SitemapFileReport {
+  url: string
+  format: string | null
+  urlCount: number
+  bytes: number
+  counts: Partial<Record<SitemapIssueType, number>>
+  issues: { type: SitemapIssueType; message: string; loc?: string }[]
+}
+
+export interface SitemapValidation {
+  files: SitemapFileReport[]
+  issueCount: number
+}
+
+/** Client-side copy of `SitemapStatusIssue` from `server/utils/sitemap-status-tool.ts` */
+export type SitemapStatusIssue =
+  | 'error'
+  | 'non-200'
+  | 'redirect'
+  | 'noindex'
+  | 'canonicalized'
+
+/** Badge labels, in the server's `SITEMAP_STATUS_ISSUES` order */
+export const SITEMAP_STATUS_LABELS: Record<SitemapStatusIssue, string> = {
+  error: 'Failed',
+  'non-200': 'Not 200',
+  redirect: 'Redirect',
+  noindex: 'Noindex',
+  canonicalized: 'Canonical elsewhere',
+}
+
+/** Client-side shape of `SitemapStatusResult` (see server/utils/sitemap-status-tool.ts) */
+export interface SitemapStatusResult {
+  loc: string
+  source?: string
+  status: number
+  redirects: string
+  finalUrl: string
+  finalStatus: number
+  robots: string | null
+  canonical: string | null
+  issues: SitemapStatusIssue[]
+  error?: string
+}
+
+/** Client-side copy of `SitemapDiscoveryMethod` from `server/utils/sitemap-discovery.ts` */
+export type SitemapDiscoveryMethod = 'input' | 'robots' | 'default' | 'cms'
+
+export const SITEMAP_DISCOVERY_LABELS: Record<SitemapDiscoveryMethod, string> =
+  {
+    input: 'as entered',
+    robots: 'robots.txt',
+    default: 'default path',
+    cms: 'CMS path',
+  }
+
+export interface DiscoveredSitemap {
+  url: string
+  method: SitemapDiscoveryMethod
+}
+
+/**
+ * Accepts what `parseSitemapInput` on the server does: an http(s) URL or a
+ * bare domain, which gets `https://`
+ */
+export function isValidSitemapInput(input: string): boolean {
+  const value = input.trim()
+  if (!value) return false
+  try {
+    const url = new URL(
+      /^[a-z][\w+.-]*:/i.test(value) ? value : `https://${value}`,
+    )
+    return url.protocol === 'http:' || url.protocol === 'https:'
+  } catch {
+    return false
+  }
+}
+
+/**
+ * Rows for `save-results`. Every row has every column, because the CSV
+ * header comes from the first row; the extensions stay nested and end up
+ * as JSON in the CSV.
+ */
+export function sitemapRows(
+  entries: SitemapEntry[],
+): Record<string, unknown>[] {
+  return entries.map((entry) => ({
+    loc: entry.loc,
+    lastmod: entry.lastmod ?? '',
+    changefreq: entry.changefreq ?? '',
+    priority: entry.priority ?? '',
+    images: entry.images ?? [],
+    videos: entry.videos ?? [],
+    news: entry.news ?? null,
+    alternates: entry.alternates ?? [],
+    source: entry.source,
+  }))
+}
@@ -0,0 +1,26 @@
+/** Client-side copy of the preset ids in `server/utils/user-agents.ts` */
+export type UserAgentPreset =
+  | 'googlebot-smartphone'
+  | 'googlebot-desktop'
+  | 'bingbot'
+  | 'chrome-desktop'
+  | 'chrome-mobile'
+
+/** Labels for the User-Agent picker, in the server's preset order */
+export const USER_AGENT_LABELS: Record<UserAgentPreset, string> = {
+  'googlebot-smartphone': 'Googlebot Smartphone',
+  'googlebot-desktop': 'Googlebot Desktop',
+  bingbot: 'Bingbot',
+  'chrome-desktop': 'Chrome Desktop',
+  'chrome-mobile': 'Chrome Mobile',
+}
+
+/** Picker value for a `RequestSettings.userAgent`: a preset, the default or custom */
+export function userAgentChoice(
+  value: string | undefined,
+): UserAgentPreset | 'default' | 'custom' {
+  if (!value || value === 'default') return 'default'
+  return Object.hasOwn(USER_AGENT_LABELS, value)
+    ? (value as UserAgentPreset)
+    : 'custom'
+}
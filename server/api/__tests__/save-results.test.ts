@@ -1,5 +1,9 @@
 import { afterEach, describe, expect, it, vi } from 'vitest'
-import { getTimestamp, sanitizeFilename } from '../save-results.post'
+import {
+  getTimestamp,
+  sanitizeFilename,
+  toCsvRecord,
+} from '../save-results.post'
 
 describe('sanitizeFilename', () => {
   it('strips protocol and converts URL to filename', () => {
@@ -118,3 +122,20 @@ describe('getTimestamp', () => {
     expect(result).toContain('_')
   })
 })
+
+describe('toCsvRecord', () => {
+  it('keeps scalar values as they are', () => {
+    expect(
+      toCsvRecord({ url: 'https://a.com', status: 200, ok: true }),
+    ).toEqual({ url: 'https://a.com', status: 200, ok: true })
+  })
+
+  it('serializes nested values as JSON', () => {
+    const record = toCsvRecord({
+      redirectHops: [{ url: 'https://a.com', status: 301 }],
+      error: null,
+    })
+    expect(record.redirectHops).toBe('[{"url":"https://a.com","status":301}]')
+    expect(record.error).toBeNull()
+  })
+})
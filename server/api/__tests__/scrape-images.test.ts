@@ -0,0 +1,50 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { fetchWithTimeout } from '../scrape-images.post'
+
+const USER_AGENT = 'Mozilla/5.0 (compatible; URLTools/1.0)'
+// An IP literal, so the proxy check needs no DNS lookup
+const PAGE_URL = 'http://93.184.215.14/gallery'
+
+describe('fetchWithTimeout', () => {
+  beforeEach(() => {
+    vi.stubGlobal('fetch', vi.fn())
+  })
+
+  afterEach(() => {
+    vi.unstubAllGlobals()
+  })
+
+  it('follows redirects hop by hop through the proxy', async () => {
+    vi.mocked(fetch)
+      .mockResolvedValueOnce(
+        new Response(null, { status: 302, headers: { location: '/photos' } }),
+      )
+      .mockResolvedValueOnce(new Response('<html></html>'))
+
+    const response = await fetchWithTimeout(
+      PAGE_URL,
+      5000,
+      USER_AGENT,
+      'http://proxy.test:8080',
+    )
+
+    expect(response.status).toBe(200)
+    const [first, second] = vi.mocked(fetch).mock.calls
+    expect(first?.[1]?.redirect).toBe('manual')
+    expect(second?.[0]).toBe('http://93.184.215.14/photos')
+  })
+
+  it('refuses a proxied redirect to a private address', async () => {
+    vi.mocked(fetch).mockResolvedValue(
+      new Response(null, {
+        status: 302,
+        headers: { location: 'http://10.0.0.1/admin' },
+      }),
+    )
+
+    await expect(
+      fetchWithTimeout(PAGE_URL, 5000, USER_AGENT, 'http://proxy.test:8080'),
+    ).rejects.toThrow('Redirect to blocked URL http://10.0.0.1/admin')
+    expect(fetch).toHaveBeenCalledTimes(1)
+  })
+})
@@ -0,0 +1,46 @@
+import { defineEventHandler, getQuery } from 'h3'
+import {
+  type CheckpointTool,
+  isCheckpointActive,
+  listCheckpoints,
+} from '../utils/crawl-checkpoint'
+
+interface CheckpointSummary {
+  jobId: string
+  tool: CheckpointTool
+  status: 'running' | 'interrupted' | 'completed'
+  active: boolean
+  seeds: string[]
+  pagesProcessed: number
+  queued: number
+  resultCount: number
+  createdAt: string
+  updatedAt: string
+}
+
+// Lists crawl jobs with on-disk checkpoints, newest first. Jobs that are not
+// completed and not active can be resumed via `resumeJobId`.
+export default defineEventHandler(async (event) => {
+  const { tool } = getQuery(event)
+
+  const checkpoints = await listCheckpoints()
+  const jobs: CheckpointSummary[] = checkpoints
+    .filter((c) => !tool || c.tool === tool)
+    .map((c) => {
+      const request = c.request as { urls?: string[]; startUrls?: string[] }
+      return {
+        jobId: c.jobId,
+        tool: c.tool,
+        status: c.status,
+        active: isCheckpointActive(c.jobId),
+        seeds: request.urls ?? request.startUrls ?? [],
+        pagesProcessed: c.state?.pagesProcessed ?? 0,
+        queued: c.state?.queue.length ?? 0,
+        resultCount: c.resultCount,
+        createdAt: c.createdAt,
+        updatedAt: c.updatedAt,
+      }
+    })
+
+  return { jobs }
+})
@@ -0,0 +1,13 @@
+import { defineEventHandler, readBody } from 'h3'
+import {
+  type CloakingCheckRequest,
+  prepareCloakingCheck,
+} from '../utils/cloaking-check-tool'
+import { streamCrawl } from '../utils/crawl-engine'
+
+export default defineEventHandler(async (event) => {
+  const run = await prepareCloakingCheck(
+    await readBody<CloakingCheckRequest>(event),
+  )
+  await streamCrawl(event, run)
+})
@@ -0,0 +1,5 @@
+import { defineEventHandler } from 'h3'
+import { getServerConfig } from '../utils/server-config'
+
+// Effective server defaults and limits, for the settings UI
+export default defineEventHandler(() => getServerConfig())
@@ -0,0 +1,10 @@
+import { createError, defineEventHandler, getRouterParam } from 'h3'
+import { cancelJob } from '../../../utils/jobs'
+
+export default defineEventHandler((event) => {
+  const job = cancelJob(getRouterParam(event, 'id') ?? '')
+  if (!job) {
+    throw createError({ statusCode: 404, message: 'Job not found' })
+  }
+  return job
+})
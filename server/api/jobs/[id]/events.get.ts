@@ -0,0 +1,43 @@
+import {
+  createError,
+  defineEventHandler,
+  getQuery,
+  getRequestHeader,
+  getRouterParam,
+} from 'h3'
+import { createSseStream } from '../../../utils/crawl-engine'
+import { getJob, subscribeJob } from '../../../utils/jobs'
+
+// Attaches to a job's event stream. Events carry SSE ids; reconnecting with
+// Last-Event-ID (or ?lastEventId= where headers can't be set) replays only
+// what was missed. The stream ends with an `end` event once the job is done.
+export default defineEventHandler(async (event) => {
+  const jobId = getRouterParam(event, 'id') ?? ''
+  if (!getJob(jobId)) {
+    throw createError({ statusCode: 404, message: 'Job not found' })
+  }
+
+  const lastEventId = Number(
+    getRequestHeader(event, 'last-event-id') ??
+      getQuery(event).lastEventId ??
+      0,
+  )
+  const afterId = Number.isFinite(lastEventId) ? lastEventId : 0
+
+  const stream = createSseStream(event)
+  await new Promise<void>((resolve) => {
+    const unsubscribe = subscribeJob(jobId, afterId, (entry) => {
+      stream.emit(entry.event, entry.data, entry.id)
+      if (entry.event === 'end') resolve()
+    })
+    // Detaching never affects the job itself
+    event.node.res.on('close', () => {
+      unsubscribe?.()
+      resolve()
+    })
+    // Nothing more will arrive for a finished job
+    const status = getJob(jobId)?.status
+    if (status !== 'running' && status !== 'paused') resolve()
+  })
+  stream.end()
+})
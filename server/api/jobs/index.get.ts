@@ -0,0 +1,7 @@
+import { defineEventHandler } from 'h3'
+import { listJobs } from '../../utils/jobs'
+
+// Lists background jobs of this server process, newest first
+export default defineEventHandler(() => {
+  return { jobs: listJobs() }
+})
@@ -0,0 +1,38 @@
+import { createError, defineEventHandler, readBody } from 'h3'
+import { prepareCheckLinks } from '../../utils/check-links-tool'
+import { prepareCloakingCheck } from '../../utils/cloaking-check-tool'
+import type { CrawlRun } from '../../utils/crawl-engine'
+import { prepareInboundLinks } from '../../utils/inbound-links-tool'
+import { type JobTool, startJob } from '../../utils/jobs'
+import { prepareScrapeLinks } from '../../utils/scrape-links-tool'
+import { prepareSitemapStatus } from '../../utils/sitemap-status-tool'
+
+interface StartJobRequest {
+  tool: JobTool
+  // Same body the tool's streaming endpoint accepts
+  params: Record<string, unknown>
+}
+
+const TOOLS: Record<JobTool, (params: never) => Promise<CrawlRun>> = {
+  'scrape-links': prepareScrapeLinks,
+  'check-links': prepareCheckLinks,
+  'inbound-links': prepareInboundLinks,
+  'cloaking-check': prepareCloakingCheck,
+  'sitemap-status': prepareSitemapStatus,
+}
+
+// Starts a streaming tool in the background. Progress is read from
+// GET /api/jobs/:id/events, which can be attached to any number of times.
+export default defineEventHandler(async (event) => {
+  const body = await readBody<StartJobRequest>(event)
+
+  if (!body?.tool || !Object.hasOwn(TOOLS, body.tool)) {
+    throw createError({ statusCode: 400, message: 'unknown tool' })
+  }
+  if (!body.params || typeof body.params !== 'object') {
+    throw createError({ statusCode: 400, message: 'params object required' })
+  }
+
+  const run = await TOOLS[body.tool](body.params as never)
+  return startJob(body.tool, run)
+})
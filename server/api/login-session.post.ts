@@ -0,0 +1,33 @@
+import { createError, defineEventHandler, readBody } from 'h3'
+import { clampRequestSettings } from '../utils/crawl-engine'
+import type { RequestSettings } from '../utils/fetch-with-retry'
+import {
+  type LoginRecipe,
+  type LoginSession,
+  loginWithForm,
+  resolveLoginRecipe,
+} from '../utils/form-login'
+
+interface LoginSessionRequest extends Partial<LoginRecipe> {
+  settings?: Partial<RequestSettings>
+}
+
+/**
+ * Logs in through a form in headless Chrome and returns the session
+ * cookies as cookie credentials. Nothing is stored on the server; the
+ * client adds the credentials to its request settings.
+ */
+export default defineEventHandler(async (event): Promise<LoginSession> => {
+  const body = await readBody<LoginSessionRequest>(event)
+  const recipe = resolveLoginRecipe(body)
+  const settings = clampRequestSettings(body.settings)
+
+  try {
+    return await loginWithForm(recipe, settings)
+  } catch (error) {
+    throw createError({
+      statusCode: 500,
+      message: `Login failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+    })
+  }
+})
@@ -1,15 +1,34 @@
 import { createError, defineEventHandler, readBody } from 'h3'
 import type { RequestSettings } from '../utils/fetch-with-retry'
+import { resolveProxySetting } from '../utils/proxy'
+import { getServerConfig } from '../utils/server-config'
 import { fetchSitemapUrls, type SitemapEntry } from '../utils/sitemap'
-import { isAllowedUrl } from '../utils/url-validator'
+import {
+  type DiscoveredSitemap,
+  resolveSitemapInput,
+} from '../utils/sitemap-discovery'
+import {
+  createSitemapValidator,
+  MAX_SITEMAP_BYTES,
+  type SitemapValidation,
+} from '../utils/sitemap-validator'
+import { resolveUserAgent } from '../utils/user-agents'
 
 interface ParseSitemapRequest {
+  /** Sitemap URL, or a domain / home page URL to discover sitemaps for */
   url: string
   recursive?: boolean
+  /** Check every file against the sitemaps.org protocol */
+  validate?: boolean
+  settings?: Pick<RequestSettings, 'proxy' | 'userAgent'>
 }
 
 interface ParseSitemapResponse {
   urls: SitemapEntry[]
+  /** The sitemaps fetching started from and how each was found */
+  discovered: DiscoveredSitemap[]
+  /** Only with `validate` */
+  validation?: SitemapValidation
   stats: {
     total: number
     sitemaps: number
@@ -27,26 +46,41 @@ export default defineEventHandler(
       })
     }
 
-    const url = body.url.trim()
+    const settings: RequestSettings = {
+      timeout: getServerConfig().requestDefaults.timeout,
+      retries: 2,
+      proxy: resolveProxySetting(body.settings?.proxy),
+      userAgent: resolveUserAgent(body.settings?.userAgent),
+    }
 
-    if (!isAllowedUrl(url)) {
+    const discovered = await resolveSitemapInput(body.url, settings)
+    if (discovered.length === 0) {
       throw createError({
-        statusCode: 400,
-        message: 'URL is not allowed (blocked by SSRF protection)',
+        statusCode: 404,
+        message: 'No sitemap found in robots.txt or at common sitemap paths',
       })
     }
 
-    const settings: RequestSettings = {
-      timeout: 30,
-      retries: 2,
-    }
-
-    const { entries, sitemapsFetched } = await fetchSitemapUrls(url, settings, {
-      recursive: body.recursive === true,
-    })
+    // Validation reads files up to the protocol's 50MB, so a larger one
+    // fails as too large instead of being cut off at the usual 10MB
+    const validator = body.validate === true ? createSitemapValidator() : null
+    const { entries, sitemapsFetched } = await fetchSitemapUrls(
+      discovered.map((sitemap) => sitemap.url),
+      settings,
+      {
+        recursive: body.recursive === true,
+        ...(validator && {
+          maxBodySize: MAX_SITEMAP_BYTES,
+          onSitemapParsed: validator.onSitemapParsed,
+          onSitemapFailed: validator.onSitemapFailed,
+        }),
+      },
+    )
 
     return {
       urls: entries,
+      discovered,
+      ...(validator && { validation: validator.report() }),
       stats: {
         total: entries.length,
         sitemaps: sitemapsFetched,
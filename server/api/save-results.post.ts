@@ -2,7 +2,9 @@ import { mkdir, writeFile } from 'node:fs/promises'
 import { join } from 'node:path'
 import { createError, defineEventHandler, readBody } from 'h3'
 import Papa from 'papaparse'
-import { assertWithinOutput, OUTPUT_ROOT } from '../utils/path-guard'
+import { assertWithinOutput, outputFolder } from '../utils/path-guard'
+import { getServerConfig } from '../utils/server-config'
+import { resolveUserAgent } from '../utils/user-agents'
 
 interface HtmlResult {
   url: string
@@ -10,14 +12,17 @@ interface HtmlResult {
   contentType: string
   size: number
   html: string
+  userAgent?: string
   error?: string
 }
 
 interface SaveResultsRequest {
   results: Record<string, unknown>[]
   format: 'csv' | 'json' | 'both'
-  mode: 'html' | 'links' | 'inbound-links' | 'seo'
+  mode: 'html' | 'links' | 'inbound-links' | 'seo' | 'cloaking' | 'sitemap'
   baseOutputDir?: string
+  /** `RequestSettings.userAgent` of the run, recorded with every row */
+  userAgent?: string
 }
 
 export function getTimestamp(): string {
@@ -41,6 +46,23 @@ export function sanitizeFilename(url: string): string {
   }
 }
 
+/**
+ * Flattens a result for CSV: nested values (e.g. `redirectHops`) are
+ * written as JSON instead of "[object Object]".
+ */
+export function toCsvRecord(
+  result: Record<string, unknown>,
+): Record<string, unknown> {
+  const record: Record<string, unknown> = {}
+  for (const [key, value] of Object.entries(result)) {
+    record[key] =
+      value !== null && typeof value === 'object'
+        ? JSON.stringify(value)
+        : value
+  }
+  return record
+}
+
 export default defineEventHandler(async (event) => {
   const body = await readBody<SaveResultsRequest>(event)
 
@@ -52,21 +74,33 @@ export default defineEventHandler(async (event) => {
   }
 
   // Guard against OOM when serializing very large matrix results
-  const MAX_RESULTS = 50000
-  if (body.results.length > MAX_RESULTS) {
+  const { maxResults } = getServerConfig().limits
+  if (body.results.length > maxResults) {
     throw createError({
       statusCode: 413,
-      message: `too many results (max ${MAX_RESULTS}); refine filters or use sitemap scope`,
+      message: `too many results (max ${maxResults}); refine filters or use sitemap scope`,
     })
   }
 
+  // Rows that don't say how they were fetched get the run's User-Agent
+  if (body.userAgent !== undefined) {
+    const userAgent = resolveUserAgent(body.userAgent)
+    body.results = body.results.map((row) =>
+      row.userAgent === undefined ? { ...row, userAgent } : row,
+    )
+  }
+
   // Output subdirectory depends on mode
   const defaultDir =
     body.mode === 'inbound-links'
-      ? join(OUTPUT_ROOT, 'silo')
+      ? outputFolder('silo')
       : body.mode === 'seo'
-        ? join(OUTPUT_ROOT, 'seo-audit')
-        : join(OUTPUT_ROOT, 'scraper')
+        ? outputFolder('seoAudit')
+        : body.mode === 'cloaking'
+          ? outputFolder('cloaking')
+          : body.mode === 'sitemap'
+            ? outputFolder('sitemap')
+            : outputFolder('scraper')
   const baseOutputDir = assertWithinOutput(body.baseOutputDir || defaultDir)
   const timestamp = getTimestamp()
   const baseFilename = `${timestamp}_${body.mode}`
@@ -98,6 +132,7 @@ export default defineEventHandler(async (event) => {
         contentType: r.contentType,
         size: r.size,
         filename: r.error ? '' : `${sanitizeFilename(r.url)}.html`,
+        userAgent: r.userAgent ?? '',
         error: r.error || '',
       }))
 
@@ -127,16 +162,18 @@ export default defineEventHandler(async (event) => {
 
       if (body.format === 'csv' || body.format === 'both') {
         const csvPath = join(baseOutputDir, `${baseFilename}.csv`)
-        const csv = Papa.unparse(body.results)
+        const csv = Papa.unparse(body.results.map(toCsvRecord))
         await writeFile(csvPath, csv, 'utf-8')
         savedFiles.push(csvPath)
       }
 
       // TXT: inbound-links → unique sourceUrls;
-      // links → unique targetUrls; seo → unique url.
+      // links → unique targetUrls; seo, cloaking → unique url;
+      // sitemap → unique loc.
       let urlField = 'targetUrl'
       if (body.mode === 'inbound-links') urlField = 'sourceUrl'
-      else if (body.mode === 'seo') urlField = 'url'
+      else if (body.mode === 'seo' || body.mode === 'cloaking') urlField = 'url'
+      else if (body.mode === 'sitemap') urlField = 'loc'
       const linkResults = body.results as Array<Record<string, unknown>>
       const uniqueLinks = [
         ...new Set(
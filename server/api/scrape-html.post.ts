@@ -1,7 +1,13 @@
 import * as cheerio from 'cheerio'
 import { defineEventHandler, readBody } from 'h3'
+import { resolveCredentials } from '../utils/credentials'
 import { fetchWithRetry, type RequestSettings } from '../utils/fetch-with-retry'
+import { type CacheStatus, resolveCacheMode } from '../utils/http-cache'
+import { resolveProxySetting } from '../utils/proxy'
+import { readResponseText } from '../utils/response-body'
+import { getServerConfig } from '../utils/server-config'
 import { filterAllowedUrls } from '../utils/url-validator'
+import { resolveUserAgent } from '../utils/user-agents'
 
 interface ScrapeHtmlRequest {
   urls: string[]
@@ -15,8 +21,10 @@ interface ScrapeHtmlResult {
   contentType: string
   size: number
   html: string
+  encoding?: string
   error?: string
   retryCount?: number
+  cacheStatus?: CacheStatus
 }
 
 export default defineEventHandler(async (event) => {
@@ -32,11 +40,15 @@ export default defineEventHandler(async (event) => {
   body.urls = filterAllowedUrls(body.urls)
 
   // Default settings
+  const defaults = getServerConfig().requestDefaults
   const settings: RequestSettings = {
-    timeout: body.settings?.timeout ?? 30,
-    retries: body.settings?.retries ?? 1,
-    proxy: body.settings?.proxy,
+    timeout: body.settings?.timeout ?? defaults.timeout,
+    retries: body.settings?.retries ?? defaults.retries,
+    proxy: resolveProxySetting(body.settings?.proxy),
+    userAgent: resolveUserAgent(body.settings?.userAgent),
     headers: body.settings?.headers,
+    credentials: resolveCredentials(body.settings?.credentials),
+    cache: resolveCacheMode(body.settings?.cache),
   }
 
   const results: ScrapeHtmlResult[] = []
@@ -50,17 +62,12 @@ export default defineEventHandler(async (event) => {
     const batchResults = await Promise.all(
       batch.map(async (url): Promise<ScrapeHtmlResult> => {
         try {
-          const { response, retryCount } = await fetchWithRetry(url, settings)
-
-          const contentLength = parseInt(
-            response.headers.get('content-length') || '0',
-            10,
+          const { response, retryCount, cacheStatus } = await fetchWithRetry(
+            url,
+            settings,
           )
-          if (contentLength > 10 * 1024 * 1024) {
-            throw new Error('Response too large (>10MB)')
-          }
-
-          let html = await response.text()
+          const { text, encoding } = await readResponseText(response)
+          let html = text
 
           // Apply CSS selector if provided
           if (cssSelector) {
@@ -82,7 +89,9 @@ export default defineEventHandler(async (event) => {
             contentType: response.headers.get('content-type') || 'unknown',
             size: html.length,
             html,
+            encoding,
             retryCount,
+            cacheStatus,
           }
         } catch (error) {
           return {
@@ -2,7 +2,16 @@ import { mkdir, writeFile } from 'node:fs/promises'
 import { extname, join } from 'node:path'
 import * as cheerio from 'cheerio'
 import { defineEventHandler, readBody } from 'h3'
-import { assertWithinOutput, OUTPUT_ROOT } from '../utils/path-guard'
+import {
+  fetchFollowingRedirects,
+  type RequestSettings,
+} from '../utils/fetch-with-retry'
+import { assertWithinOutput, outputFolder } from '../utils/path-guard'
+import { resolveProxySetting } from '../utils/proxy'
+import { readResponseBytes, readResponseText } from '../utils/response-body'
+import { getServerConfig } from '../utils/server-config'
+import { blockedCause } from '../utils/ssrf-guard'
+import { resolveUserAgent } from '../utils/user-agents'
 
 interface ImageResult {
   src: string
@@ -31,28 +40,32 @@ interface RequestBody {
   formats?: string[]
   outputDir?: string // Use existing output dir (for multi-URL jobs)
   subfolderPerUrl?: boolean // Create subfolder for each URL
+  settings?: Pick<RequestSettings, 'proxy' | 'userAgent'>
 }
 
-async function fetchWithTimeout(
+/**
+ * GET with a timeout. Redirects are followed hop by hop, so behind a proxy
+ * every `Location` is checked by the SSRF guard too.
+ */
+export async function fetchWithTimeout(
   url: string,
-  timeout = 30000,
+  timeout: number,
+  userAgent: string,
+  proxy?: string,
 ): Promise<Response> {
   const controller = new AbortController()
   const timeoutId = setTimeout(() => controller.abort(), timeout)
 
   try {
-    const response = await fetch(url, {
-      signal: controller.signal,
-      headers: {
-        'User-Agent':
-          'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36',
-      },
-    })
-    clearTimeout(timeoutId)
-    return response
+    return await fetchFollowingRedirects(
+      url,
+      { timeout: timeout / 1000, retries: 0, proxy, userAgent },
+      { headers: {}, signal: controller.signal },
+    )
   } catch (error) {
+    throw blockedCause(error) ?? error
+  } finally {
     clearTimeout(timeoutId)
-    throw error
   }
 }
 
@@ -118,6 +131,8 @@ export default defineEventHandler(async (event) => {
     subfolderPerUrl = false,
   } = body
   const urls = filterAllowedUrls(body.urls || [])
+  const proxy = resolveProxySetting(body.settings?.proxy)
+  const userAgent = resolveUserAgent(body.settings?.userAgent)
 
   if (urls.length === 0) {
     throw createError({
@@ -129,7 +144,7 @@ export default defineEventHandler(async (event) => {
   const results: ScrapeResult[] = []
   const timestamp = new Date().toISOString().replace(/[:.]/g, '-').slice(0, 19)
   const outputDir = assertWithinOutput(
-    existingOutputDir || join(OUTPUT_ROOT, 'images', timestamp),
+    existingOutputDir || join(outputFolder('images'), timestamp),
   )
 
   // Create output directory if downloading
@@ -147,14 +162,19 @@ export default defineEventHandler(async (event) => {
 
     try {
       // Fetch the page
-      const response = await fetchWithTimeout(url)
+      const response = await fetchWithTimeout(
+        url,
+        getServerConfig().requestDefaults.timeout * 1000,
+        userAgent,
+        proxy,
+      )
       if (!response.ok) {
         result.error = `HTTP ${response.status}`
         results.push(result)
         continue
       }
 
-      const html = await response.text()
+      const { text: html } = await readResponseText(response)
       const $ = cheerio.load(html)
       const images: ImageResult[] = []
       const seenUrls = new Set<string>()
@@ -268,13 +288,21 @@ export default defineEventHandler(async (event) => {
           if (!img) continue
 
           try {
-            const imgResponse = await fetchWithTimeout(img.src, 15000)
+            const imgResponse = await fetchWithTimeout(
+              img.src,
+              15000,
+              userAgent,
+              proxy,
+            )
             if (!imgResponse.ok) {
               img.error = `HTTP ${imgResponse.status}`
               continue
             }
 
-            const buffer = await imgResponse.arrayBuffer()
+            const buffer = await readResponseBytes(
+              imgResponse,
+              getServerConfig().limits.maxImageSize,
+            )
             img.size = buffer.byteLength
 
             // Generate unique filename
@@ -284,7 +312,7 @@ export default defineEventHandler(async (event) => {
             filename = `${filenamePrefix}${i + 1}_${baseName}${ext}`
 
             const localPath = join(saveDir, filename)
-            await writeFile(localPath, Buffer.from(buffer))
+            await writeFile(localPath, buffer)
 
             img.filename = filename
             img.localPath = localPath
@@ -1,7 +1,12 @@
 import * as cheerio from 'cheerio'
 import { defineEventHandler, readBody } from 'h3'
+import { resolveCredentials } from '../utils/credentials'
 import { fetchWithRetry, type RequestSettings } from '../utils/fetch-with-retry'
+import { resolveProxySetting } from '../utils/proxy'
+import { readResponseText } from '../utils/response-body'
+import { getServerConfig } from '../utils/server-config'
 import { filterAllowedUrls } from '../utils/url-validator'
+import { resolveUserAgent } from '../utils/user-agents'
 
 interface ScrapeJsonRequest {
   urls: string[]
@@ -36,6 +41,7 @@ interface TwitterCardData {
 interface ScrapeJsonResult {
   url: string
   status: number
+  encoding?: string
   jsonLd: JsonLdData[]
   openGraph: OpenGraphData
   twitterCard: TwitterCardData
@@ -60,10 +66,14 @@ export default defineEventHandler(async (event) => {
 
   body.urls = filterAllowedUrls(body.urls)
 
+  const defaults = getServerConfig().requestDefaults
   const settings: RequestSettings = {
-    timeout: body.settings?.timeout ?? 30,
-    retries: body.settings?.retries ?? 1,
+    timeout: body.settings?.timeout ?? defaults.timeout,
+    retries: body.settings?.retries ?? defaults.retries,
+    proxy: resolveProxySetting(body.settings?.proxy),
+    userAgent: resolveUserAgent(body.settings?.userAgent),
     headers: body.settings?.headers,
+    credentials: resolveCredentials(body.settings?.credentials),
   }
 
   const results: ScrapeJsonResult[] = []
@@ -77,16 +87,7 @@ export default defineEventHandler(async (event) => {
       batch.map(async (url): Promise<ScrapeJsonResult> => {
         try {
           const { response } = await fetchWithRetry(url, settings)
-
-          const contentLength = parseInt(
-            response.headers.get('content-length') || '0',
-            10,
-          )
-          if (contentLength > 10 * 1024 * 1024) {
-            throw new Error('Response too large (>10MB)')
-          }
-
-          const html = await response.text()
+          const { text: html, encoding } = await readResponseText(response)
           const $ = cheerio.load(html)
 
           // Extract JSON-LD
@@ -139,6 +140,7 @@ export default defineEventHandler(async (event) => {
           return {
             url,
             status: response.status,
+            encoding,
             jsonLd,
             openGraph,
             twitterCard,
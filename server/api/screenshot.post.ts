@@ -1,8 +1,13 @@
 import { mkdir, writeFile } from 'node:fs/promises'
 import { join, resolve } from 'node:path'
 import { defineEventHandler, readBody } from 'h3'
-import puppeteer, { type Browser, type Page } from 'puppeteer'
-import { assertWithinOutput, OUTPUT_ROOT } from '../utils/path-guard'
+import type { Page } from 'puppeteer'
+import type { RequestSettings } from '../utils/fetch-with-retry'
+import { guardRequests, openPage, resetBrowser } from '../utils/page-renderer'
+import { assertWithinOutput, outputFolder } from '../utils/path-guard'
+import { resolveProxySetting } from '../utils/proxy'
+import { getServerConfig } from '../utils/server-config'
+import { resolveUserAgent } from '../utils/user-agents'
 
 interface ScreenshotRequest {
   urls: string[]
@@ -16,6 +21,7 @@ interface ScreenshotRequest {
   timeout?: number // seconds
   outputDir?: string // Use existing output dir (for multi-URL jobs)
   startIndex?: number // Starting index for filename numbering
+  settings?: Pick<RequestSettings, 'proxy' | 'userAgent'>
 }
 
 interface ScreenshotResult {
@@ -23,21 +29,11 @@ interface ScreenshotResult {
   success: boolean
   filename?: string
   size?: number
+  /** User-Agent the page was loaded with */
+  userAgent?: string
   error?: string
 }
 
-let browser: Browser | null = null
-
-async function getBrowser(): Promise<Browser> {
-  if (!browser) {
-    browser = await puppeteer.launch({
-      headless: true,
-      args: ['--no-sandbox', '--disable-setuid-sandbox'],
-    })
-  }
-  return browser
-}
-
 async function takeScreenshot(
   page: Page,
   url: string,
@@ -55,7 +51,8 @@ async function takeScreenshot(
     // Load page
     await page.goto(url, {
       waitUntil: 'networkidle2',
-      timeout: (options.timeout || 30) * 1000,
+      timeout:
+        (options.timeout || getServerConfig().requestDefaults.timeout) * 1000,
     })
 
     // Generate filename
@@ -116,19 +113,24 @@ export default defineEventHandler(async (event) => {
   }
 
   body.urls = filterAllowedUrls(body.urls)
+  const proxy = resolveProxySetting(body.settings?.proxy)
+  const userAgent = resolveUserAgent(body.settings?.userAgent)
 
   // Output folder - reuse existing or create new
   const timestamp = new Date().toISOString().slice(0, 19).replace(/[T:]/g, '-')
   const outputDir = assertWithinOutput(
-    body.outputDir || join(OUTPUT_ROOT, 'screenshots', timestamp),
+    body.outputDir || join(outputFolder('screenshots'), timestamp),
   )
   await mkdir(outputDir, { recursive: true })
 
   const results: ScreenshotResult[] = []
 
   try {
-    const browserInstance = await getBrowser()
-    const page = await browserInstance.newPage()
+    // One page (and proxy) for the whole request
+    const { page, close } = await openPage(proxy)
+    // Redirects and subresources pass the SSRF guard like the URLs do
+    await guardRequests(page, undefined, { skipResources: false })
+    await page.setUserAgent(userAgent)
 
     const startIndex = body.startIndex || 0
     for (let i = 0; i < body.urls.length; i++) {
@@ -142,18 +144,13 @@ export default defineEventHandler(async (event) => {
         outputDir,
         startIndex + i,
       )
-      results.push(result)
+      results.push({ ...result, userAgent })
     }
 
-    await page.close()
+    await close()
   } catch (error) {
     // On browser error: reset browser instance
-    if (browser) {
-      try {
-        await browser.close()
-      } catch {}
-      browser = null
-    }
+    await resetBrowser()
 
     throw createError({
       statusCode: 500,
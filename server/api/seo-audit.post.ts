@@ -3,16 +3,32 @@ import { join } from 'node:path'
 import * as cheerio from 'cheerio'
 import { defineEventHandler, readBody } from 'h3'
 import Papa from 'papaparse'
-import { fetchWithRetry, type RequestSettings } from '../utils/fetch-with-retry'
-import { OUTPUT_ROOT } from '../utils/path-guard'
+import { resolveCredentials } from '../utils/credentials'
+import {
+  fetchFollowingRedirects,
+  fetchWithRetry,
+  type RequestSettings,
+} from '../utils/fetch-with-retry'
+import { type CacheStatus, resolveCacheMode } from '../utils/http-cache'
+import {
+  type RenderOptions,
+  renderPage,
+  resolveRenderOptions,
+} from '../utils/page-renderer'
+import { outputFolder } from '../utils/path-guard'
+import { resolveProxySetting } from '../utils/proxy'
+import { readResponseText } from '../utils/response-body'
+import { getServerConfig } from '../utils/server-config'
 import { filterAllowedUrls, isAllowedUrl } from '../utils/url-validator'
 import { computeSimhash } from '../utils/text-similarity'
+import { resolveUserAgent } from '../utils/user-agents'
 
 interface SeoAuditRequest {
   urls: string[] // Bulk mode: array of URLs
   url?: string // Legacy: single URL (converted to urls)
   checkLinks?: boolean
   settings?: RequestSettings
+  render?: RenderOptions // Audit the DOM rendered by headless Chrome
   saveResults?: boolean
 }
 
@@ -36,6 +52,10 @@ interface SeoAuditResult {
   loadTime: number
   size: number
   contentHash: number
+  cacheStatus?: CacheStatus
+  encoding?: string
+  /** User-Agent the page was requested with */
+  userAgent?: string
   isDuplicate?: boolean
   duplicateOf?: string
 
@@ -84,11 +104,16 @@ interface SeoAuditResult {
   error?: string
 }
 
-async function checkLinkStatus(url: string): Promise<number> {
+async function checkLinkStatus(
+  url: string,
+  settings: RequestSettings,
+): Promise<number> {
   if (!isAllowedUrl(url)) return 0
   try {
-    const response = await fetch(url, {
+    // Every hop is checked by the SSRF guard and gets its own credentials
+    const response = await fetchFollowingRedirects(url, settings, {
       method: 'HEAD',
+      headers: {},
       signal: AbortSignal.timeout(5000),
     })
     return response.status
@@ -97,24 +122,41 @@ async function checkLinkStatus(url: string): Promise<number> {
   }
 }
 
+async function fetchHtml(
+  url: string,
+  settings: RequestSettings,
+  render: Required<RenderOptions> | null,
+): Promise<{
+  response: Response
+  html: string
+  encoding: string
+  loadTime: number
+  cacheStatus?: CacheStatus
+}> {
+  if (render) return renderPage(url, render, settings)
+
+  const { response, loadTime, cacheStatus } = await fetchWithRetry(
+    url,
+    settings,
+  )
+  const { text: html, encoding } = await readResponseText(response)
+
+  return { response, html, encoding, loadTime, cacheStatus }
+}
+
 // Audit a single URL
 async function auditUrl(
   url: string,
   checkLinks: boolean,
   settings: RequestSettings,
+  render: Required<RenderOptions> | null,
 ): Promise<SeoAuditResult> {
   try {
-    const { response, loadTime } = await fetchWithRetry(url, settings)
-
-    const contentLength = parseInt(
-      response.headers.get('content-length') || '0',
-      10,
+    const { response, html, encoding, loadTime, cacheStatus } = await fetchHtml(
+      url,
+      settings,
+      render,
     )
-    if (contentLength > 10 * 1024 * 1024) {
-      throw new Error('Response too large (>10MB)')
-    }
-
-    const html = await response.text()
     const $ = cheerio.load(html)
     const issues: string[] = []
     let score = 100
@@ -229,7 +271,7 @@ async function auditUrl(
 
         try {
           const linkUrl = new URL(href, url)
-          const status = await checkLinkStatus(linkUrl.href)
+          const status = await checkLinkStatus(linkUrl.href, settings)
           if (status >= 400 || status === 0) {
             brokenLinks.push({
               href: linkUrl.href,
@@ -291,6 +333,9 @@ async function auditUrl(
       loadTime,
       size: html.length,
       contentHash,
+      cacheStatus,
+      encoding,
+      userAgent: settings.userAgent,
       title: { text: titleText, length: titleLength, isGood: titleIsGood },
       description: { text: descText, length: descLength, isGood: descIsGood },
       canonical,
@@ -319,6 +364,7 @@ async function auditUrl(
       loadTime: 0,
       size: 0,
       contentHash: 0,
+      userAgent: settings.userAgent,
       title: { text: '', length: 0, isGood: false },
       description: { text: '', length: 0, isGood: false },
       canonical: null,
@@ -365,17 +411,28 @@ export default defineEventHandler(async (event) => {
     })
   }
 
+  const defaults = getServerConfig().requestDefaults
   const settings: RequestSettings = {
-    timeout: body.settings?.timeout ?? 30,
-    retries: body.settings?.retries ?? 1,
+    timeout: body.settings?.timeout ?? defaults.timeout,
+    retries: body.settings?.retries ?? defaults.retries,
+    proxy: resolveProxySetting(body.settings?.proxy),
+    userAgent: resolveUserAgent(body.settings?.userAgent),
     headers: body.settings?.headers,
+    credentials: resolveCredentials(body.settings?.credentials),
+    cache: resolveCacheMode(body.settings?.cache),
   }
 
+  // Rendered pages are not cached, so an offline replay reads the stored HTML
+  const render =
+    settings.cache === 'offline' ? null : resolveRenderOptions(body.render)
   const results: SeoAuditResult[] = []
 
+  // The link check requests every link, which an offline replay must not do
+  const checkLinks = (body.checkLinks ?? false) && settings.cache !== 'offline'
+
   // Audit all URLs
   for (const url of urls) {
-    const result = await auditUrl(url, body.checkLinks ?? false, settings)
+    const result = await auditUrl(url, checkLinks, settings, render)
     results.push(result)
   }
 
@@ -383,7 +440,7 @@ export default defineEventHandler(async (event) => {
   const savedFiles: string[] = []
   if (body.saveResults && results.length > 0) {
     const timestamp = getTimestamp()
-    const outputDir = join(OUTPUT_ROOT, 'seo-audit')
+    const outputDir = outputFolder('seoAudit')
     await mkdir(outputDir, { recursive: true })
 
     // Save JSON
@@ -410,6 +467,7 @@ export default defineEventHandler(async (event) => {
       hasJsonLd: r.hasJsonLd,
       hasOpenGraph: r.hasOpenGraph,
       issuesCount: r.issues.length,
+      userAgent: r.userAgent ?? '',
       error: r.error || '',
     }))
     const csvPath = join(outputDir, `${timestamp}_seo-audit.csv`)
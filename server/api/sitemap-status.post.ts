@@ -0,0 +1,13 @@
+import { defineEventHandler, readBody } from 'h3'
+import { streamCrawl } from '../utils/crawl-engine'
+import {
+  prepareSitemapStatus,
+  type SitemapStatusRequest,
+} from '../utils/sitemap-status-tool'
+
+export default defineEventHandler(async (event) => {
+  const run = await prepareSitemapStatus(
+    await readBody<SitemapStatusRequest>(event),
+  )
+  await streamCrawl(event, run)
+})
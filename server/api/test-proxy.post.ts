@@ -0,0 +1,105 @@
+import { createError, defineEventHandler, readBody } from 'h3'
+import { getProxyDispatcher, maskProxy, parseProxyList } from '../utils/proxy'
+import { getServerConfig } from '../utils/server-config'
+import { assertAllowedTarget } from '../utils/ssrf-guard'
+import { isAllowedUrl } from '../utils/url-validator'
+
+interface TestProxyRequest {
+  proxy: string // One proxy URL or a list (newline/comma separated)
+  url?: string // Test target (default: https://example.com/)
+}
+
+interface ProxyTestResult {
+  proxy: string // Password masked
+  ok: boolean
+  status?: number
+  responseTime: number
+  error?: string
+}
+
+const DEFAULT_TEST_URL = 'https://example.com/'
+const TEST_TIMEOUT_MS = 10000
+
+async function testProxy(
+  proxyUrl: string,
+  url: string,
+): Promise<ProxyTestResult> {
+  const startTime = Date.now()
+  try {
+    // Redirects aren't followed: the proxy resolves the target itself, so
+    // only the checked URL may be requested, and a 3xx proves it works too
+    const response = await fetch(url, {
+      redirect: 'manual',
+      headers: { 'User-Agent': getServerConfig().userAgents.fetch },
+      signal: AbortSignal.timeout(TEST_TIMEOUT_MS),
+      dispatcher: getProxyDispatcher(proxyUrl),
+    })
+    await response.body?.cancel().catch(() => {})
+    // Any HTTP response means the proxy forwarded the request
+    return {
+      proxy: maskProxy(proxyUrl),
+      ok: true,
+      status: response.status,
+      responseTime: Date.now() - startTime,
+    }
+  } catch (error) {
+    const cause = error instanceof Error ? error.cause : undefined
+    return {
+      proxy: maskProxy(proxyUrl),
+      ok: false,
+      responseTime: Date.now() - startTime,
+      error:
+        error instanceof Error && error.name === 'TimeoutError'
+          ? 'Timeout'
+          : cause instanceof Error
+            ? cause.message
+            : error instanceof Error
+              ? error.message
+              : 'Unknown error',
+    }
+  }
+}
+
+/**
+ * Sends one request through each proxy of the list, in parallel, and
+ * reports which of them work.
+ */
+export default defineEventHandler(
+  async (event): Promise<{ results: ProxyTestResult[] }> => {
+    const body = await readBody<TestProxyRequest>(event)
+
+    let proxies: string[]
+    try {
+      proxies = parseProxyList(body.proxy)
+    } catch (error) {
+      throw createError({
+        statusCode: 400,
+        message: error instanceof Error ? error.message : 'Invalid proxy',
+      })
+    }
+    if (proxies.length === 0) {
+      throw createError({ statusCode: 400, message: 'proxy is required' })
+    }
+
+    const url = body.url?.trim() || DEFAULT_TEST_URL
+    if (!isAllowedUrl(url)) {
+      throw createError({
+        statusCode: 400,
+        message: 'URL is not allowed (blocked by SSRF protection)',
+      })
+    }
+    // The guard never sees the address a proxy connects to
+    try {
+      await assertAllowedTarget(url)
+    } catch (error) {
+      throw createError({
+        statusCode: 400,
+        message: error instanceof Error ? error.message : 'URL is not allowed',
+      })
+    }
+
+    return {
+      results: await Promise.all(proxies.map((p) => testProxy(p, url))),
+    }
+  },
+)
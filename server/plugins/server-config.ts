@@ -0,0 +1,8 @@
+import { defineNitroPlugin } from 'nitropack/runtime'
+import { getServerConfig } from '../utils/server-config'
+
+// Load url-tools.config.json at startup, so an invalid file fails the
+// server right away instead of the first request that needs it
+export default defineNitroPlugin(() => {
+  getServerConfig()
+})
@@ -0,0 +1,41 @@
+import { describe, expect, it, vi } from 'vitest'
+import { createCircuitBreaker } from '../circuit-breaker'
+
+describe('createCircuitBreaker', () => {
+  it('trips after the threshold of consecutive failures per host', () => {
+    const onOpen = vi.fn()
+    const breaker = createCircuitBreaker({
+      threshold: 3,
+      cooldownMs: 1000,
+      onOpen,
+    })
+
+    expect(breaker.recordFailure('https://a.test/1')).toBe(false)
+    expect(breaker.recordFailure('https://b.test/')).toBe(false)
+    expect(breaker.recordFailure('https://A.test/2')).toBe(false)
+    expect(breaker.recordFailure('https://a.test/3')).toBe(true)
+
+    expect(onOpen).toHaveBeenCalledOnce()
+    expect(onOpen).toHaveBeenCalledWith('a.test', 1000)
+  })
+
+  it('resets the count on success', () => {
+    const onOpen = vi.fn()
+    const breaker = createCircuitBreaker({ threshold: 2, onOpen })
+
+    breaker.recordFailure('https://a.test/')
+    breaker.recordSuccess('https://a.test/')
+    breaker.recordFailure('https://a.test/')
+
+    expect(onOpen).not.toHaveBeenCalled()
+  })
+
+  it('trips again after another threshold of failures', () => {
+    const onOpen = vi.fn()
+    const breaker = createCircuitBreaker({ threshold: 2, onOpen })
+
+    for (let i = 0; i < 4; i++) breaker.recordFailure('https://a.test/')
+
+    expect(onOpen).toHaveBeenCalledTimes(2)
+  })
+})
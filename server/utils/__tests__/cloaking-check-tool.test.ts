@@ -0,0 +1,158 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import {
+  type CloakingCheckResult,
+  type CloakingProfile,
+  compareProfiles,
+  prepareCloakingCheck,
+  snapshotPage,
+} from '../cloaking-check-tool'
+import type { CrawlSink } from '../crawl-engine'
+
+const PAGE = `<html><head>
+  <title>Shoes</title>
+  <meta name="description" content="Running shoes">
+  <link rel="canonical" href="/shoes">
+  <meta name="robots" content="index">
+</head><body>
+  <p>Lightweight running shoes for road and trail, in every size.</p>
+  <a href="/b">B</a><a href="/a">A</a><a href="/a#top">A again</a>
+  <img src="/logo.png">
+</body></html>`
+
+function profile(
+  overrides: Partial<CloakingProfile & { links: string[] }> = {},
+): CloakingProfile & { links: string[] } {
+  return {
+    userAgent: 'chrome-desktop',
+    status: 200,
+    redirects: '200',
+    finalUrl: 'https://example.com/',
+    title: 'Shoes',
+    description: 'Running shoes',
+    canonical: 'https://example.com/shoes',
+    robots: null,
+    links: ['https://example.com/a'],
+    linkCount: 1,
+    contentHash: 0,
+    ...overrides,
+  }
+}
+
+describe('snapshotPage', () => {
+  it('extracts meta, canonical, robots and the anchor set', () => {
+    const snapshot = snapshotPage(PAGE, 'https://example.com/', 'noarchive')
+
+    expect(snapshot).toMatchObject({
+      title: 'Shoes',
+      description: 'Running shoes',
+      canonical: 'https://example.com/shoes',
+      robots: 'index, noarchive',
+      links: ['https://example.com/a', 'https://example.com/b'],
+    })
+    expect(snapshot.contentHash).not.toBe(0)
+  })
+})
+
+describe('compareProfiles', () => {
+  it('reports nothing for identical pages', () => {
+    expect(
+      compareProfiles(profile(), profile({ userAgent: 'bingbot' })).fields,
+    ).toEqual([])
+  })
+
+  it('lists the fields and links that differ', () => {
+    const diff = compareProfiles(
+      profile(),
+      profile({
+        userAgent: 'googlebot-smartphone',
+        title: 'Cheap shoes',
+        robots: 'noindex',
+        links: ['https://example.com/a', 'https://example.com/spam'],
+        contentHash: 0xff,
+      }),
+    )
+
+    expect(diff.fields).toEqual(['title', 'robots', 'links', 'content'])
+    expect(diff.contentDistance).toBe(8)
+    expect(diff.linksAdded).toEqual(['https://example.com/spam'])
+    expect(diff.linksRemoved).toEqual([])
+  })
+
+  it('ignores near-duplicate content', () => {
+    const diff = compareProfiles(profile(), profile({ contentHash: 0b111 }))
+    expect(diff.fields).toEqual([])
+    expect(diff.contentDistance).toBe(3)
+  })
+
+  it('only compares status and redirects when a request failed', () => {
+    const diff = compareProfiles(
+      profile(),
+      profile({ status: 0, redirects: '', title: '', error: 'timeout' }),
+    )
+    expect(diff.fields).toEqual(['status', 'redirects'])
+  })
+})
+
+describe('prepareCloakingCheck', () => {
+  beforeEach(() => {
+    vi.stubGlobal('fetch', vi.fn())
+  })
+
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  it('validates urls and user agents', async () => {
+    await expect(
+      prepareCloakingCheck({ urls: 'x' as unknown as string[] }),
+    ).rejects.toThrow('urls array required')
+    await expect(
+      prepareCloakingCheck({ urls: ['http://127.0.0.1/'] }),
+    ).rejects.toThrow('No valid URLs provided')
+    await expect(
+      prepareCloakingCheck({
+        urls: ['https://example.com/'],
+        userAgents: ['bingbot', ' bingbot '],
+      }),
+    ).rejects.toThrow('2-5 different user agents required')
+  })
+
+  it('streams one result per URL with the diffs against the baseline', async () => {
+    vi.mocked(fetch).mockImplementation(async (_url, init) => {
+      const userAgent = (init?.headers as Record<string, string>)['User-Agent']
+      const html = userAgent.includes('Googlebot')
+        ? PAGE.replace('<title>Shoes', '<title>Best cheap shoes')
+        : PAGE
+      return new Response(html, { headers: { 'content-type': 'text/html' } })
+    })
+
+    const events: { name: string; data: unknown }[] = []
+    const sink: CrawlSink = {
+      emit: (name, data) => events.push({ name, data }),
+      isClosed: () => false,
+    }
+    const run = await prepareCloakingCheck({
+      urls: ['https://example.com/'],
+      settings: { timeout: 5, retries: 0 },
+    })
+    await run(sink)
+
+    const result = events.find((e) => e.name === 'result')
+      ?.data as CloakingCheckResult
+    expect(result.profiles.map((p) => p.userAgent)).toEqual([
+      'chrome-desktop',
+      'googlebot-smartphone',
+    ])
+    expect(result.profiles[1]?.title).toBe('Best cheap shoes')
+    expect(result.profiles[0]).not.toHaveProperty('links')
+    expect(result.diffs[0]?.fields).toEqual(['title'])
+    expect(result.isDifferent).toBe(true)
+    // One request per user agent; the page comes from the last hop
+    expect(fetch).toHaveBeenCalledTimes(2)
+    expect(events.find((e) => e.name === 'done')?.data).toEqual({
+      total: 1,
+      differentCount: 1,
+      errorCount: 0,
+    })
+  })
+})
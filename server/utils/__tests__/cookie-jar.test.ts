@@ -0,0 +1,80 @@
+import { describe, expect, it } from 'vitest'
+import { createCookieJar, parseSetCookie } from '../cookie-jar'
+
+function setCookie(...values: string[]): Headers {
+  const headers = new Headers()
+  for (const value of values) headers.append('set-cookie', value)
+  return headers
+}
+
+describe('parseSetCookie', () => {
+  const url = new URL('https://shop.example.com/account/orders')
+
+  it('defaults to a host-only cookie on the directory path', () => {
+    expect(parseSetCookie('sid=abc', url)).toEqual({
+      name: 'sid',
+      value: 'abc',
+      domain: 'shop.example.com',
+      hostOnly: true,
+      path: '/account',
+      secure: false,
+    })
+  })
+
+  it('accepts parent domains but not other sites or public suffixes', () => {
+    expect(parseSetCookie('a=1; Domain=.example.com', url)?.domain).toBe(
+      'example.com',
+    )
+    expect(parseSetCookie('a=1; Domain=other.com', url)).toBeNull()
+    expect(
+      parseSetCookie(
+        'a=1; Domain=co.uk',
+        new URL('https://shop.example.co.uk/'),
+      ),
+    ).toBeNull()
+  })
+
+  it('prefers Max-Age over Expires', () => {
+    const cookie = parseSetCookie(
+      'a=1; Expires=Wed, 21 Oct 2026 07:28:00 GMT; Max-Age=60',
+      url,
+      1000,
+    )
+    expect(cookie?.expires).toBe(61000)
+  })
+})
+
+describe('createCookieJar', () => {
+  it('sends cookies back by domain, path and scheme', () => {
+    const jar = createCookieJar()
+    jar.store(
+      'https://www.example.com/login',
+      setCookie(
+        'sid=1; Domain=example.com; Path=/',
+        'cart=2; Path=/shop',
+        'token=3; Path=/; Secure',
+      ),
+    )
+
+    expect(jar.header('https://www.example.com/shop/item')).toBe(
+      'cart=2; sid=1; token=3',
+    )
+    expect(jar.header('https://blog.example.com/')).toBe('sid=1')
+    expect(jar.header('http://www.example.com/shopping')).toBe('sid=1')
+    expect(jar.header('https://example.org/')).toBeUndefined()
+  })
+
+  it('replaces cookies and drops them once expired', () => {
+    let now = 0
+    const jar = createCookieJar(() => now)
+    jar.store('https://example.com/', setCookie('a=1; Max-Age=10'))
+    jar.store('https://example.com/', setCookie('a=2; Max-Age=10'))
+    expect(jar.header('https://example.com/')).toBe('a=2')
+
+    now = 11000
+    expect(jar.header('https://example.com/')).toBeUndefined()
+
+    jar.store('https://example.com/', setCookie('b=1', 'b=; Max-Age=0'))
+    expect(jar.size()).toBe(0)
+  })
+})
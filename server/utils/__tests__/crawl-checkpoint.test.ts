@@ -0,0 +1,153 @@
+import { mkdtemp, readFile, rm } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest'
+import type { CrawlState } from '../crawl-engine'
+
+// OUTPUT_ROOT is resolved at import time, so point it at a temp dir first
+let outputDir: string
+let checkpoints: typeof import('../crawl-checkpoint')
+
+const STATE: CrawlState = {
+  queue: [{ url: 'https://example.com/b', depth: 1 }],
+  visited: ['https://example.com/', 'https://example.com/b'],
+  skipped: [],
+  baseDomains: ['example.com'],
+  pagesProcessed: 1,
+}
+
+beforeAll(async () => {
+  outputDir = await mkdtemp(join(tmpdir(), 'url-tools-checkpoint-'))
+  vi.stubEnv('OUTPUT_DIR', outputDir)
+  vi.resetModules()
+  checkpoints = await import('../crawl-checkpoint')
+})
+
+afterAll(async () => {
+  vi.unstubAllEnvs()
+  await rm(outputDir, { recursive: true, force: true })
+})
+
+describe('crawl checkpoints', () => {
+  it('persists state and results under OUTPUT_ROOT/jobs', async () => {
+    const store = await checkpoints.createCheckpoint('scrape-links', {
+      urls: ['https://example.com/'],
+    })
+    await store.save(STATE, [{ n: 1 }, { n: 2 }])
+
+    const saved = await checkpoints.readCheckpoint(store.jobId)
+    expect(saved?.state).toEqual(STATE)
+    expect(saved?.resultCount).toBe(2)
+    expect(saved?.status).toBe('running')
+
+    const lines = await readFile(
+      join(outputDir, 'jobs', store.jobId, 'results.jsonl'),
+      'utf-8',
+    )
+    expect(lines).toBe('{"n":1}\n{"n":2}\n')
+    await store.close('interrupted')
+  })
+
+  it('resumes an interrupted job with its request and results', async () => {
+    const store = await checkpoints.createCheckpoint('scrape-links', {
+      urls: ['https://example.com/'],
+    })
+    await store.save(STATE, [{ n: 1 }])
+    await store.close('interrupted')
+
+    const resumed = await checkpoints.openCheckpoint(store.jobId)
+    expect(resumed?.checkpoint.request).toEqual({
+      urls: ['https://example.com/'],
+    })
+    expect(resumed?.checkpoint.state).toEqual(STATE)
+    expect(await resumed?.store.readResults()).toEqual([{ n: 1 }])
+    await resumed?.store.close('completed')
+  })
+
+  it('refuses to open running or completed jobs', async () => {
+    const store = await checkpoints.createCheckpoint('inbound-links', {})
+    await expect(checkpoints.openCheckpoint(store.jobId)).rejects.toThrow(
+      'Job is already running',
+    )
+
+    await store.close('completed')
+    await expect(checkpoints.openCheckpoint(store.jobId)).rejects.toThrow(
+      'Job is already completed',
+    )
+  })
+
+  it('returns null for unknown or malformed job ids', async () => {
+    expect(await checkpoints.openCheckpoint('does-not-exist')).toBeNull()
+    expect(await checkpoints.readCheckpoint('../../etc')).toBeNull()
+  })
+
+  it('lists checkpoints newest first', async () => {
+    const list = await checkpoints.listCheckpoints()
+    expect(list.length).toBeGreaterThanOrEqual(3)
+    const times = list.map((c) => c.updatedAt)
+    expect(times).toEqual([...times].sort().reverse())
+  })
+
+  it('resolves resume requests and rejects other tools', async () => {
+    const store = await checkpoints.createCheckpoint('inbound-links', {
+      startUrls: ['https://example.com/'],
+    })
+    await store.close('interrupted')
+
+    await expect(
+      checkpoints.resolveCheckpointRequest('scrape-links', {
+        resumeJobId: store.jobId,
+      }),
+    ).rejects.toMatchObject({ statusCode: 400 })
+
+    const { request, resume } = await checkpoints.resolveCheckpointRequest(
+      'inbound-links',
+      { resumeJobId: store.jobId },
+    )
+    expect(request).toEqual({ startUrls: ['https://example.com/'] })
+    await resume?.store.close('interrupted')
+  })
+
+  it('releases a resumed job whose stored request no longer validates', async () => {
+    const { prepareScrapeLinks } = await import('../scrape-links-tool')
+    const store = await checkpoints.createCheckpoint('scrape-links', {
+      urls: ['https://example.com/'],
+      settings: { proxy: 'ftp://proxy.example.com' },
+    })
+    await store.close('interrupted')
+
+    for (let attempt = 0; attempt < 2; attempt++) {
+      await expect(
+        prepareScrapeLinks({ resumeJobId: store.jobId, urls: [] }),
+      ).rejects.toMatchObject({ statusCode: 400 })
+      expect(checkpoints.isCheckpointActive(store.jobId)).toBe(false)
+    }
+  })
+
+  it('never stores credentials and takes them from the resume request', async () => {
+    const credentials = [
+      { host: 'example.com', type: 'bearer', token: 'secret' },
+    ]
+    const store = await checkpoints.createCheckpoint('scrape-links', {
+      urls: ['https://example.com/'],
+      settings: { timeout: 10, credentials },
+    })
+    await store.close('interrupted')
+
+    const raw = await readFile(
+      join(outputDir, 'jobs', store.jobId, 'checkpoint.json'),
+      'utf-8',
+    )
+    expect(raw).not.toContain('secret')
+
+    const { request, resume } = await checkpoints.resolveCheckpointRequest(
+      'scrape-links',
+      { resumeJobId: store.jobId, settings: { credentials } },
+    )
+    expect(request).toEqual({
+      urls: ['https://example.com/'],
+      settings: { timeout: 10, credentials },
+    })
+    await resume?.store.close('interrupted')
+  })
+})
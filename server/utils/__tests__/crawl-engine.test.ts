@@ -0,0 +1,541 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import {
+  type CrawlOptions,
+  type CrawlSink,
+  type CrawlState,
+  clampRequestSettings,
+  createUrlFilter,
+  type PageProcessor,
+  runCrawl,
+} from '../crawl-engine'
+import { extractLinks } from '../link-analyzer'
+
+const SETTINGS = { timeout: 10, retries: 0 }
+
+function htmlResponse(body: string, headers: Record<string, string> = {}) {
+  return new Response(body, {
+    status: 200,
+    headers: { 'content-type': 'text/html', ...headers },
+  })
+}
+
+function page(...hrefs: string[]): string {
+  return hrefs.map((h) => `<a href="${h}">${h}</a>`).join('\n')
+}
+
+function mkSink(): CrawlSink & {
+  events: Array<{ name: string; data: unknown }>
+} {
+  const events: Array<{ name: string; data: unknown }> = []
+  return {
+    events,
+    emit: (name, data) => {
+      events.push({ name, data })
+    },
+    isClosed: () => false,
+  }
+}
+
+// Processor that follows every discovered link and records visited pages
+function followAll(visitedPages: string[]): PageProcessor {
+  return {
+    async processPage({ item, html }, ctx) {
+      visitedPages.push(item.url)
+      for (const link of extractLinks(html, item.url)) {
+        await ctx.follow(link.targetUrl, item, link.rel)
+      }
+    },
+  }
+}
+
+function options(overrides: Partial<CrawlOptions> = {}): CrawlOptions {
+  return {
+    seeds: ['https://example.com/'],
+    settings: SETTINGS,
+    recursive: true,
+    maxDepth: 5,
+    ...overrides,
+  }
+}
+
+describe('runCrawl', () => {
+  let fetchSpy: ReturnType<typeof vi.spyOn>
+  const site: Record<string, string> = {}
+
+  beforeEach(() => {
+    fetchSpy = vi.spyOn(globalThis, 'fetch').mockImplementation(async (url) => {
+      const body = site[String(url)]
+      if (body === undefined) return new Response('missing', { status: 404 })
+      return htmlResponse(body)
+    })
+  })
+
+  afterEach(() => {
+    fetchSpy.mockRestore()
+    for (const key of Object.keys(site)) delete site[key]
+  })
+
+  it('crawls breadth-first and never fetches a page twice', async () => {
+    site['https://example.com/'] = page('/a', '/b')
+    site['https://example.com/a'] = page('/b', '/')
+    site['https://example.com/b'] = page('/a')
+
+    const visitedPages: string[] = []
+    const summary = await runCrawl(mkSink(), options(), followAll(visitedPages))
+
+    expect(visitedPages).toEqual([
+      'https://example.com/',
+      'https://example.com/a',
+      'https://example.com/b',
+    ])
+    expect(summary).toEqual({ pagesProcessed: 3, visited: 3, skipped: 0 })
+  })
+
+  it('does not follow links when recursive is off', async () => {
+    site['https://example.com/'] = page('/a')
+
+    const visitedPages: string[] = []
+    await runCrawl(
+      mkSink(),
+      options({ recursive: false }),
+      followAll(visitedPages),
+    )
+
+    expect(visitedPages).toEqual(['https://example.com/'])
+  })
+
+  it('stops following links beyond maxDepth', async () => {
+    site['https://example.com/'] = page('/1')
+    site['https://example.com/1'] = page('/2')
+    site['https://example.com/2'] = page('/3')
+
+    const visitedPages: string[] = []
+    await runCrawl(mkSink(), options({ maxDepth: 1 }), followAll(visitedPages))
+
+    expect(visitedPages).toEqual([
+      'https://example.com/',
+      'https://example.com/1',
+    ])
+  })
+
+  it('never follows external links', async () => {
+    site['https://example.com/'] = page('https://other.com/x')
+
+    const visitedPages: string[] = []
+    await runCrawl(mkSink(), options(), followAll(visitedPages))
+
+    expect(visitedPages).toEqual(['https://example.com/'])
+    expect(fetchSpy).toHaveBeenCalledTimes(1)
+  })
+
+  it('follows subdomains only when the site scope includes them', async () => {
+    site['https://example.com/'] = page('https://blog.example.com/post')
+    site['https://blog.example.com/post'] = ''
+
+    const visitedPages: string[] = []
+    await runCrawl(
+      mkSink(),
+      options({ sameDomainOnly: true }),
+      followAll(visitedPages),
+    )
+    expect(visitedPages).toEqual(['https://example.com/'])
+
+    visitedPages.length = 0
+    await runCrawl(
+      mkSink(),
+      options({ sameDomainOnly: true, siteScope: { mode: 'domain' } }),
+      followAll(visitedPages),
+    )
+    expect(visitedPages).toEqual([
+      'https://example.com/',
+      'https://blog.example.com/post',
+    ])
+  })
+
+  it('applies path filters to seeds and discovered links', async () => {
+    site['https://example.com/de'] = page('/de/a', '/en/a')
+    site['https://example.com/de/a'] = ''
+
+    const visitedPages: string[] = []
+    await runCrawl(
+      mkSink(),
+      options({
+        seeds: ['https://example.com/de', 'https://example.com/fr'],
+        pathInclude: '/de',
+      }),
+      followAll(visitedPages),
+    )
+
+    expect(visitedPages).toEqual([
+      'https://example.com/de',
+      'https://example.com/de/a',
+    ])
+  })
+
+  it('caps the crawl at maxPages', async () => {
+    site['https://example.com/'] = page('/a', '/b', '/c')
+    site['https://example.com/a'] = ''
+    site['https://example.com/b'] = ''
+    site['https://example.com/c'] = ''
+
+    const visitedPages: string[] = []
+    const summary = await runCrawl(
+      mkSink(),
+      options({ maxPages: 2 }),
+      followAll(visitedPages),
+    )
+
+    expect(summary.pagesProcessed).toBe(2)
+    expect(visitedPages).toHaveLength(2)
+  })
+
+  it('ends the crawl when the processor calls stop()', async () => {
+    site['https://example.com/'] = page('/a', '/b')
+
+    const visitedPages: string[] = []
+    await runCrawl(mkSink(), options(), {
+      async processPage(crawlPage, ctx) {
+        await followAll(visitedPages).processPage(crawlPage, ctx)
+        ctx.stop()
+      },
+    })
+
+    expect(visitedPages).toEqual(['https://example.com/'])
+  })
+
+  it('resolves async seeds before crawling', async () => {
+    site['https://example.com/from-sitemap'] = ''
+
+    const visitedPages: string[] = []
+    await runCrawl(
+      mkSink(),
+      options({ seeds: async () => ['https://example.com/from-sitemap'] }),
+      followAll(visitedPages),
+    )
+
+    expect(visitedPages).toEqual(['https://example.com/from-sitemap'])
+  })
+
+  it('skips seeds blocked by the SSRF guard', async () => {
+    const visitedPages: string[] = []
+    const summary = await runCrawl(
+      mkSink(),
+      options({ seeds: ['http://127.0.0.1/'] }),
+      followAll(visitedPages),
+    )
+
+    expect(summary.visited).toBe(0)
+    expect(fetchSpy).not.toHaveBeenCalled()
+  })
+
+  it('rejects responses that exceed the 10MB limit', async () => {
+    fetchSpy.mockResolvedValueOnce(
+      htmlResponse('', { 'content-length': String(11 * 1024 * 1024) }),
+    )
+    const errors: string[] = []
+
+    await runCrawl(mkSink(), options(), {
+      processPage: vi.fn(),
+      onPageError: (_item, error) => {
+        errors.push(error.message)
+      },
+    })
+
+    expect(errors).toEqual(['Response too large (>10MB)'])
+  })
+
+  it('emits an error log when no onPageError hook is provided', async () => {
+    fetchSpy.mockRejectedValueOnce(new Error('connection reset'))
+    const sink = mkSink()
+
+    await runCrawl(sink, options(), { processPage: vi.fn() })
+
+    expect(sink.events).toContainEqual({
+      name: 'log',
+      data: {
+        message: 'Error fetching https://example.com/: connection reset',
+        type: 'error',
+      },
+    })
+  })
+
+  it('logs a Retry-After backoff and retries the page', async () => {
+    site['https://example.com/'] = page()
+    fetchSpy.mockResolvedValueOnce(
+      new Response(null, { status: 429, headers: { 'retry-after': '0' } }),
+    )
+    const sink = mkSink()
+    const visited: string[] = []
+
+    await runCrawl(
+      sink,
+      options({ settings: { timeout: 10, retries: 1 } }),
+      followAll(visited),
+    )
+
+    expect(visited).toEqual(['https://example.com/'])
+    expect(sink.events).toContainEqual({
+      name: 'log',
+      data: {
+        message:
+          'HTTP 429 from example.com, retrying in 0.0s (Retry-After) (retry 1/1)',
+        type: 'info',
+      },
+    })
+  })
+
+  it('skips URLs disallowed by robots.txt and reports them', async () => {
+    site['https://example.com/robots.txt'] = 'User-agent: *\nDisallow: /private'
+    site['https://example.com/'] = page('/private/a', '/public')
+    site['https://example.com/public'] = ''
+    const sink = mkSink()
+    const skipped: string[] = []
+
+    const visitedPages: string[] = []
+    const summary = await runCrawl(sink, options({ respectRobots: true }), {
+      ...followAll(visitedPages),
+      onSkipped: (item, reason) => {
+        skipped.push(`${reason}:${item.url}`)
+      },
+    })
+
+    expect(visitedPages).toEqual([
+      'https://example.com/',
+      'https://example.com/public',
+    ])
+    expect(skipped).toEqual(['robots:https://example.com/private/a'])
+    expect(summary.skipped).toBe(1)
+    expect(sink.events).toContainEqual({
+      name: 'log',
+      data: {
+        message:
+          'Skipped https://example.com/private/a: disallowed by robots.txt',
+        type: 'info',
+      },
+    })
+  })
+
+  it('uses the configured robots user-agent group', async () => {
+    site['https://example.com/robots.txt'] =
+      'User-agent: otherbot\nDisallow: /\n\nUser-agent: *\nAllow: /'
+    site['https://example.com/'] = ''
+
+    const visitedPages: string[] = []
+    await runCrawl(
+      mkSink(),
+      options({ respectRobots: true, robotsUserAgent: 'OtherBot' }),
+      followAll(visitedPages),
+    )
+
+    expect(visitedPages).toEqual([])
+  })
+
+  it('ignores robots.txt when respectRobots is off', async () => {
+    site['https://example.com/robots.txt'] = 'User-agent: *\nDisallow: /'
+    site['https://example.com/'] = ''
+
+    const visitedPages: string[] = []
+    await runCrawl(mkSink(), options(), followAll(visitedPages))
+
+    expect(visitedPages).toEqual(['https://example.com/'])
+    expect(fetchSpy).toHaveBeenCalledTimes(1)
+  })
+
+  it('skips nofollow links and pages when respectNofollow is on', async () => {
+    site['https://example.com/'] =
+      '<a href="/a">a</a><a href="/b" rel="nofollow">b</a>'
+    site['https://example.com/a'] =
+      `<meta name="robots" content="noindex, nofollow">${page('/c')}`
+    site['https://example.com/b'] = ''
+    site['https://example.com/c'] = ''
+
+    const visitedPages: string[] = []
+    await runCrawl(
+      mkSink(),
+      options({ respectNofollow: true }),
+      followAll(visitedPages),
+    )
+    expect(visitedPages).toEqual([
+      'https://example.com/',
+      'https://example.com/a',
+    ])
+
+    visitedPages.length = 0
+    await runCrawl(mkSink(), options(), followAll(visitedPages))
+    expect(visitedPages).toHaveLength(4)
+  })
+
+  it('waits at least the Crawl-delay between pages', async () => {
+    site['https://example.com/robots.txt'] = 'User-agent: *\nCrawl-delay: 0.05'
+    site['https://example.com/'] = page('/a')
+    site['https://example.com/a'] = ''
+
+    const started = Date.now()
+    await runCrawl(
+      mkSink(),
+      options({ respectRobots: true, rateLimit: 1000 }),
+      followAll([]),
+    )
+
+    expect(Date.now() - started).toBeGreaterThanOrEqual(45)
+  })
+
+  it('continues from a saved state without re-seeding', async () => {
+    site['https://example.com/b'] = page('/', '/c')
+    site['https://example.com/c'] = ''
+
+    const visitedPages: string[] = []
+    const summary = await runCrawl(
+      mkSink(),
+      options({
+        resumeFrom: {
+          queue: [{ url: 'https://example.com/b', depth: 1 }],
+          visited: ['https://example.com/', 'https://example.com/b'],
+          skipped: [],
+          baseDomains: ['example.com'],
+          pagesProcessed: 1,
+        },
+      }),
+      followAll(visitedPages),
+    )
+
+    expect(visitedPages).toEqual([
+      'https://example.com/b',
+      'https://example.com/c',
+    ])
+    expect(summary.pagesProcessed).toBe(3)
+  })
+
+  it('reports checkpoints after seeding and when the crawl ends', async () => {
+    site['https://example.com/'] = page('/a')
+    site['https://example.com/a'] = ''
+    const states: CrawlState[] = []
+
+    await runCrawl(
+      mkSink(),
+      options({
+        onCheckpoint: async (state) => {
+          states.push(state)
+        },
+      }),
+      followAll([]),
+    )
+
+    expect(states[0]).toEqual({
+      queue: [{ url: 'https://example.com/', depth: 0, sourceUrl: undefined }],
+      visited: ['https://example.com/'],
+      skipped: [],
+      baseDomains: ['example.com'],
+      pagesProcessed: 0,
+    })
+    expect(states.at(-1)).toMatchObject({ queue: [], pagesProcessed: 2 })
+  })
+
+  it('sends credentials to their host and carries jar cookies', async () => {
+    site['https://example.com/'] = page('/account')
+    site['https://example.com/account'] = page()
+    fetchSpy.mockImplementationOnce(async () =>
+      htmlResponse(page('/account'), { 'set-cookie': 'sid=abc; Path=/' }),
+    )
+
+    await runCrawl(
+      mkSink(),
+      options({
+        settings: {
+          ...SETTINGS,
+          cookieJar: true,
+          credentials: [{ host: 'example.com', type: 'bearer', token: 't' }],
+        },
+      }),
+      followAll([]),
+    )
+
+    const headers = fetchSpy.mock.calls.map(
+      ([, init]) => (init as RequestInit).headers as Record<string, string>,
+    )
+    expect(headers[0].Authorization).toBe('Bearer t')
+    expect(headers[0].Cookie).toBeUndefined()
+    expect(headers[1].Cookie).toBe('sid=abc')
+  })
+
+  it('emits progress before each page', async () => {
+    site['https://example.com/'] = page('/a')
+    site['https://example.com/a'] = ''
+    const sink = mkSink()
+
+    await runCrawl(sink, options(), followAll([]))
+
+    const progress = sink.events
+      .filter((e) => e.name === 'progress')
+      .map((e) => e.data)
+    expect(progress).toEqual([
+      { done: 0, total: 1, currentUrl: 'https://example.com/' },
+      { done: 1, total: 2, currentUrl: 'https://example.com/a' },
+    ])
+  })
+})
+
+describe('createUrlFilter', () => {
+  it('accepts everything without filters', () => {
+    expect(createUrlFilter({})('https://example.com/anything')).toBe(true)
+  })
+
+  it('applies the regex filter', () => {
+    const matches = createUrlFilter({ urlFilter: '/blog/' })
+    expect(matches('https://example.com/blog/post')).toBe(true)
+    expect(matches('https://example.com/shop')).toBe(false)
+  })
+
+  it('ignores invalid and overly long regexes', () => {
+    expect(createUrlFilter({ urlFilter: '(' })('https://example.com')).toBe(
+      true,
+    )
+    expect(
+      createUrlFilter({ urlFilter: 'x'.repeat(201) })('https://example.com'),
+    ).toBe(true)
+  })
+
+  it('matches include paths as prefixes on segment boundaries', () => {
+    const matches = createUrlFilter({ pathInclude: '/de/, /blog' })
+    expect(matches('https://example.com/de')).toBe(true)
+    expect(matches('https://example.com/de/page')).toBe(true)
+    expect(matches('https://example.com/blog/post')).toBe(true)
+    expect(matches('https://example.com/detail')).toBe(false)
+  })
+
+  it('lets excludes win over includes', () => {
+    const matches = createUrlFilter({
+      pathInclude: '/de',
+      pathExclude: '/de/admin',
+    })
+    expect(matches('https://example.com/de/page')).toBe(true)
+    expect(matches('https://example.com/de/admin/users')).toBe(false)
+  })
+})
+
+describe('clampRequestSettings', () => {
+  it('applies defaults', () => {
+    expect(clampRequestSettings()).toEqual({
+      timeout: 30,
+      retries: 1,
+      proxy: undefined,
+      headers: undefined,
+      parallelRequests: 5,
+      cache: 'off',
+      credentials: undefined,
+      cookieJar: false,
+      userAgent: 'Mozilla/5.0 (compatible; URLTools/1.0)',
+    })
+  })
+
+  it('clamps out-of-range values', () => {
+    const settings = clampRequestSettings({
+      timeout: 500,
+      retries: -1,
+      parallelRequests: 100,
+    })
+    expect(settings.timeout).toBe(120)
+    expect(settings.retries).toBe(0)
+    expect(settings.parallelRequests).toBe(20)
+  })
+})
@@ -0,0 +1,72 @@
+import { describe, expect, it } from 'vitest'
+import { createCookieJar } from '../cookie-jar'
+import {
+  authorizationFor,
+  credentialHeaders,
+  type HostCredential,
+  resolveCredentials,
+} from '../credentials'
+
+const CREDENTIALS: HostCredential[] = [
+  { host: 'staging.example.com', type: 'basic', username: 'u', password: 'p' },
+  { host: '*.api.example.com', type: 'bearer', token: 'tok' },
+  { host: 'example.com', type: 'cookie', cookie: 'session=1; theme=dark' },
+]
+
+describe('resolveCredentials', () => {
+  it('normalizes hosts and cookie values', () => {
+    expect(
+      resolveCredentials([
+        { host: ' Example.COM ', type: 'cookie', cookie: 'Cookie: a=1' },
+      ]),
+    ).toEqual([{ host: 'example.com', type: 'cookie', cookie: 'a=1' }])
+    expect(resolveCredentials(undefined)).toBeUndefined()
+    expect(resolveCredentials([])).toBeUndefined()
+  })
+
+  it('rejects invalid entries without echoing secrets', () => {
+    expect(() =>
+      resolveCredentials([{ host: 'https://example.com/', type: 'basic' }]),
+    ).toThrow(expect.objectContaining({ statusCode: 400 }))
+    expect(() =>
+      resolveCredentials([{ host: 'example.com', type: 'bearer' }]),
+    ).toThrow('Credential 1 needs a token')
+    expect(() =>
+      resolveCredentials([
+        { host: 'example.com', type: 'bearer', token: 'secret\r\nX: 1' },
+      ]),
+    ).toThrow('Credential 1 has an invalid value')
+    expect(() => resolveCredentials({ host: 'example.com' })).toThrow(
+      'credentials must be a list',
+    )
+  })
+})
+
+describe('credentialHeaders', () => {
+  it('sends credentials only to matching hosts', () => {
+    expect(authorizationFor('https://staging.example.com/a', CREDENTIALS)).toBe(
+      `Basic ${Buffer.from('u:p').toString('base64')}`,
+    )
+    expect(authorizationFor('https://v2.api.example.com/', CREDENTIALS)).toBe(
+      'Bearer tok',
+    )
+    expect(authorizationFor('https://api.example.com/', CREDENTIALS)).toBe(
+      'Bearer tok',
+    )
+    expect(credentialHeaders('https://example.org/', CREDENTIALS)).toEqual({})
+    expect(credentialHeaders('https://www.example.com/', CREDENTIALS)).toEqual(
+      {},
+    )
+  })
+
+  it('merges cookie credentials with the jar, preferring the jar', () => {
+    const jar = createCookieJar()
+    jar.store(
+      'https://example.com/',
+      new Headers({ 'set-cookie': 'session=2; Path=/' }),
+    )
+    expect(credentialHeaders('https://example.com/', CREDENTIALS, jar)).toEqual(
+      { Cookie: 'session=2; theme=dark' },
+    )
+  })
+})
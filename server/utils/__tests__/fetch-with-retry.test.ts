@@ -1,5 +1,16 @@
 import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
-import { fetchWithRetry, type RequestSettings } from '../fetch-with-retry'
+import { createCircuitBreaker } from '../circuit-breaker'
+import { createCookieJar } from '../cookie-jar'
+import {
+  type Backoff,
+  backoffDelay,
+  cacheKeyHeaders,
+  fetchWithRetry,
+  parseRetryAfter,
+  type RequestSettings,
+} from '../fetch-with-retry'
+import { directDispatcher } from '../ssrf-guard'
+import { USER_AGENT_PRESETS } from '../user-agents'
 
 // Helper to build a minimal Response-like object that fetch would return
 function mockResponse(
@@ -68,6 +79,28 @@ describe('fetchWithRetry', () => {
     expect(headers['X-Custom']).toBe('test')
   })
 
+  it('sends the User-Agent of a preset or custom value', async () => {
+    const mockedFetch = vi.mocked(fetch)
+    mockedFetch
+      .mockResolvedValueOnce(mockResponse(200))
+      .mockResolvedValueOnce(mockResponse(200))
+
+    await fetchWithRetry('https://example.com', {
+      ...defaultSettings,
+      userAgent: 'googlebot-desktop',
+    })
+    await fetchWithRetry('https://example.com', {
+      ...defaultSettings,
+      userAgent: 'MyBot/1.0',
+    })
+
+    const agents = mockedFetch.mock.calls.map(
+      (call) => (call[1]?.headers as Record<string, string>)['User-Agent'],
+    )
+    expect(agents[0]).toContain('Googlebot/2.1')
+    expect(agents[1]).toBe('MyBot/1.0')
+  })
+
   it('sanitizes custom headers (blocks dangerous ones)', async () => {
     const mockedFetch = vi.mocked(fetch)
     mockedFetch.mockResolvedValueOnce(mockResponse(200))
@@ -131,6 +164,87 @@ describe('fetchWithRetry', () => {
     expect(mockedFetch).toHaveBeenCalledTimes(3)
   })
 
+  it('retries 429 after the Retry-After delay in seconds', async () => {
+    const mockedFetch = vi.mocked(fetch)
+    mockedFetch
+      .mockResolvedValueOnce(mockResponse(429, '', { 'Retry-After': '3' }))
+      .mockResolvedValueOnce(mockResponse(200, 'ok'))
+    const backoffs: Backoff[] = []
+
+    const pending = fetchWithRetry('https://example.com', defaultSettings, {
+      onBackoff: (b) => backoffs.push(b),
+    })
+    await vi.advanceTimersByTimeAsync(2900)
+    expect(mockedFetch).toHaveBeenCalledTimes(1)
+    await vi.advanceTimersByTimeAsync(200)
+    const result = await pending
+
+    expect(result.response.status).toBe(200)
+    expect(backoffs).toEqual([
+      {
+        url: 'https://example.com',
+        attempt: 1,
+        delayMs: 3000,
+        reason: 'HTTP 429',
+        retryAfter: true,
+      },
+    ])
+  })
+
+  it('returns the response when Retry-After asks for too long a wait', async () => {
+    const mockedFetch = vi.mocked(fetch)
+    mockedFetch.mockResolvedValueOnce(
+      mockResponse(503, '', { 'Retry-After': '3600' }),
+    )
+
+    const result = await fetchWithRetry('https://example.com', defaultSettings)
+
+    expect(result.response.status).toBe(503)
+    expect(mockedFetch).toHaveBeenCalledTimes(1)
+  })
+
+  it('reports exponential backoff for errors without Retry-After', async () => {
+    const mockedFetch = vi.mocked(fetch)
+    mockedFetch
+      .mockRejectedValueOnce(new Error('Connection reset'))
+      .mockResolvedValueOnce(mockResponse(502))
+      .mockResolvedValueOnce(mockResponse(200))
+    const backoffs: Backoff[] = []
+
+    const pending = fetchWithRetry('https://example.com', defaultSettings, {
+      onBackoff: (b) => backoffs.push(b),
+    })
+    await vi.runAllTimersAsync()
+    await pending
+
+    expect(backoffs.map((b) => [b.attempt, b.reason, b.retryAfter])).toEqual([
+      [1, 'Connection reset', false],
+      [2, 'HTTP 502', false],
+    ])
+    expect(backoffs[0].delayMs).toBeGreaterThanOrEqual(500)
+    expect(backoffs[0].delayMs).toBeLessThanOrEqual(1000)
+    expect(backoffs[1].delayMs).toBeGreaterThanOrEqual(1000)
+    expect(backoffs[1].delayMs).toBeLessThanOrEqual(2000)
+  })
+
+  it('feeds every attempt into the circuit breaker', async () => {
+    const mockedFetch = vi.mocked(fetch)
+    mockedFetch
+      .mockResolvedValueOnce(mockResponse(500))
+      .mockResolvedValueOnce(mockResponse(500))
+      .mockResolvedValueOnce(mockResponse(500))
+    const onOpen = vi.fn()
+    const circuitBreaker = createCircuitBreaker({ threshold: 3, onOpen })
+
+    const pending = fetchWithRetry('https://example.com/a', defaultSettings, {
+      circuitBreaker,
+    })
+    await vi.runAllTimersAsync()
+    await pending
+
+    expect(onOpen).toHaveBeenCalledWith('example.com', 30000)
+  })
+
   it('does not retry 4xx client errors', async () => {
     const mockedFetch = vi.mocked(fetch)
     mockedFetch.mockResolvedValueOnce(mockResponse(404, 'not found'))
@@ -191,6 +305,70 @@ describe('fetchWithRetry', () => {
     expect(callArgs[1]?.signal).toBeInstanceOf(AbortSignal)
   })
 
+  it('sends each attempt through the next proxy of the list', async () => {
+    const mockedFetch = vi.mocked(fetch)
+    mockedFetch
+      .mockResolvedValueOnce(mockResponse(503))
+      .mockResolvedValueOnce(mockResponse(200))
+
+    await fetchWithRetry('https://example.com', {
+      timeout: 5,
+      retries: 1,
+      proxy: 'http://proxy-a.test:8080\nhttp://proxy-b.test:8080',
+    })
+
+    const [first, second] = mockedFetch.mock.calls.map(
+      ([, init]) => (init as { dispatcher?: unknown }).dispatcher,
+    )
+    expect(first).toBeDefined()
+    expect(second).toBeDefined()
+    expect(first).not.toBe(second)
+  })
+
+  it('uses the SSRF-guarded dispatcher without a proxy', async () => {
+    const mockedFetch = vi.mocked(fetch)
+    mockedFetch.mockResolvedValueOnce(mockResponse(200))
+
+    await fetchWithRetry('https://example.com', { timeout: 5, retries: 0 })
+
+    const init = mockedFetch.mock.calls[0]?.[1] as { dispatcher?: unknown }
+    expect(init.dispatcher).toBe(directDispatcher())
+  })
+
+  it('follows redirects hop by hop, storing cookies per hop', async () => {
+    const mockedFetch = vi.mocked(fetch)
+    mockedFetch
+      .mockResolvedValueOnce(
+        mockResponse(302, '', { location: '/next', 'set-cookie': 'a=1' }),
+      )
+      .mockResolvedValueOnce(mockResponse(200, 'done'))
+    const cookieJar = createCookieJar()
+
+    const { response } = await fetchWithRetry(
+      'https://example.com/start',
+      defaultSettings,
+      { cookieJar },
+    )
+
+    expect(await response.text()).toBe('done')
+    const [first, second] = mockedFetch.mock.calls
+    expect(first?.[1]?.redirect).toBe('manual')
+    expect(second?.[0]).toBe('https://example.com/next')
+    expect((second?.[1]?.headers as Record<string, string>).Cookie).toBe('a=1')
+  })
+
+  it('refuses redirects to blocked URLs without retrying', async () => {
+    const mockedFetch = vi.mocked(fetch)
+    mockedFetch.mockResolvedValue(
+      mockResponse(301, '', { location: 'http://[::ffff:169.254.169.254]/' }),
+    )
+
+    await expect(
+      fetchWithRetry('https://example.com', defaultSettings),
+    ).rejects.toThrow('Redirect to blocked URL')
+    expect(mockedFetch).toHaveBeenCalledTimes(1)
+  })
+
   it('works with retries=0 (no retries, single attempt)', async () => {
     const mockedFetch = vi.mocked(fetch)
     mockedFetch.mockResolvedValueOnce(mockResponse(500))
@@ -218,3 +396,49 @@ describe('fetchWithRetry', () => {
     expect(mockedFetch).toHaveBeenCalledTimes(1)
   })
 })
+
+describe('cacheKeyHeaders', () => {
+  it('keys only non-default User-Agents', () => {
+    const headers = { Accept: 'text/html' }
+    expect(cacheKeyHeaders('https://example.com', { headers })).toBe(headers)
+    expect(
+      cacheKeyHeaders('https://example.com', { headers, userAgent: 'default' }),
+    ).toBe(headers)
+    expect(
+      cacheKeyHeaders('https://example.com', { headers, userAgent: 'bingbot' }),
+    ).toEqual({ 'User-Agent': USER_AGENT_PRESETS.bingbot, ...headers })
+  })
+})
+
+describe('parseRetryAfter', () => {
+  it('parses delay seconds', () => {
+    expect(parseRetryAfter('120')).toBe(120000)
+    expect(parseRetryAfter(' 0 ')).toBe(0)
+  })
+
+  it('parses an HTTP-date relative to now', () => {
+    const now = Date.parse('Wed, 21 Oct 2026 07:28:00 GMT')
+    expect(parseRetryAfter('Wed, 21 Oct 2026 07:28:30 GMT', now)).toBe(30000)
+    // Dates in the past mean "retry now"
+    expect(parseRetryAfter('Wed, 21 Oct 2026 07:00:00 GMT', now)).toBe(0)
+  })
+
+  it('returns null for missing or invalid values', () => {
+    expect(parseRetryAfter(null)).toBeNull()
+    expect(parseRetryAfter('soon')).toBeNull()
+    expect(parseRetryAfter('-5')).toBeNull()
+  })
+})
+
+describe('backoffDelay', () => {
+  it('doubles the window per attempt and caps it at 30s', () => {
+    expect(backoffDelay(0, () => 1)).toBe(1000)
+    expect(backoffDelay(2, () => 1)).toBe(4000)
+    expect(backoffDelay(10, () => 1)).toBe(30000)
+  })
+
+  it('draws from the upper half of the window', () => {
+    expect(backoffDelay(1, () => 0)).toBe(1000)
+    expect(backoffDelay(1, () => 0.5)).toBe(1500)
+  })
+})
@@ -0,0 +1,153 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { createHostScheduler } from '../host-scheduler'
+
+describe('createHostScheduler', () => {
+  beforeEach(() => {
+    vi.useFakeTimers()
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  // Schedules one task per URL and records when each one started
+  function runAll(
+    scheduler: ReturnType<typeof createHostScheduler>,
+    urls: string[],
+  ) {
+    const started: Record<string, number[]> = {}
+    const start = Date.now()
+    const done = Promise.all(
+      urls.map((url) =>
+        scheduler.schedule(url, async () => {
+          const host = new URL(url).hostname
+          started[host] ??= []
+          started[host].push(Date.now() - start)
+        }),
+      ),
+    )
+    return { started, done }
+  }
+
+  it('spaces requests to the same host by the rate', async () => {
+    const scheduler = createHostScheduler({ ratePerHost: 10, concurrency: 5 })
+    const { started, done } = runAll(scheduler, [
+      'https://a.test/1',
+      'https://a.test/2',
+      'https://a.test/3',
+    ])
+    await vi.runAllTimersAsync()
+    await done
+
+    expect(started['a.test']).toEqual([0, 100, 200])
+  })
+
+  it('does not make other hosts wait for a throttled one', async () => {
+    const scheduler = createHostScheduler({ ratePerHost: 1, concurrency: 5 })
+    const { started, done } = runAll(scheduler, [
+      'https://slow.test/1',
+      'https://slow.test/2',
+      'https://b.test/',
+      'https://c.test/',
+    ])
+    await vi.runAllTimersAsync()
+    await done
+
+    expect(started['slow.test']).toEqual([0, 1000])
+    expect(started['b.test']).toEqual([0])
+    expect(started['c.test']).toEqual([0])
+  })
+
+  it('caps requests in flight across hosts', async () => {
+    const scheduler = createHostScheduler({ concurrency: 2 })
+    let inFlight = 0
+    let peak = 0
+    const tasks = ['a', 'b', 'c', 'd', 'e'].map((host) =>
+      scheduler.schedule(`https://${host}.test/`, async () => {
+        inFlight++
+        peak = Math.max(peak, inFlight)
+        await new Promise((resolve) => setTimeout(resolve, 10))
+        inFlight--
+      }),
+    )
+    await vi.runAllTimersAsync()
+    await Promise.all(tasks)
+
+    expect(peak).toBe(2)
+  })
+
+  it('lets a host delay slow a host down but never speed it up', async () => {
+    const scheduler = createHostScheduler({ ratePerHost: 10, concurrency: 5 })
+    scheduler.setHostDelay('A.test', 500)
+    scheduler.setHostDelay('a.test', 50)
+    const { started, done } = runAll(scheduler, [
+      'https://a.test/1',
+      'https://a.test/2',
+      'https://b.test/1',
+      'https://b.test/2',
+    ])
+    await vi.runAllTimersAsync()
+    await done
+
+    expect(started['a.test']).toEqual([0, 500])
+    expect(started['b.test']).toEqual([0, 100])
+  })
+
+  it('holds back a paused host without blocking others', async () => {
+    const scheduler = createHostScheduler({ concurrency: 5 })
+    scheduler.pauseHost('A.test', 2000)
+    scheduler.pauseHost('a.test', 500)
+    const { started, done } = runAll(scheduler, [
+      'https://a.test/1',
+      'https://a.test/2',
+      'https://b.test/',
+    ])
+    await vi.runAllTimersAsync()
+    await done
+
+    expect(started['a.test']).toEqual([2000, 2000])
+    expect(started['b.test']).toEqual([0])
+  })
+
+  it('releases the slot when a task throws', async () => {
+    const scheduler = createHostScheduler({ concurrency: 1 })
+    await expect(
+      scheduler.schedule('https://a.test/', async () => {
+        throw new Error('boom')
+      }),
+    ).rejects.toThrow('boom')
+    await expect(
+      scheduler.schedule('https://a.test/', async () => 'ok'),
+    ).resolves.toBe('ok')
+  })
+
+  it('drops waiting requests as soon as the run stops', async () => {
+    let stopped = false
+    const scheduler = createHostScheduler({
+      ratePerHost: 1,
+      concurrency: 5,
+      isStopped: () => stopped,
+    })
+    const ran: number[] = []
+    const settled = Promise.allSettled(
+      Array.from({ length: 100 }, (_, i) =>
+        scheduler.schedule(`https://a.test/${i}`, async () => {
+          ran.push(i)
+        }),
+      ),
+    )
+
+    await vi.advanceTimersByTimeAsync(1500)
+    stopped = true
+    // Without the stop the last request would wait 99 seconds
+    await vi.advanceTimersByTimeAsync(1000)
+    const results = await settled
+
+    expect(ran).toEqual([0, 1])
+    expect(results.filter((r) => r.status === 'rejected')).toHaveLength(98)
+    expect(vi.getTimerCount()).toBe(0)
+    await expect(
+      scheduler.schedule('https://b.test/', async () => 'late'),
+    ).rejects.toThrow('Scheduler stopped')
+  })
+})
@@ -0,0 +1,173 @@
+import { mkdtemp, rm } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import {
+  afterAll,
+  afterEach,
+  beforeAll,
+  beforeEach,
+  describe,
+  expect,
+  it,
+  vi,
+} from 'vitest'
+
+// OUTPUT_ROOT is resolved at import time, so point it at a temp dir first
+let outputDir: string
+let cache: typeof import('../http-cache')
+let fetchWithRetry: typeof import('../fetch-with-retry').fetchWithRetry
+
+beforeAll(async () => {
+  outputDir = await mkdtemp(join(tmpdir(), 'url-tools-http-cache-'))
+  vi.stubEnv('OUTPUT_DIR', outputDir)
+  vi.resetModules()
+  cache = await import('../http-cache')
+  fetchWithRetry = (await import('../fetch-with-retry')).fetchWithRetry
+})
+
+afterAll(async () => {
+  vi.unstubAllEnvs()
+  await rm(outputDir, { recursive: true, force: true })
+})
+
+describe('http cache', () => {
+  it('stores under OUTPUT_ROOT/http-cache', () => {
+    expect(cache.CACHE_DIR).toBe(join(outputDir, 'http-cache'))
+  })
+
+  it('keys entries by URL and headers, ignoring header case and order', () => {
+    const url = 'https://example.com/'
+    expect(cache.cacheKey(url, { 'User-Agent': 'a', Accept: 'b' })).toBe(
+      cache.cacheKey(url, { accept: 'b', 'user-agent': 'a' }),
+    )
+    expect(cache.cacheKey(url, { 'User-Agent': 'a' })).not.toBe(
+      cache.cacheKey(url, { 'User-Agent': 'b' }),
+    )
+    expect(cache.cacheKey(url)).not.toBe(cache.cacheKey(`${url}x`))
+  })
+
+  it('stores a response and returns an unread copy', async () => {
+    const url = 'https://example.com/store'
+    const copy = await cache.storeResponse(
+      url,
+      new Response('<html>stored</html>', {
+        status: 200,
+        headers: { etag: '"v1"', 'content-type': 'text/html' },
+      }),
+    )
+    expect(await copy.text()).toBe('<html>stored</html>')
+
+    const entry = await cache.readCacheEntry(url)
+    expect(entry?.status).toBe(200)
+    expect(entry?.headers.etag).toBe('"v1"')
+    expect(entry && (await cache.entryToResponse(entry).text())).toBe(
+      '<html>stored</html>',
+    )
+  })
+
+  it('does not store server errors or rate limits', async () => {
+    for (const status of [429, 503]) {
+      const url = `https://example.com/status-${status}`
+      await cache.storeResponse(url, new Response('busy', { status }))
+      expect(await cache.readCacheEntry(url)).toBeNull()
+    }
+  })
+
+  it('streams oversized bodies through without storing them', async () => {
+    const url = 'https://example.com/large'
+    const chunk = new Uint8Array(1024 * 1024).fill(0x61)
+    let sent = 0
+    const body = new ReadableStream<Uint8Array>({
+      pull(controller) {
+        if (sent++ === 11) return controller.close()
+        controller.enqueue(chunk)
+      },
+    })
+    const copy = await cache.storeResponse(url, new Response(body))
+    expect((await copy.arrayBuffer()).byteLength).toBe(11 * chunk.length)
+    expect(await cache.readCacheEntry(url)).toBeNull()
+  })
+
+  it('builds validators from ETag and Last-Modified', () => {
+    expect(
+      cache.conditionalHeaders({
+        url: 'https://example.com/',
+        status: 200,
+        headers: {
+          etag: '"v1"',
+          'last-modified': 'Wed, 21 Oct 2026 07:28:00 GMT',
+        },
+        body: '',
+        storedAt: '',
+      }),
+    ).toEqual({
+      'If-None-Match': '"v1"',
+      'If-Modified-Since': 'Wed, 21 Oct 2026 07:28:00 GMT',
+    })
+  })
+
+  it('falls back to off for unknown modes', () => {
+    expect(cache.resolveCacheMode('revalidate')).toBe('revalidate')
+    expect(cache.resolveCacheMode('offline')).toBe('offline')
+    expect(cache.resolveCacheMode('always')).toBe('off')
+    expect(cache.resolveCacheMode(undefined)).toBe('off')
+  })
+})
+
+describe('fetchWithRetry with cache', () => {
+  beforeEach(() => {
+    vi.stubGlobal('fetch', vi.fn())
+  })
+
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  it('stores a miss and revalidates it on the next request', async () => {
+    const url = 'https://example.com/revalidate'
+    const settings = { timeout: 10, retries: 0, cache: 'revalidate' as const }
+    const mockedFetch = vi.mocked(fetch)
+    mockedFetch.mockResolvedValueOnce(
+      new Response('first', { status: 200, headers: { etag: '"abc"' } }),
+    )
+
+    const first = await fetchWithRetry(url, settings)
+    expect(first.cacheStatus).toBe('miss')
+    expect(await first.response.text()).toBe('first')
+
+    mockedFetch.mockResolvedValueOnce(new Response(null, { status: 304 }))
+    const second = await fetchWithRetry(url, settings)
+    expect(second.cacheStatus).toBe('revalidated')
+    expect(second.response.status).toBe(200)
+    expect(await second.response.text()).toBe('first')
+
+    const init = mockedFetch.mock.calls[1][1] as RequestInit
+    const headers = init.headers as Record<string, string>
+    expect(headers['If-None-Match']).toBe('"abc"')
+  })
+
+  it('replays cached responses offline without fetching', async () => {
+    const url = 'https://example.com/offline'
+    await cache.storeResponse(url, new Response('cached', { status: 200 }))
+
+    const result = await fetchWithRetry(url, {
+      timeout: 10,
+      retries: 0,
+      cache: 'offline',
+    })
+    expect(result.cacheStatus).toBe('hit')
+    expect(await result.response.text()).toBe('cached')
+    expect(fetch).not.toHaveBeenCalled()
+  })
+
+  it('fails uncached URLs offline', async () => {
+    await expect(
+      fetchWithRetry('https://example.com/missing', {
+        timeout: 10,
+        retries: 0,
+        cache: 'offline',
+      }),
+    ).rejects.toThrow('Not in cache (offline replay)')
+    expect(fetch).not.toHaveBeenCalled()
+  })
+})
@@ -0,0 +1,174 @@
+import { afterEach, describe, expect, it } from 'vitest'
+import type { CrawlSink } from '../crawl-engine'
+import {
+  __resetJobsForTests,
+  cancelJob,
+  getJob,
+  type JobEvent,
+  listJobs,
+  MAX_JOB_EVENTS,
+  pauseJob,
+  resumeJob,
+  startJob,
+  subscribeJob,
+} from '../jobs'
+
+// A run that hands its sink to the test and waits to be released
+function controllableRun() {
+  let sink: CrawlSink | null = null
+  let release: () => void = () => {}
+  const released = new Promise<void>((resolve) => {
+    release = resolve
+  })
+  return {
+    run: async (s: CrawlSink) => {
+      sink = s
+      await released
+    },
+    sink: () => {
+      if (!sink) throw new Error('run not started')
+      return sink
+    },
+    release,
+  }
+}
+
+function flush(): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, 0))
+}
+
+function names(events: JobEvent[]): string[] {
+  return events.map((e) => e.event)
+}
+
+describe('jobs', () => {
+  afterEach(() => __resetJobsForTests())
+
+  it('buffers events with sequential ids and ends with an end event', async () => {
+    const ctl = controllableRun()
+    const job = startJob('scrape-links', ctl.run)
+    ctl.sink().emit('log', { message: 'hello', type: 'info' })
+    ctl.sink().emit('result', { n: 1 })
+    ctl.release()
+    await flush()
+
+    const events: JobEvent[] = []
+    subscribeJob(job.jobId, 0, (e) => events.push(e))
+    expect(events.map((e) => e.id)).toEqual([1, 2, 3])
+    expect(names(events)).toEqual(['log', 'result', 'end'])
+    expect(events[2]?.data).toEqual({ status: 'completed' })
+    expect(getJob(job.jobId)?.status).toBe('completed')
+  })
+
+  it('replays only events after the given id, then streams live ones', async () => {
+    const ctl = controllableRun()
+    const job = startJob('check-links', ctl.run)
+    ctl.sink().emit('result', { n: 1 })
+    ctl.sink().emit('result', { n: 2 })
+
+    const events: JobEvent[] = []
+    subscribeJob(job.jobId, 1, (e) => events.push(e))
+    ctl.sink().emit('result', { n: 3 })
+    ctl.release()
+    await flush()
+
+    expect(events.map((e) => e.data)).toEqual([
+      { n: 2 },
+      { n: 3 },
+      { status: 'completed' },
+    ])
+  })
+
+  it('keeps only the latest events once the buffer is full', async () => {
+    const ctl = controllableRun()
+    const job = startJob('check-links', ctl.run)
+    for (let n = 1; n <= MAX_JOB_EVENTS + 5; n++) {
+      ctl.sink().emit('result', { n })
+    }
+    ctl.release()
+    await flush()
+
+    const all: JobEvent[] = []
+    subscribeJob(job.jobId, 0, (e) => all.push(e))
+    expect(all).toHaveLength(MAX_JOB_EVENTS)
+    expect(all[0]?.id).toBe(7)
+    expect(all.at(-1)?.event).toBe('end')
+
+    const tail: JobEvent[] = []
+    subscribeJob(job.jobId, MAX_JOB_EVENTS + 3, (e) => tail.push(e))
+    expect(tail.map((e) => e.data)).toEqual([
+      { n: MAX_JOB_EVENTS + 4 },
+      { n: MAX_JOB_EVENTS + 5 },
+      { status: 'completed' },
+    ])
+  })
+
+  it('holds a paused job in untilResumed until it is resumed', async () => {
+    const ctl = controllableRun()
+    const job = startJob('inbound-links', ctl.run)
+
+    expect(pauseJob(job.jobId)?.status).toBe('paused')
+    let resumed = false
+    ctl
+      .sink()
+      .untilResumed?.()
+      .then(() => {
+        resumed = true
+      })
+    await flush()
+    expect(resumed).toBe(false)
+
+    expect(resumeJob(job.jobId)?.status).toBe('running')
+    await flush()
+    expect(resumed).toBe(true)
+    ctl.release()
+  })
+
+  it('closes the sink on cancel and drops later events', async () => {
+    const ctl = controllableRun()
+    const job = startJob('scrape-links', ctl.run)
+    pauseJob(job.jobId)
+    const waiting = ctl.sink().untilResumed?.()
+
+    expect(cancelJob(job.jobId)?.status).toBe('cancelled')
+    await waiting
+    expect(ctl.sink().isClosed()).toBe(true)
+    ctl.sink().emit('result', { late: true })
+    ctl.release()
+    await flush()
+
+    const events: JobEvent[] = []
+    subscribeJob(job.jobId, 0, (e) => events.push(e))
+    expect(names(events)).not.toContain('result')
+    expect(events.at(-1)?.data).toEqual({ status: 'cancelled' })
+    expect(getJob(job.jobId)?.status).toBe('cancelled')
+  })
+
+  it('reports a failed run as an error event', async () => {
+    const job = startJob('scrape-links', async () => {
+      throw new Error('boom')
+    })
+    await flush()
+
+    const events: JobEvent[] = []
+    subscribeJob(job.jobId, 0, (e) => events.push(e))
+    expect(events.map((e) => [e.event, e.data])).toEqual([
+      ['error', { message: 'boom' }],
+      ['end', { status: 'failed' }],
+    ])
+  })
+
+  it('returns null for unknown jobs', () => {
+    expect(getJob('nope')).toBeNull()
+    expect(pauseJob('nope')).toBeNull()
+    expect(cancelJob('nope')).toBeNull()
+    expect(subscribeJob('nope', 0, () => {})).toBeNull()
+  })
+
+  it('lists jobs newest first', async () => {
+    const first = startJob('scrape-links', async () => {})
+    await new Promise((resolve) => setTimeout(resolve, 5))
+    const second = startJob('check-links', async () => {})
+    expect(listJobs().map((j) => j.jobId)).toEqual([second.jobId, first.jobId])
+  })
+})
@@ -1,10 +1,14 @@
-import { describe, expect, it } from 'vitest'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
 import {
   extractLinks,
+  fetchRedirectChain,
   formatRedirectChain,
+  getRedirectChain,
   isInternalLink,
+  isPageKind,
   isSitemap,
   normalizeUrl,
+  resolveLinkKinds,
 } from '../link-analyzer'
 
 describe('isInternalLink', () => {
@@ -27,6 +31,14 @@ describe('isInternalLink', () => {
     expect(isInternalLink('https://example.com', '/page')).toBe(true)
   })
 
+  it('treats subdomains as internal with a domain scope', () => {
+    const base = 'https://www.example.com/'
+    expect(isInternalLink(base, 'https://blog.example.com/')).toBe(false)
+    expect(
+      isInternalLink(base, 'https://blog.example.com/', { mode: 'domain' }),
+    ).toBe(true)
+  })
+
   it('treats relative paths as internal (resolved against base)', () => {
     // 'not-a-url' is treated as a relative path by new URL(target, base)
     expect(isInternalLink('https://example.com', 'not-a-url')).toBe(true)
@@ -107,6 +119,103 @@ describe('extractLinks', () => {
   it('returns empty array for HTML with no links', () => {
     expect(extractLinks('<p>No links</p>', 'https://example.com')).toEqual([])
   })
+
+  it('tags anchors with kind anchor', () => {
+    const links = extractLinks(
+      '<a href="/page">Link</a>',
+      'https://example.com',
+    )
+    expect(links[0].kind).toBe('anchor')
+  })
+
+  it('classifies resource references by kind', () => {
+    const html = `
+      <head>
+        <meta http-equiv="Refresh" content="5; URL='/moved'">
+        <link rel="canonical" href="/canonical">
+        <link rel="alternate" hreflang="de" href="/de/">
+        <link rel="next" href="/page/2">
+        <link rel="stylesheet" href="/main.css">
+        <link rel="icon" href="/favicon.ico">
+        <script src="/app.js"></script>
+      </head>
+      <body>
+        <iframe src="/embed"></iframe>
+        <img src="/a.jpg" srcset="/a-2x.jpg 2x, /a-3x.jpg 3x" alt="Photo">
+        <video poster="/poster.jpg"><source src="/clip.mp4"></video>
+      </body>
+    `
+    const links = extractLinks(html, 'https://example.com/')
+    const byKind = (kind: string) =>
+      links.filter((l) => l.kind === kind).map((l) => l.targetUrl)
+
+    expect(byKind('meta-refresh')).toEqual(['https://example.com/moved'])
+    expect(byKind('canonical')).toEqual(['https://example.com/canonical'])
+    expect(byKind('hreflang')).toEqual(['https://example.com/de'])
+    expect(byKind('pagination')).toEqual(['https://example.com/page/2'])
+    expect(byKind('stylesheet')).toEqual(['https://example.com/main.css'])
+    expect(byKind('script')).toEqual(['https://example.com/app.js'])
+    expect(byKind('iframe')).toEqual(['https://example.com/embed'])
+    expect(byKind('media')).toEqual(['https://example.com/clip.mp4'])
+    expect(byKind('image')).toEqual([
+      'https://example.com/favicon.ico',
+      'https://example.com/a.jpg',
+      'https://example.com/a-2x.jpg',
+      'https://example.com/a-3x.jpg',
+      'https://example.com/poster.jpg',
+    ])
+  })
+
+  it('keeps hreflang and alt text on the entry', () => {
+    const html = `
+      <link rel="alternate" hreflang="fr-CA" href="https://example.com/fr/">
+      <img src="/logo.png" alt="Company logo">
+    `
+    const links = extractLinks(html, 'https://example.com')
+    expect(links[0].hreflang).toBe('fr-CA')
+    expect(links[1].anchorText).toBe('Company logo')
+  })
+
+  it('reports a URL once per kind', () => {
+    const html = `
+      <a href="/photo.jpg">Full size</a>
+      <img src="/photo.jpg">
+      <img src="/photo.jpg">
+    `
+    const links = extractLinks(html, 'https://example.com')
+    expect(links.map((l) => l.kind)).toEqual(['anchor', 'image'])
+  })
+
+  it('ignores data URIs and alternates without hreflang', () => {
+    const html = `
+      <img src="data:image/png;base64,AAAA">
+      <link rel="alternate" type="application/rss+xml" href="/feed.xml">
+    `
+    expect(extractLinks(html, 'https://example.com')).toEqual([])
+  })
+})
+
+describe('resolveLinkKinds', () => {
+  it('defaults to anchors only', () => {
+    expect([...resolveLinkKinds(undefined)]).toEqual(['anchor'])
+    expect([...resolveLinkKinds(['bogus'])]).toEqual(['anchor'])
+  })
+
+  it('keeps known kinds', () => {
+    expect([...resolveLinkKinds(['script', 'stylesheet', 'nope'])]).toEqual([
+      'script',
+      'stylesheet',
+    ])
+  })
+})
+
+describe('isPageKind', () => {
+  it('separates pages from assets', () => {
+    expect(isPageKind('anchor')).toBe(true)
+    expect(isPageKind('hreflang')).toBe(true)
+    expect(isPageKind('stylesheet')).toBe(false)
+    expect(isPageKind('image')).toBe(false)
+  })
 })
 
 describe('isSitemap', () => {
@@ -121,12 +230,173 @@ describe('isSitemap', () => {
   })
 })
 
+describe('getRedirectChain', () => {
+  beforeEach(() => {
+    vi.stubGlobal('fetch', vi.fn())
+  })
+
+  afterEach(() => {
+    vi.unstubAllGlobals()
+  })
+
+  function redirect(location: string, status = 301): Response {
+    return new Response(null, { status, headers: { location } })
+  }
+
+  it('records location, method and key headers per hop', async () => {
+    vi.mocked(fetch)
+      .mockResolvedValueOnce(redirect('/new'))
+      .mockResolvedValueOnce(
+        new Response(null, {
+          status: 200,
+          headers: { 'content-type': 'text/html', 'x-other': 'ignored' },
+        }),
+      )
+
+    const result = await getRedirectChain('https://example.com/old')
+
+    expect(result.finalStatus).toBe(200)
+    expect(result.finalUrl).toBe('https://example.com/new')
+    expect(result.chain[0]).toMatchObject({
+      url: 'https://example.com/old',
+      status: 301,
+      method: 'HEAD',
+      location: 'https://example.com/new',
+    })
+    expect(result.chain[1].location).toBeUndefined()
+    expect(result.chain[1].headers).toEqual({ 'content-type': 'text/html' })
+    expect(result.chain[1].responseTime).toBeGreaterThanOrEqual(0)
+  })
+
+  it('falls back to GET when the server rejects HEAD', async () => {
+    vi.mocked(fetch)
+      .mockResolvedValueOnce(new Response(null, { status: 405 }))
+      .mockResolvedValueOnce(new Response('body', { status: 200 }))
+
+    const result = await getRedirectChain('https://example.com/')
+
+    expect(result.finalStatus).toBe(200)
+    expect(result.chain).toHaveLength(1)
+    expect(result.chain[0].method).toBe('GET')
+    expect(vi.mocked(fetch).mock.calls[1][1]?.method).toBe('GET')
+  })
+
+  it('detects redirect loops', async () => {
+    vi.mocked(fetch)
+      .mockResolvedValueOnce(redirect('https://example.com/b'))
+      .mockResolvedValueOnce(redirect('https://example.com/a'))
+
+    const result = await getRedirectChain('https://example.com/a', 10)
+
+    expect(result.error).toBe('Redirect loop')
+    expect(result.finalStatus).toBe(0)
+    expect(fetch).toHaveBeenCalledTimes(2)
+  })
+
+  it('sends custom headers, which may override the user agent', async () => {
+    vi.mocked(fetch).mockResolvedValueOnce(new Response(null, { status: 200 }))
+
+    await getRedirectChain('https://example.com/', 5, 5000, {
+      headers: { 'User-Agent': 'Googlebot', 'Accept-Language': 'de' },
+    })
+
+    expect(vi.mocked(fetch).mock.calls[0][1]?.headers).toEqual({
+      'User-Agent': 'Googlebot',
+      'Accept-Language': 'de',
+    })
+  })
+
+  it('sends each hop the credentials of its own host', async () => {
+    vi.mocked(fetch)
+      .mockResolvedValueOnce(redirect('https://login.other.com/'))
+      .mockResolvedValueOnce(new Response(null, { status: 200 }))
+
+    await getRedirectChain('https://example.com/', 5, 5000, {
+      credentials: [{ host: 'example.com', type: 'bearer', token: 'abc' }],
+    })
+
+    const [first, second] = vi
+      .mocked(fetch)
+      .mock.calls.map(
+        ([, init]) => init?.headers as Record<string, string> | undefined,
+      )
+    expect(first?.Authorization).toBe('Bearer abc')
+    expect(second?.Authorization).toBeUndefined()
+  })
+
+  it('runs every request through the schedule hook', async () => {
+    vi.mocked(fetch)
+      .mockResolvedValueOnce(redirect('https://cdn.example.net/'))
+      .mockResolvedValueOnce(new Response(null, { status: 405 }))
+      .mockResolvedValueOnce(new Response(null, { status: 200 }))
+    const scheduled: string[] = []
+
+    await getRedirectChain('https://example.com/', 5, 5000, {
+      schedule: (url, task) => {
+        scheduled.push(url)
+        return task()
+      },
+    })
+
+    expect(scheduled).toEqual([
+      'https://example.com/',
+      'https://cdn.example.net/',
+      'https://cdn.example.net/',
+    ])
+  })
+})
+
+describe('fetchRedirectChain', () => {
+  beforeEach(() => {
+    vi.stubGlobal('fetch', vi.fn())
+  })
+
+  afterEach(() => {
+    vi.unstubAllGlobals()
+  })
+
+  it('requests every hop with GET and keeps the final body', async () => {
+    vi.mocked(fetch)
+      .mockResolvedValueOnce(
+        new Response('Moved', {
+          status: 301,
+          headers: { location: '/new' },
+        }),
+      )
+      .mockResolvedValueOnce(new Response('<html>page</html>'))
+
+    const { response, ...result } = await fetchRedirectChain(
+      'https://example.com/old',
+      5,
+      { timeout: 5, retries: 0 },
+    )
+
+    expect(result.chain.map((step) => step.method)).toEqual(['GET', 'GET'])
+    expect(result.finalUrl).toBe('https://example.com/new')
+    expect(await response?.text()).toBe('<html>page</html>')
+    expect(fetch).toHaveBeenCalledTimes(2)
+  })
+})
+
 describe('formatRedirectChain', () => {
   it('formats chain as status codes joined by arrows', () => {
     expect(
       formatRedirectChain([
-        { url: 'http://a.com', status: 301 },
-        { url: 'https://a.com', status: 200 },
+        {
+          url: 'http://a.com',
+          status: 301,
+          method: 'HEAD',
+          location: 'https://a.com/',
+          responseTime: 12,
+          headers: {},
+        },
+        {
+          url: 'https://a.com',
+          status: 200,
+          method: 'HEAD',
+          responseTime: 8,
+          headers: {},
+        },
       ]),
     ).toBe('301 → 200')
   })
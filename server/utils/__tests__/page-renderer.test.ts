@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'vitest'
+import { type RenderOptions, resolveRenderOptions } from '../page-renderer'
+
+describe('resolveRenderOptions', () => {
+  it('returns null unless render mode is enabled', () => {
+    expect(resolveRenderOptions()).toBeNull()
+    expect(resolveRenderOptions({ waitMs: 500 })).toBeNull()
+  })
+
+  it('applies defaults', () => {
+    expect(resolveRenderOptions({ enabled: true })).toEqual({
+      enabled: true,
+      waitUntil: 'networkidle2',
+      waitForSelector: '',
+      waitMs: 0,
+    })
+  })
+
+  it('drops invalid values and clamps the extra wait', () => {
+    const input = {
+      enabled: true,
+      waitUntil: 'forever',
+      waitForSelector: `#${'a'.repeat(200)}`,
+      waitMs: 60000,
+    } as unknown as RenderOptions
+    expect(resolveRenderOptions(input)).toEqual({
+      enabled: true,
+      waitUntil: 'networkidle2',
+      waitForSelector: '',
+      waitMs: 10000,
+    })
+  })
+
+  it('keeps a valid wait strategy', () => {
+    expect(
+      resolveRenderOptions({
+        enabled: true,
+        waitUntil: 'domcontentloaded',
+        waitForSelector: ' #app nav ',
+        waitMs: 250,
+      }),
+    ).toEqual({
+      enabled: true,
+      waitUntil: 'domcontentloaded',
+      waitForSelector: '#app nav',
+      waitMs: 250,
+    })
+  })
+})
@@ -0,0 +1,118 @@
+import { describe, expect, it } from 'vitest'
+import {
+  decodeBody,
+  detectEncoding,
+  readResponseBytes,
+  readResponseText,
+} from '../response-body'
+
+/** Streams `count` chunks of `size` bytes and records how many were pulled */
+function chunkedResponse(count: number, size: number) {
+  const stats = { pulled: 0, cancelled: false }
+  const body = new ReadableStream<Uint8Array>({
+    pull(controller) {
+      if (stats.pulled === count) return controller.close()
+      stats.pulled++
+      controller.enqueue(new Uint8Array(size).fill(0x61))
+    },
+    cancel() {
+      stats.cancelled = true
+    },
+  })
+  return { response: new Response(body), stats }
+}
+
+describe('readResponseBytes', () => {
+  it('stops a chunked body at the first chunk past the cap', async () => {
+    const { response, stats } = chunkedResponse(100, 1024)
+    await expect(readResponseBytes(response, 4096)).rejects.toThrow(
+      'Response too large (>4096B)',
+    )
+    expect(stats.cancelled).toBe(true)
+    expect(stats.pulled).toBeLessThan(10)
+  })
+
+  it('rejects an oversized Content-Length before reading', async () => {
+    const response = new Response('small', {
+      headers: { 'content-length': String(20 * 1024 * 1024) },
+    })
+    await expect(readResponseBytes(response)).rejects.toThrow(
+      'Response too large (>10MB)',
+    )
+  })
+
+  it('returns bodies within the cap', async () => {
+    const { response } = chunkedResponse(4, 1024)
+    expect((await readResponseBytes(response, 4096)).byteLength).toBe(4096)
+  })
+})
+
+describe('detectEncoding', () => {
+  const html = (head: string) => Buffer.from(`<html><head>${head}</head>`)
+
+  it('prefers the BOM, then the header, then the document', () => {
+    const bom = Buffer.from([0xef, 0xbb, 0xbf, 0x61])
+    expect(detectEncoding(bom, 'text/html; charset=shift_jis')).toBe('utf-8')
+    expect(
+      detectEncoding(
+        html('<meta charset="shift_jis">'),
+        'text/html; charset="ISO-8859-1"',
+      ),
+    ).toBe('windows-1252')
+    expect(detectEncoding(html('<meta charset="shift_jis">'))).toBe('shift_jis')
+  })
+
+  it('reads http-equiv and XML declarations', () => {
+    expect(
+      detectEncoding(
+        html(
+          '<meta http-equiv="Content-Type" content="text/html; charset=euc-jp">',
+        ),
+      ),
+    ).toBe('euc-jp')
+    expect(
+      detectEncoding(
+        Buffer.from('<?xml version="1.0" encoding="ISO-8859-1"?><urlset/>'),
+      ),
+    ).toBe('windows-1252')
+  })
+
+  it('falls back to UTF-8 for unknown or impossible labels', () => {
+    expect(detectEncoding(html('<meta charset="klingon">'))).toBe('utf-8')
+    expect(detectEncoding(html('<meta charset="utf-16">'))).toBe('utf-8')
+    expect(detectEncoding(html(''), 'text/html; charset=bogus')).toBe('utf-8')
+    const late = Buffer.from(
+      `<html>${' '.repeat(2000)}<meta charset="shift_jis">`,
+    )
+    expect(detectEncoding(late)).toBe('utf-8')
+  })
+})
+
+describe('readResponseText', () => {
+  it('decodes legacy encodings', async () => {
+    const latin = Buffer.from([0x63, 0x61, 0x66, 0xe9, 0x20, 0x80])
+    expect(
+      await readResponseText(
+        new Response(latin, {
+          headers: { 'content-type': 'text/html; charset=iso-8859-1' },
+        }),
+      ),
+    ).toEqual({ text: 'café €', encoding: 'windows-1252', bytes: 6 })
+
+    const sjis = Buffer.concat([
+      Buffer.from('<meta charset="Shift_JIS"><title>'),
+      // 日本
+      Buffer.from([0x93, 0xfa, 0x96, 0x7b]),
+      Buffer.from('</title>'),
+    ])
+    const decoded = decodeBody(sjis, 'text/html')
+    expect(decoded.encoding).toBe('shift_jis')
+    expect(decoded.text).toContain('<title>日本</title>')
+  })
+
+  it('drops the byte order mark', async () => {
+    const body = Buffer.from([0xef, 0xbb, 0xbf, ...Buffer.from('<p>hi</p>')])
+    const { text } = await readResponseText(new Response(body))
+    expect(text).toBe('<p>hi</p>')
+  })
+})
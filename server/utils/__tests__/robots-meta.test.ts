@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest'
+import {
+  getPageDirectives,
+  parseMetaRobots,
+  parseXRobotsTag,
+} from '../robots-meta'
+
+describe('parseXRobotsTag', () => {
+  it('applies unscoped directives to every crawler', () => {
+    expect(parseXRobotsTag('noindex, NoFollow', 'URLTools')).toEqual([
+      'noindex',
+      'nofollow',
+    ])
+  })
+
+  it('applies scoped directives only to the matching user-agent', () => {
+    const header = 'googlebot: nofollow, otherbot: noindex, noarchive'
+    expect(parseXRobotsTag(header, 'Googlebot')).toEqual(['nofollow'])
+    expect(parseXRobotsTag(header, 'OtherBot')).toEqual([
+      'noindex',
+      'noarchive',
+    ])
+    expect(parseXRobotsTag(header, 'URLTools')).toEqual([])
+  })
+
+  it('does not mistake valued directives for a user-agent', () => {
+    expect(parseXRobotsTag('max-snippet: 20, nofollow', 'URLTools')).toEqual([
+      'max-snippet: 20',
+      'nofollow',
+    ])
+  })
+})
+
+describe('parseMetaRobots', () => {
+  it('reads the robots meta tag and the one named after the user-agent', () => {
+    const html = [
+      '<meta name="robots" content="noindex">',
+      '<meta name="googlebot" content="nofollow">',
+      '<meta name="description" content="nofollow">',
+    ].join('')
+    expect(parseMetaRobots(html, 'URLTools')).toEqual(['noindex'])
+    expect(parseMetaRobots(html, 'Googlebot')).toEqual(['noindex', 'nofollow'])
+  })
+})
+
+describe('getPageDirectives', () => {
+  it('combines meta robots and X-Robots-Tag', () => {
+    const headers = new Headers({ 'X-Robots-Tag': 'nofollow' })
+    expect(getPageDirectives('', headers, 'URLTools')).toEqual({
+      nofollow: true,
+    })
+    expect(getPageDirectives('', new Headers(), 'URLTools')).toEqual({
+      nofollow: false,
+    })
+  })
+
+  it('treats none as nofollow', () => {
+    const html = '<meta name="robots" content="none">'
+    expect(getPageDirectives(html, new Headers(), 'URLTools').nofollow).toBe(
+      true,
+    )
+  })
+})
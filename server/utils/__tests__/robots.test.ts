@@ -0,0 +1,196 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import {
+  createRobotsChecker,
+  isPathAllowed,
+  parseRobotsTxt,
+  selectRobotsGroup,
+} from '../robots'
+
+const SETTINGS = { timeout: 10, retries: 0 }
+
+describe('parseRobotsTxt', () => {
+  it('groups consecutive user-agent lines', () => {
+    const robots = parseRobotsTxt(
+      [
+        'User-agent: a',
+        'User-agent: B',
+        'Disallow: /private',
+        '',
+        'User-agent: *',
+        'Allow: /',
+      ].join('\n'),
+    )
+
+    expect(robots.groups).toEqual([
+      {
+        userAgents: ['a', 'b'],
+        rules: [{ allow: false, path: '/private' }],
+      },
+      { userAgents: ['*'], rules: [{ allow: true, path: '/' }] },
+    ])
+  })
+
+  it('strips comments and ignores empty Disallow lines', () => {
+    const robots = parseRobotsTxt(
+      'User-agent: * # everyone\nDisallow:\nDisallow: /tmp # scratch',
+    )
+    expect(robots.groups[0]?.rules).toEqual([{ allow: false, path: '/tmp' }])
+  })
+
+  it('collects Crawl-delay and Sitemap directives', () => {
+    const robots = parseRobotsTxt(
+      'Sitemap: https://example.com/sitemap.xml\nUser-agent: *\nCrawl-delay: 2.5',
+    )
+    expect(robots.groups[0]?.crawlDelay).toBe(2.5)
+    expect(robots.sitemaps).toEqual(['https://example.com/sitemap.xml'])
+  })
+
+  it('ignores rules before the first user-agent line', () => {
+    const robots = parseRobotsTxt('Disallow: /\nUser-agent: *\nAllow: /')
+    expect(robots.groups).toHaveLength(1)
+    expect(robots.groups[0]?.rules).toEqual([{ allow: true, path: '/' }])
+  })
+})
+
+describe('selectRobotsGroup', () => {
+  const robots = parseRobotsTxt(
+    [
+      'User-agent: *',
+      'Disallow: /all',
+      'User-agent: googlebot',
+      'Disallow: /google',
+      'User-agent: googlebot-news',
+      'Disallow: /news',
+      'User-agent: googlebot',
+      'Crawl-delay: 3',
+    ].join('\n'),
+  )
+
+  it('prefers an exact match', () => {
+    expect(selectRobotsGroup(robots, 'Googlebot-News')?.rules).toEqual([
+      { allow: false, path: '/news' },
+    ])
+  })
+
+  it('falls back to the longest matching prefix and merges its groups', () => {
+    const group = selectRobotsGroup(robots, 'googlebot-image')
+    expect(group?.rules).toEqual([{ allow: false, path: '/google' }])
+    expect(group?.crawlDelay).toBe(3)
+  })
+
+  it('falls back to * for unknown agents', () => {
+    expect(selectRobotsGroup(robots, 'URLTools')?.rules).toEqual([
+      { allow: false, path: '/all' },
+    ])
+  })
+
+  it('returns null when nothing applies', () => {
+    const onlyGoogle = parseRobotsTxt('User-agent: googlebot\nDisallow: /')
+    expect(selectRobotsGroup(onlyGoogle, 'URLTools')).toBeNull()
+  })
+})
+
+describe('isPathAllowed', () => {
+  const group = {
+    userAgents: ['*'],
+    rules: [
+      { allow: false, path: '/shop' },
+      { allow: true, path: '/shop/public' },
+      { allow: false, path: '/*.pdf$' },
+      { allow: false, path: '/*?session=' },
+      { allow: true, path: '/page' },
+      { allow: false, path: '/page' },
+    ],
+  }
+
+  it('allows everything without a group', () => {
+    expect(isPathAllowed(null, '/anything')).toBe(true)
+  })
+
+  it('uses the longest matching rule', () => {
+    expect(isPathAllowed(group, '/shop/cart')).toBe(false)
+    expect(isPathAllowed(group, '/shop/public/item')).toBe(true)
+    expect(isPathAllowed(group, '/blog')).toBe(true)
+  })
+
+  it('supports * and $ wildcards', () => {
+    expect(isPathAllowed(group, '/docs/manual.pdf')).toBe(false)
+    expect(isPathAllowed(group, '/docs/manual.pdf.html')).toBe(true)
+    expect(isPathAllowed(group, '/list?session=abc')).toBe(false)
+  })
+
+  it('lets Allow win a tie', () => {
+    expect(isPathAllowed(group, '/page')).toBe(true)
+  })
+
+  it('never blocks /robots.txt itself', () => {
+    const blockAll = { userAgents: ['*'], rules: [{ allow: false, path: '/' }] }
+    expect(isPathAllowed(blockAll, '/robots.txt')).toBe(true)
+  })
+})
+
+describe('createRobotsChecker', () => {
+  let fetchSpy: ReturnType<typeof vi.spyOn>
+
+  beforeEach(() => {
+    fetchSpy = vi.spyOn(globalThis, 'fetch')
+  })
+
+  afterEach(() => {
+    fetchSpy.mockRestore()
+  })
+
+  it('fetches robots.txt once per origin', async () => {
+    fetchSpy.mockResolvedValue(
+      new Response('User-agent: *\nDisallow: /admin\nCrawl-delay: 1'),
+    )
+    const checker = createRobotsChecker(SETTINGS)
+
+    const [admin, home] = await Promise.all([
+      checker.check('https://example.com/admin/users'),
+      checker.check('https://example.com/'),
+    ])
+
+    expect(admin).toEqual({ allowed: false, crawlDelay: 1 })
+    expect(home).toEqual({ allowed: true, crawlDelay: 1 })
+    expect(fetchSpy).toHaveBeenCalledTimes(1)
+    expect(String(fetchSpy.mock.calls[0]?.[0])).toBe(
+      'https://example.com/robots.txt',
+    )
+  })
+
+  it('matches the configured user-agent', async () => {
+    fetchSpy.mockImplementation(
+      async () =>
+        new Response(
+          'User-agent: mybot\nDisallow: /\n\nUser-agent: *\nAllow: /',
+        ),
+    )
+
+    const mine = await createRobotsChecker(SETTINGS, 'MyBot').check(
+      'https://example.com/page',
+    )
+    const other = await createRobotsChecker(SETTINGS).check(
+      'https://example.com/page',
+    )
+
+    expect(mine.allowed).toBe(false)
+    expect(other.allowed).toBe(true)
+  })
+
+  it('allows everything when robots.txt is missing', async () => {
+    fetchSpy.mockResolvedValue(new Response('not found', { status: 404 }))
+    const verdict = await createRobotsChecker(SETTINGS).check(
+      'https://example.com/page',
+    )
+    expect(verdict.allowed).toBe(true)
+  })
+
+  it('disallows everything when robots.txt is unreachable', async () => {
+    fetchSpy.mockRejectedValue(new Error('connection refused'))
+    const verdict = await createRobotsChecker(SETTINGS).check(
+      'https://example.com/page',
+    )
+    expect(verdict.allowed).toBe(false)
+  })
+})
@@ -0,0 +1,101 @@
+import { mkdtemp, rm, writeFile } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { afterEach, beforeEach, describe, expect, it } from 'vitest'
+import { CONFIG_FILE, DEFAULT_CONFIG, loadServerConfig } from '../server-config'
+
+let cwd: string
+
+beforeEach(async () => {
+  cwd = await mkdtemp(join(tmpdir(), 'url-tools-config-'))
+})
+
+afterEach(async () => {
+  await rm(cwd, { recursive: true, force: true })
+})
+
+function writeConfig(value: unknown, name = CONFIG_FILE) {
+  return writeFile(join(cwd, name), JSON.stringify(value), 'utf8')
+}
+
+describe('loadServerConfig', () => {
+  it('uses the built-in defaults without a config file', () => {
+    expect(loadServerConfig({ cwd, env: {} })).toEqual({
+      ...DEFAULT_CONFIG,
+      output: { ...DEFAULT_CONFIG.output, dir: join(cwd, 'output') },
+    })
+  })
+
+  it('merges the config file over the defaults', async () => {
+    await writeConfig({
+      requestDefaults: { timeout: 60 },
+      limits: { maxUrls: { checkLinks: 2000 } },
+      domains: { deny: [' Example.org '] },
+      output: { dir: 'results', folders: { images: 'img' } },
+    })
+    const config = loadServerConfig({ cwd, env: {} })
+
+    expect(config.requestDefaults).toEqual({
+      ...DEFAULT_CONFIG.requestDefaults,
+      timeout: 60,
+    })
+    expect(config.limits.maxUrls).toEqual({
+      ...DEFAULT_CONFIG.limits.maxUrls,
+      checkLinks: 2000,
+    })
+    expect(config.domains).toEqual({ allow: [], deny: ['example.org'] })
+    expect(config.output.dir).toBe(join(cwd, 'results'))
+    expect(config.output.folders.images).toBe('img')
+    expect(config.output.folders.scraper).toBe('scraper')
+  })
+
+  it('lets environment variables override the file', async () => {
+    await writeConfig({ requestDefaults: { timeout: 60 } }, 'custom.json')
+    const config = loadServerConfig({
+      cwd,
+      env: {
+        URL_TOOLS_CONFIG: 'custom.json',
+        URL_TOOLS_TIMEOUT: '90',
+        URL_TOOLS_RETRIES: '0',
+        URL_TOOLS_DENY_DOMAINS: 'a.example, b.example',
+        OUTPUT_DIR: '/tmp/url-tools-out',
+      },
+    })
+
+    expect(config.requestDefaults.timeout).toBe(90)
+    expect(config.requestDefaults.retries).toBe(0)
+    expect(config.domains.deny).toEqual(['a.example', 'b.example'])
+    expect(config.output.dir).toBe('/tmp/url-tools-out')
+  })
+
+  it('rejects unknown keys and invalid values', async () => {
+    await writeConfig({ limits: { maxUrl: 10 } })
+    expect(() => loadServerConfig({ cwd, env: {} })).toThrow(
+      'unknown key limits.maxUrl',
+    )
+
+    await writeConfig({ limits: { maxBodySize: -1 } })
+    expect(() => loadServerConfig({ cwd, env: {} })).toThrow(
+      'limits.maxBodySize must be a positive integer',
+    )
+
+    await writeConfig({ domains: { allow: 'example.com' } })
+    expect(() => loadServerConfig({ cwd, env: {} })).toThrow(
+      'domains.allow must be an array of strings',
+    )
+
+    await writeConfig({})
+    expect(() =>
+      loadServerConfig({ cwd, env: { URL_TOOLS_TIMEOUT: 'soon' } }),
+    ).toThrow('Invalid environment: requestDefaults.timeout')
+  })
+
+  it('fails when the named config file is missing or broken', async () => {
+    expect(() =>
+      loadServerConfig({ cwd, env: { URL_TOOLS_CONFIG: 'missing.json' } }),
+    ).toThrow(`Cannot read ${join(cwd, 'missing.json')}`)
+
+    await writeFile(join(cwd, CONFIG_FILE), '{ "limits": ', 'utf8')
+    expect(() => loadServerConfig({ cwd, env: {} })).toThrow('Cannot read')
+  })
+})
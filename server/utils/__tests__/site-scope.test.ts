@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest'
+import { getRegistrableDomain, isInScope } from '../site-scope'
+
+describe('getRegistrableDomain', () => {
+  it('keeps the last two labels for ordinary TLDs', () => {
+    expect(getRegistrableDomain('www.example.com')).toBe('example.com')
+    expect(getRegistrableDomain('a.b.Example.DE')).toBe('example.de')
+    expect(getRegistrableDomain('example.com')).toBe('example.com')
+  })
+
+  it('keeps three labels under multi-label suffixes', () => {
+    expect(getRegistrableDomain('blog.example.co.uk')).toBe('example.co.uk')
+    expect(getRegistrableDomain('shop.example.com.au')).toBe('example.com.au')
+  })
+
+  it('treats tenants of private suffixes as separate sites', () => {
+    expect(getRegistrableDomain('docs.a.github.io')).toBe('a.github.io')
+    expect(getRegistrableDomain('app.herokuapp.com')).toBe('app.herokuapp.com')
+    expect(getRegistrableDomain('bucket.s3.amazonaws.com')).toBe(
+      'bucket.s3.amazonaws.com',
+    )
+    expect(getRegistrableDomain('github.io')).toBe('github.io')
+  })
+
+  it('returns IPs and single-label hosts unchanged', () => {
+    expect(getRegistrableDomain('192.168.1.10')).toBe('192.168.1.10')
+    expect(getRegistrableDomain('localhost')).toBe('localhost')
+  })
+})
+
+describe('isInScope', () => {
+  it('only accepts the exact host by default', () => {
+    expect(isInScope('www.example.com', 'WWW.example.com')).toBe(true)
+    expect(isInScope('www.example.com', 'blog.example.com')).toBe(false)
+    expect(
+      isInScope('www.example.com', 'blog.example.com', { mode: 'host' }),
+    ).toBe(false)
+  })
+
+  it('accepts all subdomains in domain mode', () => {
+    const scope = { mode: 'domain' as const }
+    expect(isInScope('www.example.com', 'blog.example.com', scope)).toBe(true)
+    expect(isInScope('www.example.com', 'example.com', scope)).toBe(true)
+    expect(isInScope('www.example.com', 'example.org', scope)).toBe(false)
+    expect(isInScope('a.co.uk', 'b.co.uk', scope)).toBe(false)
+    expect(isInScope('a.github.io', 'b.github.io', scope)).toBe(false)
+    expect(isInScope('a.github.io', 'docs.a.github.io', scope)).toBe(true)
+  })
+
+  it('accepts listed hosts and wildcards in hosts mode', () => {
+    const scope = {
+      mode: 'hosts' as const,
+      hosts: ['shop.example.net', '*.example.com'],
+    }
+    expect(isInScope('www.example.com', 'shop.example.net', scope)).toBe(true)
+    expect(isInScope('www.example.com', 'docs.example.com', scope)).toBe(true)
+    expect(isInScope('www.example.com', 'example.com', scope)).toBe(true)
+    expect(isInScope('www.example.com', 'other.example.net', scope)).toBe(false)
+  })
+})
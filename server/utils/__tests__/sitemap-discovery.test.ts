@@ -0,0 +1,94 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import {
+  discoverSitemaps,
+  isSiteInput,
+  parseSitemapInput,
+  resolveSitemapInput,
+} from '../sitemap-discovery'
+
+const SETTINGS = { timeout: 30, retries: 0 }
+
+/** Answers fetches from a path → response map; everything else is a 404 */
+function serve(pages: Record<string, () => Response>) {
+  vi.mocked(fetch).mockImplementation(async (input) => {
+    const path = new URL(String(input)).pathname
+    return pages[path]?.() ?? new Response('Not found', { status: 404 })
+  })
+}
+
+describe('parseSitemapInput', () => {
+  it('adds https:// to a bare domain and tells sites from sitemap files', () => {
+    const site = parseSitemapInput(' example.com ')
+    expect(site?.href).toBe('https://example.com/')
+    expect(site && isSiteInput(site)).toBe(true)
+
+    const file = parseSitemapInput('http://example.com/sitemap.xml')
+    expect(file && isSiteInput(file)).toBe(false)
+    expect(parseSitemapInput('ftp://example.com/')).toBeNull()
+  })
+})
+
+describe('discoverSitemaps', () => {
+  beforeEach(() => {
+    vi.stubGlobal('fetch', vi.fn())
+  })
+  afterEach(() => {
+    vi.unstubAllGlobals()
+  })
+
+  it('uses every Sitemap line of robots.txt', async () => {
+    serve({
+      '/robots.txt': () =>
+        new Response(
+          'User-agent: *\nDisallow:\nSitemap: https://example.com/a.xml\nSitemap: /b.xml.gz\nSitemap: http://127.0.0.1/c.xml\n',
+        ),
+    })
+
+    expect(await discoverSitemaps('https://example.com', SETTINGS)).toEqual([
+      { url: 'https://example.com/a.xml', method: 'robots' },
+      { url: 'https://example.com/b.xml.gz', method: 'robots' },
+    ])
+  })
+
+  it('probes common paths and skips HTML soft 404s', async () => {
+    serve({
+      '/sitemap.xml': () =>
+        new Response('<html>Home</html>', {
+          headers: { 'content-type': 'text/html' },
+        }),
+      '/wp-sitemap.xml': () =>
+        new Response('<sitemapindex/>', {
+          headers: { 'content-type': 'application/xml' },
+        }),
+    })
+
+    expect(await discoverSitemaps('https://example.com', SETTINGS)).toEqual([
+      { url: 'https://example.com/wp-sitemap.xml', method: 'cms' },
+    ])
+  })
+
+  it('returns nothing when no sitemap exists', async () => {
+    serve({})
+    expect(await discoverSitemaps('https://example.com', SETTINGS)).toEqual([])
+  })
+})
+
+describe('resolveSitemapInput', () => {
+  it('passes a sitemap URL through without fetching anything', async () => {
+    const fetchSpy = vi.spyOn(globalThis, 'fetch')
+    expect(
+      await resolveSitemapInput('https://example.com/news.xml', SETTINGS),
+    ).toEqual([{ url: 'https://example.com/news.xml', method: 'input' }])
+    expect(fetchSpy).not.toHaveBeenCalled()
+    fetchSpy.mockRestore()
+  })
+
+  it('rejects invalid and blocked input', async () => {
+    await expect(resolveSitemapInput('not a url', SETTINGS)).rejects.toThrow(
+      'Invalid URL',
+    )
+    await expect(
+      resolveSitemapInput('http://127.0.0.1/sitemap.xml', SETTINGS),
+    ).rejects.toThrow('blocked by SSRF protection')
+  })
+})
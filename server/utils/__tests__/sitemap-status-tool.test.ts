@@ -0,0 +1,209 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import type { CrawlSink } from '../crawl-engine'
+import {
+  prepareSitemapStatus,
+  type SitemapStatusResult,
+  sitemapStatusIssues,
+} from '../sitemap-status-tool'
+
+const SOURCE = 'https://example.com/sitemap.xml'
+
+function html(head: string): () => Response {
+  return () =>
+    new Response(`<html><head>${head}</head><body>Page</body></html>`, {
+      headers: { 'content-type': 'text/html' },
+    })
+}
+
+const PAGES: Record<string, () => Response> = {
+  '/ok': html('<link rel="canonical" href="/ok">'),
+  '/old': () =>
+    new Response(null, {
+      status: 301,
+      headers: { location: 'https://example.com/ok' },
+    }),
+  '/gone': () => new Response('Not found', { status: 404 }),
+  '/hidden': html('<meta name="robots" content="noindex, follow">'),
+  '/variant': html('<link rel="canonical" href="https://example.com/ok#top">'),
+  '/file.pdf': () =>
+    new Response('%PDF', {
+      headers: {
+        'content-type': 'application/pdf',
+        'x-robots-tag': 'googlebot: noindex, none',
+      },
+    }),
+}
+
+describe('sitemapStatusIssues', () => {
+  const clean = {
+    loc: 'https://example.com/a',
+    status: 200,
+    redirects: '200',
+    finalUrl: 'https://example.com/a',
+    finalStatus: 200,
+    robots: null,
+    canonical: 'https://example.com/a',
+  }
+
+  it('finds nothing wrong with an indexable, self-canonical 200', () => {
+    expect(sitemapStatusIssues(clean, ['index', 'follow'])).toEqual([])
+  })
+
+  it('reports a redirect to an error page twice', () => {
+    expect(
+      sitemapStatusIssues({
+        ...clean,
+        status: 302,
+        redirects: '302 → 410',
+        finalStatus: 410,
+        canonical: null,
+      }),
+    ).toEqual(['non-200', 'redirect'])
+  })
+
+  it('treats none as noindex and compares canonicals normalized', () => {
+    expect(
+      sitemapStatusIssues(
+        { ...clean, canonical: 'HTTPS://EXAMPLE.COM/a#main' },
+        ['none'],
+      ),
+    ).toEqual(['noindex'])
+  })
+
+  it('only reports the failure when the request failed', () => {
+    expect(
+      sitemapStatusIssues({ ...clean, status: 0, error: 'timeout' }),
+    ).toEqual(['error'])
+  })
+})
+
+describe('prepareSitemapStatus', () => {
+  beforeEach(() => {
+    vi.stubGlobal('fetch', vi.fn())
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+    vi.unstubAllGlobals()
+  })
+
+  it('validates the entries', async () => {
+    await expect(
+      prepareSitemapStatus({ entries: 'x' as unknown as [] }),
+    ).rejects.toThrow('entries array required')
+    await expect(
+      prepareSitemapStatus({ entries: [{ loc: 'http://127.0.0.1/' }] }),
+    ).rejects.toThrow('No valid URLs provided')
+  })
+
+  it('streams one result per entry from a single request per hop', async () => {
+    vi.mocked(fetch).mockImplementation(async (input, init) => {
+      const response =
+        PAGES[new URL(String(input)).pathname]?.() ??
+        new Response('Not found', { status: 404 })
+      return init?.method === 'HEAD'
+        ? new Response(null, {
+            status: response.status,
+            headers: response.headers,
+          })
+        : response
+    })
+
+    const events: { name: string; data: unknown }[] = []
+    const sink: CrawlSink = {
+      emit: (name, data) => events.push({ name, data }),
+      isClosed: () => false,
+    }
+    const run = await prepareSitemapStatus({
+      entries: [
+        '/ok',
+        '/old',
+        '/gone',
+        '/hidden',
+        '/variant',
+        '/file.pdf',
+        '/ok',
+      ].map((path) => ({ loc: `https://example.com${path}`, source: SOURCE })),
+      rateLimit: 1000,
+      robotsUserAgent: 'Googlebot',
+      settings: { timeout: 5, retries: 0 },
+    })
+    await run(sink)
+
+    // Entries are checked in parallel, so results come in completion order
+    const results = events
+      .filter((e) => e.name === 'result')
+      .map((e) => e.data as SitemapStatusResult)
+    const byPath = new Map(results.map((r) => [new URL(r.loc).pathname, r]))
+    expect(
+      [...byPath.values()].map((r) => [
+        new URL(r.loc).pathname,
+        r.redirects,
+        r.issues,
+      ]),
+    ).toEqual(
+      expect.arrayContaining([
+        ['/ok', '200', []],
+        ['/old', '301 → 200', ['redirect']],
+        ['/gone', '404', ['non-200']],
+        ['/hidden', '200', ['noindex']],
+        ['/variant', '200', ['canonicalized']],
+        ['/file.pdf', '200', ['noindex']],
+      ]),
+    )
+    expect(results).toHaveLength(6)
+    expect(byPath.get('/old')).toMatchObject({
+      status: 301,
+      finalUrl: 'https://example.com/ok',
+      canonical: 'https://example.com/ok',
+      source: SOURCE,
+    })
+    expect(byPath.get('/hidden')?.robots).toBe('noindex, follow')
+    expect(byPath.get('/file.pdf')?.robots).toBe('noindex, none')
+    // The page is read from the last hop, not fetched again
+    expect(fetch).toHaveBeenCalledTimes(7)
+    expect(
+      vi.mocked(fetch).mock.calls.every(([, init]) => init?.method === 'GET'),
+    ).toBe(true)
+    expect(events.find((e) => e.name === 'done')?.data).toEqual({
+      total: 6,
+      dirtyCount: 5,
+      counts: {
+        error: 0,
+        'non-200': 1,
+        redirect: 1,
+        noindex: 2,
+        canonicalized: 1,
+      },
+    })
+  })
+  it('settles at once when the run is closed', async () => {
+    vi.useFakeTimers()
+    vi.mocked(fetch).mockImplementation(async () => new Response('ok'))
+
+    let closed = false
+    const results: unknown[] = []
+    const sink: CrawlSink = {
+      emit: (name, data) => {
+        if (name !== 'result') return
+        results.push(data)
+        closed = true
+      },
+      isClosed: () => closed,
+    }
+    const run = await prepareSitemapStatus({
+      // At one request every 10 s the last entry would be due in 8 minutes
+      entries: Array.from({ length: 50 }, (_, i) => ({
+        loc: `https://example.com/${i}`,
+      })),
+      rateLimit: 0.1,
+      settings: { timeout: 5, retries: 0 },
+    })
+    const finished = run(sink)
+    await vi.advanceTimersByTimeAsync(1000)
+    await finished
+
+    expect(results).toHaveLength(1)
+    expect(fetch).toHaveBeenCalledTimes(1)
+  })
+})
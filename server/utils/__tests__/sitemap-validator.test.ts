@@ -0,0 +1,149 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { fetchSitemapUrls } from '../sitemap'
+import {
+  createSitemapValidator,
+  isValidPriority,
+  isW3cDatetime,
+} from '../sitemap-validator'
+
+const SETTINGS = { timeout: 30, retries: 0 }
+
+describe('isW3cDatetime', () => {
+  it('accepts every W3C Datetime granularity', () => {
+    for (const value of [
+      '2025',
+      '2025-06',
+      '2025-06-10',
+      '2025-06-10T04:00Z',
+      '2025-06-10T04:00:30+02:00',
+      '2025-06-10T04:00:30.45-05:00',
+      '2024-02-29',
+    ]) {
+      expect(isW3cDatetime(value), value).toBe(true)
+    }
+  })
+
+  it('rejects other formats and impossible dates', () => {
+    for (const value of [
+      '10.06.2025',
+      'Tue, 10 Jun 2025 04:00:00 GMT',
+      '2025-06-10T04:00',
+      '2025-06-10 04:00:00Z',
+      '2025-13-01',
+      '2025-02-29',
+      '2025-06-10T24:00Z',
+    ]) {
+      expect(isW3cDatetime(value), value).toBe(false)
+    }
+  })
+})
+
+describe('isValidPriority', () => {
+  it('accepts 0.0 to 1.0 only', () => {
+    expect(['0', '0.5', '1', '1.0', '.8'].every(isValidPriority)).toBe(true)
+    expect(['1.1', '-0.1', '2', 'high', ''].some(isValidPriority)).toBe(false)
+  })
+})
+
+describe('createSitemapValidator', () => {
+  beforeEach(() => {
+    vi.stubGlobal('fetch', vi.fn())
+  })
+  afterEach(() => {
+    vi.unstubAllGlobals()
+  })
+
+  function serve(pages: Record<string, string>) {
+    vi.mocked(fetch).mockImplementation(async (input) => {
+      const body = pages[new URL(String(input)).pathname]
+      return body === undefined
+        ? new Response('Not found', { status: 404 })
+        : new Response(body, { headers: { 'content-type': 'application/xml' } })
+    })
+  }
+
+  it('lists the issues of each file with counts', async () => {
+    serve({
+      '/index.xml': `<sitemapindex>
+        <sitemap><loc>https://example.com/a.xml</loc></sitemap>
+        <sitemap><loc>https://example.com/nested.xml</loc></sitemap>
+      </sitemapindex>`,
+      '/a.xml': `<urlset>
+        <url><loc>https://example.com/1</loc><lastmod>2025-06-10</lastmod><priority>0.8</priority></url>
+        <url><loc>https://example.com/2</loc><lastmod>10/06/2025</lastmod><priority>1.5</priority></url>
+        <url><loc>http://example.com/3</loc></url>
+        <url><loc>https://cdn.example.com/4</loc></url>
+      </urlset>`,
+      '/nested.xml': `<sitemapindex>
+        <sitemap><loc>https://example.com/b.xml</loc></sitemap>
+      </sitemapindex>`,
+      '/b.xml': `<urlset><url><loc>https://example.com/1</loc></url></urlset>`,
+    })
+
+    const validator = createSitemapValidator()
+    await fetchSitemapUrls('https://example.com/index.xml', SETTINGS, {
+      recursive: true,
+      onSitemapParsed: validator.onSitemapParsed,
+      onSitemapFailed: validator.onSitemapFailed,
+    })
+    const { files, issueCount } = validator.report()
+
+    expect(
+      files.map((file) => [file.url, file.format, file.urlCount, file.counts]),
+    ).toEqual([
+      ['https://example.com/index.xml', 'sitemapindex', 2, {}],
+      [
+        'https://example.com/a.xml',
+        'urlset',
+        4,
+        { 'invalid-lastmod': 1, 'invalid-priority': 1, 'foreign-url': 2 },
+      ],
+      [
+        'https://example.com/nested.xml',
+        'sitemapindex',
+        1,
+        { 'nested-index': 1 },
+      ],
+      ['https://example.com/b.xml', 'urlset', 1, { 'duplicate-loc': 1 }],
+    ])
+    expect(files[3]?.issues).toEqual([
+      {
+        type: 'duplicate-loc',
+        message: 'Also listed in https://example.com/a.xml',
+        loc: 'https://example.com/1',
+      },
+    ])
+    expect(issueCount).toBe(6)
+  })
+
+  it('reports unreadable and oversized files', async () => {
+    serve({
+      '/big.xml': `<urlset>${'<url><loc>https://example.com/</loc></url>'.repeat(50)}</urlset>`,
+      '/page.xml': '<html><body>Not here</body></html>',
+    })
+    vi.mocked(fetch).mockRejectedValueOnce(new Error('ECONNRESET'))
+
+    const validator = createSitemapValidator(1000)
+    await fetchSitemapUrls(
+      [
+        'https://example.com/down.xml',
+        'https://example.com/big.xml',
+        'https://example.com/page.xml',
+      ],
+      SETTINGS,
+      {
+        maxBodySize: 1000,
+        onSitemapParsed: validator.onSitemapParsed,
+        onSitemapFailed: validator.onSitemapFailed,
+      },
+    )
+
+    expect(
+      validator.report().files.map((file) => [file.url, file.issues[0]?.type]),
+    ).toEqual([
+      ['https://example.com/down.xml', 'fetch-failed'],
+      ['https://example.com/big.xml', 'too-large'],
+      ['https://example.com/page.xml', 'not-a-sitemap'],
+    ])
+  })
+})
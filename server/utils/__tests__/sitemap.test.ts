@@ -1,7 +1,9 @@
+import { gzipSync } from 'node:zlib'
 import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
-import { fetchSitemapUrls } from '../sitemap'
+import { fetchSitemapUrls, parseSitemap } from '../sitemap'
 
 const SETTINGS = { timeout: 30, retries: 0 }
+const SOURCE = 'https://example.com/sitemap.txt'
 
 function xmlResponse(body: string): Response {
   return new Response(body, {
@@ -201,3 +203,207 @@ describe('fetchSitemapUrls', () => {
     expect(result.entries).toHaveLength(1)
   })
 })
+
+describe('parseSitemap', () => {
+
+  it('reads a plain-text sitemap, skipping blank and invalid lines', () => {
+    const result = parseSitemap(
+      '\uFEFFhttps://example.com/a\r\n\n# comment\nftp://example.com/x\nhttps://example.com/b\nhttps://example.com/a\n',
+      SOURCE,
+    )
+    expect(result.format).toBe('text')
+    expect(result.entries).toEqual([
+      { loc: 'https://example.com/a', source: SOURCE },
+      { loc: 'https://example.com/b', source: SOURCE },
+    ])
+  })
+
+  it('reads RSS items with pubDate as lastmod', () => {
+    const result = parseSitemap(
+      `<?xml version="1.0"?>
+<rss version="2.0" xmlns:atom="http://www.w3.org/2005/Atom"><channel>
+  <link>https://example.com/</link>
+  <atom:link href="https://example.com/feed" rel="self"/>
+  <item><link>https://example.com/post-1</link><pubDate>Tue, 10 Jun 2025 04:00:00 GMT</pubDate></item>
+  <item><link>/post-2</link></item>
+</channel></rss>`,
+      'https://example.com/feed',
+    )
+    expect(result.format).toBe('rss')
+    expect(result.entries).toEqual([
+      {
+        loc: 'https://example.com/post-1',
+        lastmod: '2025-06-10T04:00:00.000Z',
+        source: 'https://example.com/feed',
+      },
+      {
+        loc: 'https://example.com/post-2',
+        lastmod: undefined,
+        source: 'https://example.com/feed',
+      },
+    ])
+  })
+
+  it('reads the alternate link and updated date of Atom entries', () => {
+    const result = parseSitemap(
+      `<feed xmlns="http://www.w3.org/2005/Atom">
+  <link href="https://example.com/"/>
+  <entry>
+    <link rel="edit" href="https://example.com/edit/1"/>
+    <link href="https://example.com/post-1"/>
+    <updated>2025-06-10T04:00:00Z</updated>
+  </entry>
+</feed>`,
+      'https://example.com/atom.xml',
+    )
+    expect(result.format).toBe('atom')
+    expect(result.entries.map((e) => [e.loc, e.lastmod])).toEqual([
+      ['https://example.com/post-1', '2025-06-10T04:00:00.000Z'],
+    ])
+    expect(result.childSitemaps).toEqual([])
+  })
+})
+
+describe('parseSitemapXml extensions', () => {
+  it('reads image, video, news and hreflang alternates', () => {
+    const { entries } = parseSitemap(
+      `<?xml version="1.0" encoding="UTF-8"?>
+<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9"
+  xmlns:image="http://www.google.com/schemas/sitemap-image/1.1"
+  xmlns:video="http://www.google.com/schemas/sitemap-video/1.1"
+  xmlns:news="http://www.google.com/schemas/sitemap-news/0.9"
+  xmlns:xhtml="http://www.w3.org/1999/xhtml">
+  <url>
+    <loc>https://example.com/en/shoes</loc>
+    <xhtml:link rel="alternate" hreflang="de" href="https://example.com/de/schuhe"/>
+    <xhtml:link rel="alternate" hreflang="x-default" href="https://example.com/en/shoes"/>
+    <image:image><image:loc>https://example.com/shoe.jpg</image:loc><image:caption>Red shoe</image:caption></image:image>
+    <image:image><image:loc>https://example.com/shoe-2.jpg</image:loc></image:image>
+    <video:video>
+      <video:thumbnail_loc>https://example.com/thumb.jpg</video:thumbnail_loc>
+      <video:title>Unboxing</video:title>
+      <video:description>Shoes out of the box</video:description>
+      <video:content_loc>https://example.com/unboxing.mp4</video:content_loc>
+      <video:duration>120</video:duration>
+    </video:video>
+    <news:news>
+      <news:publication><news:name>Shoe News</news:name><news:language>en</news:language></news:publication>
+      <news:publication_date>2025-06-10</news:publication_date>
+      <news:title>New shoes</news:title>
+    </news:news>
+  </url>
+  <url><loc>https://example.com/plain</loc></url>
+</urlset>`,
+      SOURCE,
+    )
+
+    expect(entries[0]).toMatchObject({
+      loc: 'https://example.com/en/shoes',
+      images: [
+        { loc: 'https://example.com/shoe.jpg', caption: 'Red shoe' },
+        { loc: 'https://example.com/shoe-2.jpg' },
+      ],
+      videos: [
+        {
+          thumbnailLoc: 'https://example.com/thumb.jpg',
+          title: 'Unboxing',
+          description: 'Shoes out of the box',
+          contentLoc: 'https://example.com/unboxing.mp4',
+          duration: '120',
+        },
+      ],
+      news: {
+        publicationName: 'Shoe News',
+        publicationLanguage: 'en',
+        publicationDate: '2025-06-10',
+        title: 'New shoes',
+      },
+      alternates: [
+        { hreflang: 'de', href: 'https://example.com/de/schuhe' },
+        { hreflang: 'x-default', href: 'https://example.com/en/shoes' },
+      ],
+    })
+    expect(JSON.parse(JSON.stringify(entries[1]))).toEqual({
+      loc: 'https://example.com/plain',
+      source: SOURCE,
+    })
+  })
+
+  it('follows the declared prefix of an extension namespace', () => {
+    const { entries } = parseSitemap(
+      `<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9"
+  xmlns:img="http://www.google.com/schemas/sitemap-image/1.1">
+  <url><loc>https://example.com/</loc><img:image><img:loc>https://example.com/a.png</img:loc></img:image></url>
+</urlset>`,
+      SOURCE,
+    )
+    expect(entries[0]?.images).toEqual([
+      { loc: 'https://example.com/a.png', title: undefined, caption: undefined },
+    ])
+  })
+})
+
+describe('fetchSitemapUrls with compressed sitemaps', () => {
+  let fetchSpy: ReturnType<typeof vi.spyOn>
+
+  beforeEach(() => {
+    fetchSpy = vi.spyOn(globalThis, 'fetch')
+  })
+  afterEach(() => {
+    fetchSpy.mockRestore()
+  })
+
+  function gzipResponse(body: string): Response {
+    return new Response(gzipSync(body), {
+      status: 200,
+      headers: { 'content-type': 'application/x-gzip' },
+    })
+  }
+
+  it('gunzips a .gz sitemap sniffed by its magic bytes', async () => {
+    fetchSpy.mockResolvedValueOnce(
+      gzipResponse(mkUrlset('https://example.com/a', 'https://example.com/b')),
+    )
+    const result = await fetchSitemapUrls(
+      'https://example.com/sitemap.xml.gz',
+      SETTINGS,
+    )
+    expect(result.entries.map((e) => e.loc)).toEqual([
+      'https://example.com/a',
+      'https://example.com/b',
+    ])
+  })
+
+  it('applies maxBodySize to the decompressed size', async () => {
+    const urls = Array.from(
+      { length: 200 },
+      (_, i) => `https://example.com/page-${i}`,
+    )
+    const body = mkUrlset(...urls)
+    const compressed = gzipSync(body)
+    fetchSpy.mockResolvedValueOnce(gzipResponse(body))
+
+    const result = await fetchSitemapUrls(
+      'https://example.com/sitemap.xml.gz',
+      SETTINGS,
+      { maxBodySize: compressed.length * 2 },
+    )
+    expect(compressed.length * 2).toBeLessThan(body.length)
+    expect(result.entries).toHaveLength(0)
+    expect(result.sitemapsFetched).toBe(1)
+  })
+
+  it('follows a gzipped child sitemap from a plain index', async () => {
+    fetchSpy
+      .mockResolvedValueOnce(
+        xmlResponse(mkIndex('https://example.com/sitemap-1.xml.gz')),
+      )
+      .mockResolvedValueOnce(gzipResponse('https://example.com/a\n'))
+    const result = await fetchSitemapUrls(
+      'https://example.com/sitemap.xml',
+      SETTINGS,
+      { recursive: true },
+    )
+    expect(result.entries.map((e) => e.loc)).toEqual(['https://example.com/a'])
+  })
+})
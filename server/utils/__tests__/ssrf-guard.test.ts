@@ -0,0 +1,163 @@
+import { createServer, type Server } from 'node:http'
+import type { AddressInfo } from 'node:net'
+import {
+  afterAll,
+  afterEach,
+  beforeAll,
+  describe,
+  expect,
+  it,
+  vi,
+} from 'vitest'
+import {
+  assertAllowedTarget,
+  blockedCause,
+  createGuardedAgent,
+  guardedLookup,
+  type HostResolver,
+  resolveAllowedAddresses,
+} from '../ssrf-guard'
+
+// Local DNS stub: every name the tests use, nothing goes to a real resolver
+const ZONE: Record<string, string[]> = {
+  'public.test': ['93.184.216.34', '2606:2800:220:1::1'],
+  'internal.test': ['10.0.0.5'],
+  'rebind.test': ['93.184.216.34', '169.254.169.254'],
+  'mapped.test': ['::ffff:127.0.0.1'],
+  'site.test': ['127.0.0.1'],
+}
+
+const stubResolver: HostResolver = async (hostname) => {
+  const addresses = ZONE[hostname]
+  if (addresses) return addresses
+  throw Object.assign(new Error(`getaddrinfo ENOTFOUND ${hostname}`), {
+    code: 'ENOTFOUND',
+  })
+}
+
+afterEach(() => {
+  vi.unstubAllEnvs()
+})
+
+describe('resolveAllowedAddresses', () => {
+  it('returns the addresses of public hosts', async () => {
+    expect(await resolveAllowedAddresses('public.test', stubResolver)).toEqual(
+      ZONE['public.test'],
+    )
+  })
+
+  it('rejects a host when any of its addresses is blocked', async () => {
+    await expect(
+      resolveAllowedAddresses('internal.test', stubResolver),
+    ).rejects.toThrow(
+      'Blocked: internal.test resolves to a private or reserved address (10.0.0.5)',
+    )
+    await expect(
+      resolveAllowedAddresses('rebind.test', stubResolver),
+    ).rejects.toThrow('169.254.169.254')
+    await expect(
+      resolveAllowedAddresses('mapped.test', stubResolver),
+    ).rejects.toThrow('::ffff:127.0.0.1')
+    await expect(
+      resolveAllowedAddresses('[fd00::1]', stubResolver),
+    ).rejects.toThrow('Blocked: fd00::1 is a private or reserved address')
+  })
+})
+
+describe('assertAllowedTarget', () => {
+  it('leaves unresolvable names to the proxy', async () => {
+    await expect(
+      assertAllowedTarget('http://only-at-proxy.test/', stubResolver),
+    ).resolves.toBeUndefined()
+    await expect(
+      assertAllowedTarget('http://internal.test/', stubResolver),
+    ).rejects.toThrow('Blocked: internal.test')
+  })
+})
+
+describe('guardedLookup', () => {
+  const lookup = guardedLookup(stubResolver)
+
+  function run(hostname: string, options: { all?: boolean; family?: number }) {
+    return new Promise((resolve, reject) => {
+      lookup(hostname, options, (error, address, family) =>
+        error ? reject(error) : resolve({ address, family }),
+      )
+    })
+  }
+
+  it('answers in the format net.connect asks for', async () => {
+    expect(await run('public.test', {})).toEqual({
+      address: '93.184.216.34',
+      family: 4,
+    })
+    expect(await run('public.test', { family: 6 })).toEqual({
+      address: '2606:2800:220:1::1',
+      family: 6,
+    })
+    expect(await run('public.test', { all: true })).toEqual({
+      address: [
+        { address: '93.184.216.34', family: 4 },
+        { address: '2606:2800:220:1::1', family: 6 },
+      ],
+      family: undefined,
+    })
+  })
+
+  it('fails blocked hosts', async () => {
+    const error = await run('internal.test', {}).catch((e) => e)
+    expect(blockedCause(error)).toBe(error)
+  })
+})
+
+describe('createGuardedAgent', () => {
+  let server: Server
+  let origin: string
+  const agent = createGuardedAgent(stubResolver)
+
+  beforeAll(async () => {
+    server = createServer((req, res) => {
+      if (req.url === '/to-internal') {
+        res.writeHead(302, { location: 'http://internal.test/' }).end()
+        return
+      }
+      res.end('ok')
+    })
+    await new Promise<void>((r) => server.listen(0, '127.0.0.1', r))
+    origin = `http://site.test:${(server.address() as AddressInfo).port}`
+  })
+
+  afterAll(async () => {
+    server.close()
+    await agent.close()
+  })
+
+  it('refuses names that resolve to loopback', async () => {
+    const error = await fetch(`${origin}/`, { dispatcher: agent }).catch(
+      (e) => e,
+    )
+    expect(blockedCause(error)?.message).toContain(
+      'site.test resolves to a private or reserved address (127.0.0.1)',
+    )
+  })
+
+  it('refuses blocked IP literals', async () => {
+    const error = await fetch('http://169.254.169.254/latest/meta-data', {
+      dispatcher: agent,
+    }).catch((e) => e)
+    expect(blockedCause(error)?.message).toBe(
+      'Blocked: 169.254.169.254 is a private or reserved address',
+    )
+  })
+
+  it('connects to allowed ranges and checks every redirect hop', async () => {
+    vi.stubEnv('URL_TOOLS_ALLOW_CIDRS', '127.0.0.1/32')
+    const response = await fetch(`${origin}/`, { dispatcher: agent })
+    expect(await response.text()).toBe('ok')
+
+    const error = await fetch(`${origin}/to-internal`, {
+      dispatcher: agent,
+    }).catch((e) => e)
+    expect(blockedCause(error)?.message).toContain('internal.test')
+  })
+})
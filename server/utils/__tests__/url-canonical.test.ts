@@ -0,0 +1,71 @@
+import { describe, expect, it } from 'vitest'
+import { canonicalizeUrl } from '../url-canonical'
+
+describe('canonicalizeUrl', () => {
+  it('drops the fragment and trailing slash by default', () => {
+    expect(canonicalizeUrl('https://x.com/a/#top')).toBe('https://x.com/a')
+    expect(canonicalizeUrl('https://x.com/')).toBe('https://x.com/')
+  })
+
+  it('resolves relative URLs and rejects unparsable ones', () => {
+    expect(canonicalizeUrl('../b', {}, 'https://x.com/a/c')).toBe(
+      'https://x.com/b',
+    )
+    expect(canonicalizeUrl('not-a-url')).toBeNull()
+  })
+
+  it('strips params by name and by pattern', () => {
+    expect(
+      canonicalizeUrl('https://x.com/p?utm_source=a&GCLID=1&id=2', {
+        stripParams: ['gclid'],
+        stripParamsPattern: '^utm_',
+      }),
+    ).toBe('https://x.com/p?id=2')
+    expect(
+      canonicalizeUrl('https://x.com/p?utm_source=a', {
+        stripParamsPattern: '^utm_',
+      }),
+    ).toBe('https://x.com/p')
+  })
+
+  it('sorts params and lowercases the path on request', () => {
+    expect(
+      canonicalizeUrl('https://X.com/Blog?b=2&a=1', {
+        sortParams: true,
+        lowercasePath: true,
+      }),
+    ).toBe('https://x.com/blog?a=1&b=2')
+  })
+
+  it('applies the trailing-slash policy', () => {
+    expect(canonicalizeUrl('https://x.com/a/', { trailingSlash: 'keep' })).toBe(
+      'https://x.com/a/',
+    )
+    expect(canonicalizeUrl('https://x.com/a', { trailingSlash: 'add' })).toBe(
+      'https://x.com/a/',
+    )
+    expect(
+      canonicalizeUrl('https://x.com/feed.xml', { trailingSlash: 'add' }),
+    ).toBe('https://x.com/feed.xml')
+  })
+
+  it('applies rewrites in order and skips ones that break the URL', () => {
+    const rules = {
+      rewrites: [
+        { pattern: '^http://', replacement: 'https://' },
+        { pattern: '//www\\.', replacement: '//' },
+        { pattern: '^https:', replacement: '' },
+      ],
+    }
+    expect(canonicalizeUrl('http://www.x.com/a', rules)).toBe('https://x.com/a')
+  })
+
+  it('ignores invalid and oversized patterns', () => {
+    expect(
+      canonicalizeUrl('https://x.com/p?a=1', {
+        stripParamsPattern: '(',
+        rewrites: [{ pattern: 'a'.repeat(201), replacement: '' }],
+      }),
+    ).toBe('https://x.com/p?a=1')
+  })
+})
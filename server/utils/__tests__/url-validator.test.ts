@@ -1,5 +1,10 @@
-import { describe, expect, it } from 'vitest'
-import { filterAllowedUrls, isAllowedUrl } from '../url-validator'
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import {
+  filterAllowedUrls,
+  isAllowedUrl,
+  isBlockedAddress,
+  parseCidrList,
+} from '../url-validator'
 
 describe('isAllowedUrl', () => {
   it('allows valid http URLs', () => {
@@ -19,12 +24,26 @@ describe('isAllowedUrl', () => {
     expect(isAllowedUrl('http://localhost')).toBe(false)
     expect(isAllowedUrl('http://localhost:3000')).toBe(false)
     expect(isAllowedUrl('http://127.0.0.1')).toBe(false)
-    // Note: http://[::1] is parsed by URL() with hostname '::1' but
-    // the brackets are part of the URL syntax, not the hostname
-    // The validator checks hostname === '::1' which matches
-    // However URL parsing may vary - test the actual behavior
-    expect(isAllowedUrl('http://[::1]')).toBe(true) // brackets make hostname '[::1]' not '::1'
+    expect(isAllowedUrl('http://127.1.2.3')).toBe(false)
+    expect(isAllowedUrl('http://[::1]')).toBe(false)
     expect(isAllowedUrl('http://sub.localhost')).toBe(false)
+    expect(isAllowedUrl('http://localhost.:8080')).toBe(false)
+  })
+
+  it('blocks decimal, octal and hex forms of blocked IPv4 addresses', () => {
+    expect(isAllowedUrl('http://2130706433/')).toBe(false)
+    expect(isAllowedUrl('http://0177.0.0.1/')).toBe(false)
+    expect(isAllowedUrl('http://0x7f.1/')).toBe(false)
+    expect(isAllowedUrl('http://0xa9fea9fe/')).toBe(false)
+  })
+
+  it('blocks private, link-local and IPv4-mapped IPv6 addresses', () => {
+    expect(isAllowedUrl('http://[fd12:3456::1]/')).toBe(false)
+    expect(isAllowedUrl('http://[fe80::1]/')).toBe(false)
+    expect(isAllowedUrl('http://[::ffff:127.0.0.1]/')).toBe(false)
+    expect(isAllowedUrl('http://[::ffff:a9fe:a9fe]/')).toBe(false)
+    expect(isAllowedUrl('http://[2606:4700::1111]/')).toBe(true)
+    expect(isAllowedUrl('http://[::ffff:8.8.8.8]/')).toBe(true)
   })
 
   it('blocks private IP ranges (10.x.x.x)', () => {
@@ -50,6 +69,12 @@ describe('isAllowedUrl', () => {
     expect(isAllowedUrl('http://0.0.0.0')).toBe(false)
   })
 
+  it('blocks carrier-grade NAT and multicast ranges', () => {
+    expect(isAllowedUrl('http://100.64.0.1')).toBe(false)
+    expect(isAllowedUrl('http://224.0.0.1')).toBe(false)
+    expect(isAllowedUrl('http://255.255.255.255')).toBe(false)
+  })
+
   it('returns false for invalid URLs', () => {
     expect(isAllowedUrl('')).toBe(false)
     expect(isAllowedUrl('not a url')).toBe(false)
@@ -81,3 +106,67 @@ describe('filterAllowedUrls', () => {
     expect(filterAllowedUrls([])).toEqual([])
   })
 })
+
+describe('configurable ranges', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs()
+  })
+
+  it('opens allowed ranges, but the deny list wins', () => {
+    vi.stubEnv('URL_TOOLS_ALLOW_CIDRS', '10.20.0.0/16, fd00::/8')
+    vi.stubEnv('URL_TOOLS_DENY_CIDRS', '10.20.30.0/24, 203.0.113.7')
+    expect(isAllowedUrl('http://10.20.1.1/')).toBe(true)
+    expect(isAllowedUrl('http://[fd00::5]/')).toBe(true)
+    expect(isAllowedUrl('http://10.20.30.1/')).toBe(false)
+    expect(isBlockedAddress('203.0.113.7')).toBe(true)
+    expect(isBlockedAddress('203.0.113.8')).toBe(false)
+  })
+
+  it('lets URL_TOOLS_ALLOW_LOCALHOST open loopback only', () => {
+    vi.stubEnv('URL_TOOLS_ALLOW_LOCALHOST', '1')
+    expect(isAllowedUrl('http://localhost:3000/')).toBe(true)
+    expect(isAllowedUrl('http://[::1]/')).toBe(true)
+    expect(isAllowedUrl('http://10.0.0.1/')).toBe(false)
+  })
+
+  it('fails closed on invalid entries', () => {
+    expect(() => parseCidrList('10.0.0.0/33', 'TEST')).toThrow(
+      'Invalid CIDR "10.0.0.0/33" in TEST',
+    )
+    vi.stubEnv('URL_TOOLS_ALLOW_CIDRS', 'not-a-cidr')
+    expect(isAllowedUrl('https://example.com/')).toBe(true)
+    expect(isAllowedUrl('http://8.8.8.8/')).toBe(false)
+  })
+})
+
+describe('domain policy', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs()
+  })
+
+  // The server config is read once, so load a fresh copy per policy
+  async function withDomains(env: Record<string, string>) {
+    for (const [name, value] of Object.entries(env)) vi.stubEnv(name, value)
+    vi.resetModules()
+    return (await import('../url-validator')).isAllowedUrl
+  }
+
+  it('refuses denied domains and their subdomains', async () => {
+    const allowed = await withDomains({ URL_TOOLS_DENY_DOMAINS: 'example.org' })
+    expect(allowed('https://example.org/')).toBe(false)
+    expect(allowed('https://www.example.org/')).toBe(false)
+    expect(allowed('https://notexample.org/')).toBe(true)
+  })
+
+  it('only allows listed domains when the allow list is set', async () => {
+    const allowed = await withDomains({
+      URL_TOOLS_ALLOW_DOMAINS: '*.example.com, 93.184.216.34',
+      URL_TOOLS_DENY_DOMAINS: 'private.example.com',
+    })
+    expect(allowed('https://example.com/')).toBe(true)
+    expect(allowed('https://blog.example.com/')).toBe(true)
+    expect(allowed('http://93.184.216.34/')).toBe(true)
+    expect(allowed('https://example.net/')).toBe(false)
+    expect(allowed('https://private.example.com/')).toBe(false)
+  })
+})
@@ -0,0 +1,35 @@
+import { describe, expect, it } from 'vitest'
+import { getServerConfig } from '../server-config'
+import { resolveUserAgent, USER_AGENT_PRESETS } from '../user-agents'
+
+describe('resolveUserAgent', () => {
+  it('uses the configured User-Agent when none or `default` is set', () => {
+    const fallback = getServerConfig().userAgents.fetch
+    expect(resolveUserAgent(undefined)).toBe(fallback)
+    expect(resolveUserAgent('  ')).toBe(fallback)
+    expect(resolveUserAgent('default')).toBe(fallback)
+  })
+
+  it('expands preset ids', () => {
+    expect(resolveUserAgent('googlebot-smartphone')).toBe(
+      USER_AGENT_PRESETS['googlebot-smartphone'],
+    )
+    expect(resolveUserAgent('bingbot')).toContain('bingbot/2.0')
+    expect(resolveUserAgent('toString')).toBe('toString')
+  })
+
+  it('passes custom strings through, including resolved ones', () => {
+    expect(resolveUserAgent(' MyBot/1.0 ')).toBe('MyBot/1.0')
+    const chrome = USER_AGENT_PRESETS['chrome-mobile']
+    expect(resolveUserAgent(resolveUserAgent('chrome-mobile'))).toBe(chrome)
+  })
+
+  it('rejects multi-line and overlong values', () => {
+    expect(() => resolveUserAgent('MyBot\r\nX-Injected: 1')).toThrow(
+      'Invalid user agent',
+    )
+    expect(() => resolveUserAgent('a'.repeat(513))).toThrow(
+      'Invalid user agent',
+    )
+  })
+})
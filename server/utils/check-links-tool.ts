@@ -0,0 +1,313 @@
+import { createError } from 'h3'
+import {
+  type CrawlContext,
+  type CrawlPolicyRequest,
+  type CrawlRun,
+  clampRequestSettings,
+  runCrawl,
+  type SkipReason,
+} from './crawl-engine'
+import {
+  checkDomain,
+  type DomainCheckResult,
+  type DomainStatus,
+} from './domain-checker'
+import type { RequestSettings } from './fetch-with-retry'
+import type { CacheStatus } from './http-cache'
+import {
+  extractLinks,
+  getCachedRedirectChain,
+  getRedirectChain,
+  isPageKind,
+  type LinkInfo,
+  type LinkKind,
+  type RedirectStep,
+  resolveLinkKinds,
+} from './link-analyzer'
+import { getServerConfig } from './server-config'
+import { isAllowedUrl } from './url-validator'
+
+export interface CheckLinksRequest extends CrawlPolicyRequest {
+  urls: string[]
+  recursive?: boolean
+  maxDepth?: number
+  maxUrls?: number
+  rateLimit?: number // Requests/second per host
+  sameDomainOnly?: boolean
+  externalOnly?: boolean
+  excludeDomains?: string[]
+  linkKinds?: LinkKind[] // Reference kinds to check (default: anchors)
+  settings?: RequestSettings
+}
+
+interface BrokenLinkResult {
+  sourceUrl: string
+  targetUrl: string
+  status: number
+  statusText: string
+  isBroken: boolean
+  isInternal: boolean
+  anchorText: string
+  kind: LinkKind
+  redirectHops?: RedirectStep[] // Every request made, incl. the final one
+  sourceCache?: CacheStatus // How the source page was fetched (cache on)
+  sourceEncoding?: string // Charset the source page was decoded with
+  error?: string
+  domainStatus?: DomainStatus
+  domainError?: string
+  skipReason?: SkipReason
+}
+
+function isExcludedDomain(url: string, patterns: string[]): boolean {
+  if (patterns.length === 0) return false
+  try {
+    const hostname = new URL(url).hostname.toLowerCase()
+    return patterns.some((pattern) => {
+      const p = pattern.toLowerCase().trim()
+      if (!p) return false
+      if (p.startsWith('*.')) {
+        const suffix = p.slice(2)
+        return hostname === suffix || hostname.endsWith(`.${suffix}`)
+      }
+      return hostname === p
+    })
+  } catch {
+    return false
+  }
+}
+
+/**
+ * Validates a broken-link check request and returns the crawl to run.
+ * Validation errors are thrown as h3 errors before any stream is opened.
+ */
+export async function prepareCheckLinks(
+  body: CheckLinksRequest,
+): Promise<CrawlRun> {
+  if (!body.urls || !Array.isArray(body.urls)) {
+    throw createError({
+      statusCode: 400,
+      message: 'urls array required',
+    })
+  }
+
+  const settings = clampRequestSettings(body.settings)
+  const maxUrls = Math.max(
+    body.maxUrls || getServerConfig().limits.maxUrls.checkLinks,
+    1,
+  )
+  const maxDepth = Math.min(Math.max(body.maxDepth || 1, 1), 5)
+  const rateLimit = Math.max(body.rateLimit || 5, 0.1)
+  const linkKinds = resolveLinkKinds(body.linkKinds)
+
+  return async (sink) => {
+    const results: BrokenLinkResult[] = []
+    const checkedLinks = new Set<string>()
+    // Shared DNS cache across all link checks for this request — dedupes
+    // lookups per hostname and between parallel batches.
+    const domainCache = new Map<string, Promise<DomainCheckResult>>()
+
+    sink.emit('log', {
+      message: `Starting broken link check with ${body.urls.length} seed URL(s)`,
+      type: 'info',
+    })
+
+    async function checkLink(
+      sourceUrl: string,
+      link: LinkInfo,
+      ctx: CrawlContext,
+    ): Promise<BrokenLinkResult | null> {
+      // Blocked links are reported, but never requested
+      if (!(await ctx.isAllowedByRobots(link.targetUrl))) {
+        return {
+          sourceUrl,
+          targetUrl: link.targetUrl,
+          status: 0,
+          statusText: 'Blocked by robots.txt',
+          isBroken: false,
+          isInternal: link.isInternal,
+          anchorText: link.anchorText,
+          kind: link.kind,
+          skipReason: 'robots',
+        }
+      }
+
+      let hostname: string | null = null
+      try {
+        hostname = new URL(link.targetUrl).hostname
+      } catch {}
+      const [redirectInfo, domainInfo] = await Promise.all([
+        // Checks still queued when the crawl stops are dropped
+        ctx.schedule(link.targetUrl, async () =>
+          ctx.isStopped()
+            ? null
+            : settings.cache === 'offline'
+              ? getCachedRedirectChain(link.targetUrl, settings)
+              : getRedirectChain(link.targetUrl, 5, settings.timeout * 1000, {
+                  ...settings,
+                  jar: ctx.cookieJar,
+                }),
+        ),
+        // DNS lookups would leave the cache too
+        link.isInternal || !hostname || settings.cache === 'offline'
+          ? Promise.resolve<DomainCheckResult>({ status: 'skipped' })
+          : checkDomain(hostname, domainCache),
+      ])
+      if (!redirectInfo) return null
+
+      const isBroken =
+        redirectInfo.finalStatus >= 400 || redirectInfo.finalStatus === 0
+      const statusText =
+        redirectInfo.error || httpStatusText(redirectInfo.finalStatus)
+
+      return {
+        sourceUrl,
+        targetUrl: link.targetUrl,
+        status: redirectInfo.finalStatus,
+        statusText,
+        isBroken,
+        isInternal: link.isInternal,
+        anchorText: link.anchorText,
+        kind: link.kind,
+        redirectHops: redirectInfo.chain,
+        error: redirectInfo.error,
+        domainStatus: domainInfo.status,
+        domainError: domainInfo.error,
+      }
+    }
+
+    const summary = await runCrawl(
+      sink,
+      {
+        seeds: body.urls,
+        settings,
+        recursive: body.recursive === true,
+        maxDepth,
+        sameDomainOnly: body.sameDomainOnly,
+        rateLimit,
+        respectRobots: body.respectRobots === true,
+        respectNofollow: body.respectNofollow === true,
+        render: body.render,
+        robotsUserAgent: body.robotsUserAgent,
+        canonical: body.canonical,
+        siteScope: body.siteScope,
+      },
+      {
+        async processPage({ item, html, cacheStatus, encoding }, ctx) {
+          const links = extractLinks(
+            html,
+            item.url,
+            body.canonical,
+            body.siteScope,
+          ).filter((link) => linkKinds.has(link.kind))
+
+          sink.emit('log', {
+            message: `Found ${links.length} links on ${item.url}`,
+            type: 'success',
+          })
+
+          // Filter links to check
+          const linksToCheck = links.filter((link) => {
+            const linkKey = `${item.url}|${link.targetUrl}`
+            if (checkedLinks.has(linkKey)) return false
+            checkedLinks.add(linkKey)
+            if (!isAllowedUrl(link.targetUrl)) return false
+            if (body.externalOnly && link.isInternal) return false
+            if (
+              body.excludeDomains?.length &&
+              isExcludedDomain(link.targetUrl, body.excludeDomains)
+            )
+              return false
+            return true
+          })
+
+          // Checks run in parallel across hosts; the scheduler paces each
+          // host and caps the requests in flight at parallelRequests
+          const capacity = Math.max(maxUrls - results.length, 0)
+          await Promise.all(
+            linksToCheck.slice(0, capacity).map(async (link) => {
+              const result = await checkLink(item.url, link, ctx)
+              if (!result || results.length >= maxUrls) return
+              result.sourceCache = cacheStatus
+              result.sourceEncoding = encoding
+              results.push(result)
+              sink.emit('result', result)
+            }),
+          )
+
+          if (results.length >= maxUrls) {
+            ctx.stop()
+            return
+          }
+
+          // Recursive crawling: add internal links to queue
+          for (const link of links) {
+            if (!isPageKind(link.kind)) continue
+            await ctx.follow(link.targetUrl, item, link.rel)
+          }
+        },
+        onSkipped(item, reason) {
+          if (item.depth > 0 || results.length >= maxUrls) return
+          // Seeds never reach processPage, so report them as their own row
+          const result: BrokenLinkResult = {
+            sourceUrl: item.url,
+            targetUrl: item.url,
+            status: 0,
+            statusText: 'Blocked by robots.txt',
+            isBroken: false,
+            isInternal: true,
+            anchorText: '',
+            kind: 'anchor',
+            skipReason: reason,
+          }
+          results.push(result)
+          sink.emit('result', result)
+        },
+      },
+    )
+
+    const brokenCount = results.filter((r) => r.isBroken).length
+    const skippedCount = results.filter((r) => r.skipReason).length
+    const okCount = results.length - brokenCount - skippedCount
+
+    sink.emit('done', {
+      totalLinks: results.length,
+      brokenCount,
+      okCount,
+      skippedCount,
+      visited: summary.visited,
+      cache: summary.cache,
+    })
+    sink.emit('log', {
+      message: `Check complete: ${results.length} links checked, ${brokenCount} broken, ${okCount} OK`,
+      type: 'success',
+    })
+  }
+}
+
+function httpStatusText(status: number): string {
+  const texts: Record<number, string> = {
+    0: 'Connection Failed',
+    200: 'OK',
+    201: 'Created',
+    204: 'No Content',
+    301: 'Moved Permanently',
+    302: 'Found',
+    303: 'See Other',
+    304: 'Not Modified',
+    307: 'Temporary Redirect',
+    308: 'Permanent Redirect',
+    400: 'Bad Request',
+    401: 'Unauthorized',
+    403: 'Forbidden',
+    404: 'Not Found',
+    405: 'Method Not Allowed',
+    408: 'Request Timeout',
+    410: 'Gone',
+    429: 'Too Many Requests',
+    500: 'Internal Server Error',
+    502: 'Bad Gateway',
+    503: 'Service Unavailable',
+    504: 'Gateway Timeout',
+  }
+  return texts[status] || `HTTP ${status}`
+}
@@ -0,0 +1,52 @@
+export interface CircuitBreakerOptions {
+  /** Consecutive failures after which a host is paused (default: 5) */
+  threshold?: number
+  /** How long a tripped host is paused, in ms (default: 30000) */
+  cooldownMs?: number
+  /** Called when a host trips; the caller pauses it (see `pauseHost`) */
+  onOpen?: (hostname: string, cooldownMs: number) => void
+}
+
+/**
+ * Counts consecutive failed requests per host. When a host reaches the
+ * threshold its counter is reset and `onOpen` fires, so a host that keeps
+ * failing is paused again after every `threshold` further failures.
+ */
+export interface CircuitBreaker {
+  recordSuccess: (url: string) => void
+  /** Returns true when this failure tripped the breaker */
+  recordFailure: (url: string) => boolean
+}
+
+function hostKey(url: string): string {
+  try {
+    return new URL(url).hostname.toLowerCase()
+  } catch {
+    return ''
+  }
+}
+
+export function createCircuitBreaker(
+  options: CircuitBreakerOptions = {},
+): CircuitBreaker {
+  const threshold = Math.max(1, options.threshold ?? 5)
+  const cooldownMs = Math.max(0, options.cooldownMs ?? 30000)
+  const failures = new Map<string, number>()
+
+  return {
+    recordSuccess(url) {
+      failures.delete(hostKey(url))
+    },
+    recordFailure(url) {
+      const host = hostKey(url)
+      const count = (failures.get(host) ?? 0) + 1
+      if (count < threshold) {
+        failures.set(host, count)
+        return false
+      }
+      failures.delete(host)
+      options.onOpen?.(host, cooldownMs)
+      return true
+    },
+  }
+}
@@ -0,0 +1,348 @@
+import * as cheerio from 'cheerio'
+import { createError } from 'h3'
+import { type CrawlRun, clampRequestSettings } from './crawl-engine'
+import type { RequestSettings } from './fetch-with-retry'
+import { createHostScheduler, type HostScheduler } from './host-scheduler'
+import {
+  extractLinks,
+  fetchRedirectChain,
+  formatRedirectChain,
+} from './link-analyzer'
+import { readResponseText } from './response-body'
+import { computeSimhash, hammingDistance } from './text-similarity'
+import { filterAllowedUrls } from './url-validator'
+import { resolveUserAgent } from './user-agents'
+
+export interface CloakingCheckRequest {
+  urls: string[]
+  /** Preset ids or custom strings (2-5); the first one is the baseline */
+  userAgents?: string[]
+  /** Requests per second per host, counting every redirect hop (default 2) */
+  rateLimit?: number
+  settings?: RequestSettings
+}
+
+/** What one page looked like to one user agent */
+export interface PageSnapshot {
+  title: string
+  description: string
+  canonical: string | null
+  /** Meta robots and X-Robots-Tag, joined */
+  robots: string | null
+  /** Absolute anchor targets, sorted and without duplicates */
+  links: string[]
+  contentHash: number
+}
+
+export interface CloakingProfile extends Omit<PageSnapshot, 'links'> {
+  /** As requested: preset id or custom string */
+  userAgent: string
+  status: number
+  /** e.g. "301 → 200" */
+  redirects: string
+  finalUrl: string
+  linkCount: number
+  error?: string
+}
+
+export type CloakingField =
+  | 'status'
+  | 'redirects'
+  | 'title'
+  | 'description'
+  | 'canonical'
+  | 'robots'
+  | 'links'
+  | 'content'
+
+/** Every field a diff can report, in the order diffs list them */
+export const CLOAKING_FIELDS: CloakingField[] = [
+  'status',
+  'redirects',
+  'title',
+  'description',
+  'canonical',
+  'robots',
+  'links',
+  'content',
+]
+
+/** How one profile differs from the baseline */
+export interface CloakingDiff {
+  userAgent: string
+  fields: CloakingField[]
+  /** Hamming distance of the content Simhashes (0-32) */
+  contentDistance: number
+  /** Links only this profile got (max. 50) */
+  linksAdded: string[]
+  /** Links only the baseline got (max. 50) */
+  linksRemoved: string[]
+}
+
+export interface CloakingCheckResult {
+  url: string
+  /** The baseline first, then the others in request order */
+  profiles: CloakingProfile[]
+  diffs: CloakingDiff[]
+  isDifferent: boolean
+}
+
+const DEFAULT_USER_AGENTS = ['chrome-desktop', 'googlebot-smartphone']
+const MAX_USER_AGENTS = 5
+const MAX_URLS = 500
+const MAX_LINK_DIFF = 50
+// Up to 3 bits are near duplicates (see `hammingDistance`); ads, dates and
+// session tokens shouldn't count as different content
+export const CONTENT_DISTANCE_THRESHOLD = 3
+
+const META_FIELDS = ['title', 'description', 'canonical', 'robots'] as const
+
+const EMPTY_SNAPSHOT: PageSnapshot = {
+  title: '',
+  description: '',
+  canonical: null,
+  robots: null,
+  links: [],
+  contentHash: 0,
+}
+
+/**
+ * Extracts the parts of a page that cloaking usually changes. Same content
+ * selection as the SEO audit's duplicate detection.
+ */
+export function snapshotPage(
+  html: string,
+  url: string,
+  robotsHeader: string | null = null,
+): PageSnapshot {
+  const $ = cheerio.load(html)
+
+  const href = $('link[rel="canonical"]').attr('href')?.trim()
+  let canonical: string | null = null
+  if (href) {
+    try {
+      canonical = new URL(href, url).href
+    } catch {
+      canonical = href
+    }
+  }
+
+  const robots =
+    [$('meta[name="robots"]').attr('content')?.trim(), robotsHeader?.trim()]
+      .filter(Boolean)
+      .join(', ') || null
+
+  const links = [
+    ...new Set(
+      extractLinks(html, url)
+        .filter((link) => link.kind === 'anchor')
+        .map((link) => link.targetUrl),
+    ),
+  ].sort()
+
+  const body = $('body').clone()
+  body
+    .find('script, style, nav, footer, header, noscript, svg, iframe, form')
+    .remove()
+
+  return {
+    title: $('title').first().text().trim(),
+    description: $('meta[name="description"]').attr('content')?.trim() || '',
+    canonical,
+    robots,
+    links,
+    contentHash: computeSimhash(body.text()),
+  }
+}
+
+/** Compares a profile's page with the baseline's */
+export function compareProfiles(
+  baseline: CloakingProfile & { links: string[] },
+  other: CloakingProfile & { links: string[] },
+): CloakingDiff {
+  const fields: CloakingField[] = []
+  if (baseline.status !== other.status || baseline.error !== other.error) {
+    fields.push('status')
+  }
+  if (baseline.redirects !== other.redirects) fields.push('redirects')
+
+  // A failed request has nothing to compare beyond that
+  if (baseline.error || other.error) {
+    return {
+      userAgent: other.userAgent,
+      fields,
+      contentDistance: 0,
+      linksAdded: [],
+      linksRemoved: [],
+    }
+  }
+
+  for (const field of META_FIELDS) {
+    if (baseline[field] !== other[field]) fields.push(field)
+  }
+
+  const baselineLinks = new Set(baseline.links)
+  const otherLinks = new Set(other.links)
+  const linksAdded = other.links.filter((link) => !baselineLinks.has(link))
+  const linksRemoved = baseline.links.filter((link) => !otherLinks.has(link))
+  if (linksAdded.length || linksRemoved.length) fields.push('links')
+
+  const contentDistance = hammingDistance(
+    baseline.contentHash,
+    other.contentHash,
+  )
+  if (contentDistance > CONTENT_DISTANCE_THRESHOLD) fields.push('content')
+
+  return {
+    userAgent: other.userAgent,
+    fields,
+    contentDistance,
+    linksAdded: linksAdded.slice(0, MAX_LINK_DIFF),
+    linksRemoved: linksRemoved.slice(0, MAX_LINK_DIFF),
+  }
+}
+
+/**
+ * Requests `url` as one user agent, following the redirect chain hop by hop
+ * through the scheduler; the page is read from the last hop. Failures
+ * become a profile with `error` and status 0.
+ */
+async function fetchProfile(
+  url: string,
+  userAgent: string,
+  settings: RequestSettings,
+  scheduler: HostScheduler,
+): Promise<CloakingProfile & { links: string[] }> {
+  const { response, ...chain } = await fetchRedirectChain(url, 10, {
+    ...settings,
+    userAgent: resolveUserAgent(userAgent),
+    schedule: scheduler.schedule,
+  })
+  const redirects = formatRedirectChain(chain.chain)
+
+  try {
+    if (!response) throw new Error(chain.error ?? 'No response')
+    const { finalUrl } = chain
+    const isHtml = /html/i.test(response.headers.get('content-type') ?? '')
+    const snapshot = isHtml
+      ? snapshotPage(
+          (await readResponseText(response)).text,
+          finalUrl,
+          response.headers.get('x-robots-tag'),
+        )
+      : EMPTY_SNAPSHOT
+    if (!isHtml) await response.body?.cancel().catch(() => {})
+
+    return {
+      userAgent,
+      status: response.status,
+      redirects,
+      finalUrl,
+      ...snapshot,
+      linkCount: snapshot.links.length,
+    }
+  } catch (error) {
+    return {
+      userAgent,
+      status: 0,
+      redirects,
+      finalUrl: chain.finalUrl,
+      ...EMPTY_SNAPSHOT,
+      linkCount: 0,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    }
+  }
+}
+
+/**
+ * Validates a cloaking check request and returns the run. Every URL is
+ * fetched once per user agent, each request paced per host by the rate
+ * limit; the first user agent is the baseline the others are diffed
+ * against.
+ */
+export async function prepareCloakingCheck(
+  body: CloakingCheckRequest,
+): Promise<CrawlRun> {
+  if (!body.urls || !Array.isArray(body.urls)) {
+    throw createError({ statusCode: 400, message: 'urls array required' })
+  }
+  const urls = filterAllowedUrls(body.urls).slice(0, MAX_URLS)
+  if (urls.length === 0) {
+    throw createError({ statusCode: 400, message: 'No valid URLs provided' })
+  }
+
+  const requested = Array.isArray(body.userAgents)
+    ? body.userAgents
+    : DEFAULT_USER_AGENTS
+  // Two entries that send the same header would only ever match
+  const seen = new Set<string>()
+  const userAgents = requested.filter((userAgent) => {
+    const header = resolveUserAgent(userAgent)
+    if (seen.has(header)) return false
+    seen.add(header)
+    return true
+  })
+  if (userAgents.length < 2 || userAgents.length > MAX_USER_AGENTS) {
+    throw createError({
+      statusCode: 400,
+      message: `2-${MAX_USER_AGENTS} different user agents required`,
+    })
+  }
+
+  const settings = clampRequestSettings(body.settings)
+  const rateLimit = Math.max(body.rateLimit || 2, 0.1)
+
+  return async (sink) => {
+    const scheduler = createHostScheduler({
+      ratePerHost: rateLimit,
+      concurrency: settings.parallelRequests ?? 5,
+    })
+    let differentCount = 0
+    let errorCount = 0
+
+    sink.emit('log', {
+      message: `Comparing ${urls.length} URL(s) as ${userAgents.join(', ')} at ${rateLimit} requests/s per host`,
+      type: 'info',
+    })
+
+    for (const [index, url] of urls.entries()) {
+      if (sink.untilResumed) await sink.untilResumed()
+      if (sink.isClosed()) break
+
+      sink.emit('progress', {
+        done: index,
+        total: urls.length,
+        currentUrl: url,
+      })
+
+      const fetched = await Promise.all(
+        userAgents.map((userAgent) =>
+          fetchProfile(url, userAgent, settings, scheduler),
+        ),
+      )
+      const [baseline, ...others] = fetched
+      if (!baseline) break
+      const diffs = others.map((other) => compareProfiles(baseline, other))
+      const result: CloakingCheckResult = {
+        url,
+        profiles: fetched.map(({ links: _links, ...profile }) => profile),
+        diffs,
+        isDifferent: diffs.some((diff) => diff.fields.length > 0),
+      }
+
+      if (result.isDifferent) differentCount++
+      if (result.profiles.some((profile) => profile.error)) errorCount++
+      sink.emit('result', result)
+    }
+
+    sink.emit('done', {
+      total: urls.length,
+      differentCount,
+      errorCount,
+    })
+    sink.emit('log', {
+      message: `Check complete: ${differentCount} of ${urls.length} URL(s) differ between user agents`,
+      type: 'success',
+    })
+  }
+}
@@ -0,0 +1,181 @@
+import { getRegistrableDomain } from './site-scope'
+
+/**
+ * In-memory cookie jar for one crawl (`RequestSettings.cookieJar`). Stores
+ * the Set-Cookie headers of every response and sends the matching cookies
+ * back, so sessions started on one page carry over to the next. Follows
+ * the RFC 6265 domain, path, Secure and expiry rules; SameSite is ignored,
+ * since every request of a crawl is first-party.
+ */
+
+export interface StoredCookie {
+  name: string
+  value: string
+  /** Lowercase, without leading dot */
+  domain: string
+  /** Without a Domain attribute the cookie only goes back to this host */
+  hostOnly: boolean
+  path: string
+  secure: boolean
+  /** Expiry in ms since the epoch; session cookies have none */
+  expires?: number
+}
+
+export interface CookieJar {
+  /** Stores the Set-Cookie headers of a response to `url` */
+  store: (url: string, headers: Headers) => void
+  /** Stores a cookie taken from somewhere else, e.g. the browser */
+  set: (cookie: StoredCookie) => void
+  /** The Cookie header value for a request to `url`, if any */
+  header: (url: string) => string | undefined
+  /** Unexpired cookies that would be sent to `url` */
+  cookiesFor: (url: string) => StoredCookie[]
+  size: () => number
+}
+
+const MAX_COOKIES = 3000
+const MAX_COOKIE_LENGTH = 4096
+
+function defaultPath(url: URL): string {
+  const path = url.pathname
+  if (!path.startsWith('/') || path.lastIndexOf('/') === 0) return '/'
+  return path.slice(0, path.lastIndexOf('/'))
+}
+
+function domainMatches(hostname: string, domain: string): boolean {
+  return hostname === domain || hostname.endsWith(`.${domain}`)
+}
+
+function pathMatches(requestPath: string, cookiePath: string): boolean {
+  if (requestPath === cookiePath) return true
+  if (!requestPath.startsWith(cookiePath)) return false
+  return cookiePath.endsWith('/') || requestPath[cookiePath.length] === '/'
+}
+
+/**
+ * Parses one Set-Cookie header received from `url`. Returns null for
+ * malformed cookies and for Domain attributes the response may not set
+ * (another site, or a public suffix such as `co.uk`).
+ */
+export function parseSetCookie(
+  header: string,
+  url: URL,
+  now = Date.now(),
+): StoredCookie | null {
+  if (header.length > MAX_COOKIE_LENGTH) return null
+  const [pair = '', ...attributes] = header.split(';')
+  const separator = pair.indexOf('=')
+  if (separator < 1) return null
+  const name = pair.slice(0, separator).trim()
+  const value = pair.slice(separator + 1).trim()
+  if (!name) return null
+
+  const hostname = url.hostname.toLowerCase()
+  const cookie: StoredCookie = {
+    name,
+    value,
+    domain: hostname,
+    hostOnly: true,
+    path: defaultPath(url),
+    secure: false,
+  }
+  let maxAge: number | undefined
+  for (const attribute of attributes) {
+    const index = attribute.indexOf('=')
+    const key = (index === -1 ? attribute : attribute.slice(0, index))
+      .trim()
+      .toLowerCase()
+    const attrValue = index === -1 ? '' : attribute.slice(index + 1).trim()
+    if (key === 'domain' && attrValue) {
+      const domain = attrValue.toLowerCase().replace(/^\./, '')
+      const registrable = getRegistrableDomain(hostname)
+      if (
+        !domainMatches(hostname, domain) ||
+        !domainMatches(domain, registrable)
+      ) {
+        return null
+      }
+      cookie.domain = domain
+      cookie.hostOnly = false
+    } else if (key === 'path') {
+      cookie.path = attrValue.startsWith('/') ? attrValue : defaultPath(url)
+    } else if (key === 'secure') {
+      cookie.secure = true
+    } else if (key === 'max-age' && /^-?\d+$/.test(attrValue)) {
+      maxAge = Number(attrValue)
+    } else if (key === 'expires') {
+      const date = Date.parse(attrValue)
+      if (!Number.isNaN(date)) cookie.expires = date
+    }
+  }
+  // Max-Age wins over Expires
+  if (maxAge !== undefined) cookie.expires = now + maxAge * 1000
+  return cookie
+}
+
+export function createCookieJar(now: () => number = Date.now): CookieJar {
+  // Keyed by domain, path and name; a new cookie replaces the old one
+  const cookies = new Map<string, StoredCookie>()
+
+  function set(cookie: StoredCookie) {
+    const key = `${cookie.domain};${cookie.path};${cookie.name}`
+    if (cookie.expires !== undefined && cookie.expires <= now()) {
+      cookies.delete(key)
+      return
+    }
+    if (!cookies.has(key) && cookies.size >= MAX_COOKIES) return
+    cookies.set(key, cookie)
+  }
+
+  function cookiesFor(url: string): StoredCookie[] {
+    let target: URL
+    try {
+      target = new URL(url)
+    } catch {
+      return []
+    }
+    const hostname = target.hostname.toLowerCase()
+    const time = now()
+    const matches: StoredCookie[] = []
+    for (const [key, cookie] of cookies) {
+      if (cookie.expires !== undefined && cookie.expires <= time) {
+        cookies.delete(key)
+        continue
+      }
+      if (
+        (cookie.hostOnly
+          ? hostname === cookie.domain
+          : domainMatches(hostname, cookie.domain)) &&
+        pathMatches(target.pathname, cookie.path) &&
+        (!cookie.secure || target.protocol === 'https:')
+      ) {
+        matches.push(cookie)
+      }
+    }
+    // More specific paths first, as browsers send them
+    return matches.sort((a, b) => b.path.length - a.path.length)
+  }
+
+  return {
+    store(url, headers) {
+      let source: URL
+      try {
+        source = new URL(url)
+      } catch {
+        return
+      }
+      for (const header of headers.getSetCookie()) {
+        const cookie = parseSetCookie(header, source, now())
+        if (cookie) set(cookie)
+      }
+    },
+    set,
+    header(url) {
+      const matches = cookiesFor(url)
+      if (matches.length === 0) return undefined
+      return matches.map((c) => `${c.name}=${c.value}`).join('; ')
+    },
+    cookiesFor,
+    size: () => cookies.size,
+  }
+}
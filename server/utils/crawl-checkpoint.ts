@@ -0,0 +1,308 @@
+import { randomUUID } from 'node:crypto'
+import {
+  appendFile,
+  mkdir,
+  readdir,
+  readFile,
+  rename,
+  writeFile,
+} from 'node:fs/promises'
+import { join } from 'node:path'
+import { createError } from 'h3'
+import type { CrawlState } from './crawl-engine'
+import { assertWithinOutput, OUTPUT_ROOT } from './path-guard'
+
+export type CheckpointTool = 'scrape-links' | 'inbound-links'
+export type CheckpointStatus = 'running' | 'interrupted' | 'completed'
+
+export interface CrawlCheckpoint {
+  jobId: string
+  tool: CheckpointTool
+  status: CheckpointStatus
+  /**
+   * Original request body without `settings.credentials`; reused when the
+   * job is resumed
+   */
+  request: object
+  /** Null until the engine wrote its first checkpoint */
+  state: CrawlState | null
+  resultCount: number
+  createdAt: string
+  updatedAt: string
+}
+
+export interface CheckpointStore {
+  jobId: string
+  /** Results persisted by earlier runs of this job */
+  readResults: () => Promise<unknown[]>
+  /**
+   * Appends `results` and then records `state`. Both describe the same
+   * moment of the crawl, so a resumed job never sees a result twice.
+   */
+  save: (state: CrawlState, results: unknown[]) => Promise<void>
+  /** Writes the final status and releases the job for resuming. */
+  close: (status: CheckpointStatus) => Promise<void>
+  /** Releases the job without writing, for a run that never started */
+  release: () => void
+}
+
+/** A job opened for resuming by `resolveCheckpointRequest` */
+export interface ResumedJob {
+  checkpoint: CrawlCheckpoint
+  store: CheckpointStore
+}
+
+export const JOBS_DIR = join(OUTPUT_ROOT, 'jobs')
+
+const CHECKPOINT_FILE = 'checkpoint.json'
+const RESULTS_FILE = 'results.jsonl'
+const JOB_ID_PATTERN = /^[a-zA-Z0-9-]{1,64}$/
+
+// Jobs currently being written by a request of this server process
+const activeJobs = new Set<string>()
+
+export function isValidJobId(jobId: string): boolean {
+  return JOB_ID_PATTERN.test(jobId)
+}
+
+interface RequestWithSettings {
+  settings?: { credentials?: unknown }
+}
+
+// Credentials never touch the disk: the stored request drops them, and a
+// resumed job takes them from the resume request instead
+function withoutCredentials(request: object): object {
+  const { settings } = request as RequestWithSettings
+  if (!settings?.credentials) return request
+  const { credentials: _credentials, ...rest } = settings
+  return { ...request, settings: rest }
+}
+
+function jobDir(root: string, jobId: string): string {
+  if (!isValidJobId(jobId)) throw new Error('Invalid job id')
+  return assertWithinOutput(join(root, jobId))
+}
+
+async function writeCheckpoint(dir: string, checkpoint: CrawlCheckpoint) {
+  // Write-then-rename so a crash never leaves a half-written checkpoint
+  const target = join(dir, CHECKPOINT_FILE)
+  await writeFile(`${target}.tmp`, JSON.stringify(checkpoint), 'utf-8')
+  await rename(`${target}.tmp`, target)
+}
+
+export async function readCheckpoint(
+  jobId: string,
+  root = JOBS_DIR,
+): Promise<CrawlCheckpoint | null> {
+  try {
+    const raw = await readFile(
+      join(jobDir(root, jobId), CHECKPOINT_FILE),
+      'utf-8',
+    )
+    return JSON.parse(raw) as CrawlCheckpoint
+  } catch {
+    return null
+  }
+}
+
+function createStore(
+  dir: string,
+  checkpoint: CrawlCheckpoint,
+): CheckpointStore {
+  // Serialize writes — the engine may checkpoint while a close() is pending
+  let pending: Promise<void> = Promise.resolve()
+  function enqueue(write: () => Promise<void>): Promise<void> {
+    pending = pending.then(write)
+    return pending
+  }
+
+  return {
+    jobId: checkpoint.jobId,
+    async readResults() {
+      let raw: string
+      try {
+        raw = await readFile(join(dir, RESULTS_FILE), 'utf-8')
+      } catch {
+        return []
+      }
+      // Lines past resultCount were appended after the last checkpoint
+      return raw
+        .split('\n')
+        .filter(Boolean)
+        .slice(0, checkpoint.resultCount)
+        .map((line) => JSON.parse(line))
+    },
+    save(state, results) {
+      return enqueue(async () => {
+        // The output folder may have been cleared while the crawl was running
+        await mkdir(dir, { recursive: true })
+        if (results.length > 0) {
+          const lines = results.map((r) => `${JSON.stringify(r)}\n`).join('')
+          await appendFile(join(dir, RESULTS_FILE), lines, 'utf-8')
+        }
+        checkpoint.state = state
+        checkpoint.resultCount += results.length
+        checkpoint.updatedAt = new Date().toISOString()
+        await writeCheckpoint(dir, checkpoint)
+      })
+    },
+    close(status) {
+      return enqueue(async () => {
+        checkpoint.status = status
+        checkpoint.updatedAt = new Date().toISOString()
+        await writeCheckpoint(dir, checkpoint)
+      }).finally(() => {
+        activeJobs.delete(checkpoint.jobId)
+      })
+    },
+    release() {
+      activeJobs.delete(checkpoint.jobId)
+    },
+  }
+}
+
+/**
+ * Creates the on-disk checkpoint for a new crawl job under
+ * `OUTPUT_ROOT/jobs/<jobId>/`.
+ */
+export async function createCheckpoint(
+  tool: CheckpointTool,
+  request: object,
+  root = JOBS_DIR,
+): Promise<CheckpointStore> {
+  const jobId = randomUUID()
+  const dir = jobDir(root, jobId)
+  await mkdir(dir, { recursive: true })
+
+  const now = new Date().toISOString()
+  const checkpoint: CrawlCheckpoint = {
+    jobId,
+    tool,
+    status: 'running',
+    request: withoutCredentials(request),
+    state: null,
+    resultCount: 0,
+    createdAt: now,
+    updatedAt: now,
+  }
+  await writeCheckpoint(dir, checkpoint)
+  // A stale results file would break the resultCount bookkeeping
+  await writeFile(join(dir, RESULTS_FILE), '', 'utf-8')
+  activeJobs.add(jobId)
+  return createStore(dir, checkpoint)
+}
+
+/**
+ * Opens an unfinished job for resuming. Returns null when the job does not
+ * exist; throws when it is already running or finished.
+ */
+export async function openCheckpoint(
+  jobId: string,
+  root = JOBS_DIR,
+): Promise<ResumedJob | null> {
+  const checkpoint = await readCheckpoint(jobId, root)
+  if (!checkpoint) return null
+  if (activeJobs.has(jobId)) throw new Error('Job is already running')
+  if (checkpoint.status === 'completed') {
+    throw new Error('Job is already completed')
+  }
+
+  activeJobs.add(jobId)
+  checkpoint.status = 'running'
+  const store = createStore(jobDir(root, jobId), checkpoint)
+  return { checkpoint, store }
+}
+
+/**
+ * Lists all checkpoints, most recently updated first.
+ */
+export async function listCheckpoints(
+  root = JOBS_DIR,
+): Promise<CrawlCheckpoint[]> {
+  let entries: string[]
+  try {
+    entries = await readdir(root)
+  } catch {
+    return []
+  }
+
+  const checkpoints: CrawlCheckpoint[] = []
+  for (const entry of entries) {
+    if (!isValidJobId(entry)) continue
+    const checkpoint = await readCheckpoint(entry, root)
+    if (checkpoint) checkpoints.push(checkpoint)
+  }
+  return checkpoints.sort((a, b) => b.updatedAt.localeCompare(a.updatedAt))
+}
+
+export function isCheckpointActive(jobId: string): boolean {
+  return activeJobs.has(jobId)
+}
+
+/**
+ * Resolves the request a crawl endpoint should run: the body itself for a
+ * new job, or the stored request when `resumeJobId` points at an unfinished
+ * job of the same tool. Since checkpoints don't hold credentials, those of
+ * the resume request are used. Errors are thrown as h3 errors.
+ */
+export async function resolveCheckpointRequest<T extends object>(
+  tool: CheckpointTool,
+  body: T & { resumeJobId?: string },
+): Promise<{ request: T; resume: ResumedJob | null }> {
+  if (!body.resumeJobId) return { request: body, resume: null }
+
+  if (!isValidJobId(body.resumeJobId)) {
+    throw createError({ statusCode: 400, message: 'Invalid job id' })
+  }
+
+  const stored = await readCheckpoint(body.resumeJobId)
+  if (!stored) {
+    throw createError({ statusCode: 404, message: 'Job not found' })
+  }
+  if (stored.tool !== tool) {
+    throw createError({
+      statusCode: 400,
+      message: `Job belongs to ${stored.tool}`,
+    })
+  }
+
+  let resume: Awaited<ReturnType<typeof openCheckpoint>>
+  try {
+    resume = await openCheckpoint(body.resumeJobId)
+  } catch (error) {
+    throw createError({
+      statusCode: 409,
+      message: error instanceof Error ? error.message : 'Unknown error',
+    })
+  }
+  if (!resume) {
+    throw createError({ statusCode: 404, message: 'Job not found' })
+  }
+
+  const request = resume.checkpoint.request as T & RequestWithSettings
+  const credentials = (body as RequestWithSettings).settings?.credentials
+  return {
+    request: credentials
+      ? { ...request, settings: { ...request.settings, credentials } }
+      : request,
+    resume,
+  }
+}
+
+/**
+ * Builds the run for a request from `resolveCheckpointRequest`. The job is
+ * already marked running at that point, so when `build` rejects the request
+ * (e.g. a stored proxy that no longer parses) the job is released again and
+ * stays resumable.
+ */
+export function releaseOnError<T>(
+  resume: ResumedJob | null,
+  build: () => T,
+): T {
+  try {
+    return build()
+  } catch (error) {
+    resume?.store.release()
+    throw error
+  }
+}
@@ -0,0 +1,653 @@
+import type { H3Event } from 'h3'
+import { createCircuitBreaker } from './circuit-breaker'
+import { type CookieJar, createCookieJar } from './cookie-jar'
+import { resolveCredentials } from './credentials'
+import {
+  type FetchRetryOptions,
+  fetchWithRetry,
+  type RequestSettings,
+} from './fetch-with-retry'
+import { createHostScheduler } from './host-scheduler'
+import { type CacheStatus, resolveCacheMode } from './http-cache'
+import { isInternalLink, normalizeUrl } from './link-analyzer'
+import {
+  type RenderOptions,
+  renderPage,
+  resolveRenderOptions,
+} from './page-renderer'
+import { maskProxy, parseProxyList, resolveProxySetting } from './proxy'
+import { readResponseText, tooLargeError } from './response-body'
+import { createRobotsChecker } from './robots'
+import { getPageDirectives } from './robots-meta'
+import { getServerConfig } from './server-config'
+import { isInScope, type SiteScope } from './site-scope'
+import type { CanonicalRules } from './url-canonical'
+import { isAllowedUrl } from './url-validator'
+import { resolveUserAgent } from './user-agents'
+
+// Minimum time between two onCheckpoint calls while the crawl is running
+const CHECKPOINT_INTERVAL_MS = 5000
+// Failed page fetches in a row after which a host is paused
+const CIRCUIT_BREAKER_THRESHOLD = 5
+const CIRCUIT_BREAKER_COOLDOWN_MS = 30000
+
+/**
+ * Destination for crawl events: either an open SSE response or a background
+ * job (see `jobs.ts`). Tools only ever talk to this interface.
+ */
+export interface CrawlSink {
+  emit: (eventName: string, data: unknown) => void
+  isClosed: () => boolean
+  /** Resolves once a paused job may continue; absent for plain streams */
+  untilResumed?: () => Promise<void>
+}
+
+export interface SseStream extends CrawlSink {
+  /** `id` is sent as the SSE event id so clients can use Last-Event-ID */
+  emit: (eventName: string, data: unknown, id?: number) => void
+  end: () => void
+}
+
+/** A prepared tool run, driven either by an SSE request or by a job */
+export type CrawlRun = (sink: CrawlSink) => Promise<void>
+
+export interface UrlFilterOptions {
+  urlFilter?: string // Regex filter for URLs (max. 200 characters)
+  pathInclude?: string // Comma-separated paths that must be included
+  pathExclude?: string // Comma-separated paths to exclude
+}
+
+/** Why a URL was left out of the crawl (reported via `onSkipped`) */
+export type SkipReason = 'robots'
+
+export interface CrawlItem {
+  url: string
+  depth: number
+  sourceUrl?: string
+}
+
+export interface CrawlPage {
+  item: CrawlItem
+  response: Response
+  html: string
+  retryCount: number
+  loadTime: number
+  /** Set when the response cache is on */
+  cacheStatus?: CacheStatus
+  /** Encoding the page was decoded with, e.g. `windows-1252` */
+  encoding: string
+}
+
+export interface CrawlContext {
+  emit: CrawlSink['emit']
+  settings: RequestSettings
+  /**
+   * Enqueues a link discovered on `from` if recursion, depth, scope and
+   * filter rules allow it. Returns true when the URL was added. `rel` is the
+   * link's rel values, checked for `nofollow` when the crawl respects it.
+   */
+  follow: (url: string, from: CrawlItem, rel?: string[]) => Promise<boolean>
+  matchesFilter: (url: string) => boolean
+  /**
+   * Checks a URL against robots.txt for the configured user-agent. Always
+   * true when the crawl does not respect robots.txt.
+   */
+  isAllowedByRobots: (url: string) => Promise<boolean>
+  /**
+   * Runs a request through the crawl's per-host scheduler, which applies
+   * `rateLimit`, Crawl-delay and the `parallelRequests` cap. Tools use it for
+   * every request they make besides the page fetch itself.
+   */
+  schedule: <T>(url: string, task: () => Promise<T>) => Promise<T>
+  /**
+   * The crawl's cookie jar when `settings.cookieJar` is on; requests tools
+   * make themselves should send and update it too.
+   */
+  cookieJar?: CookieJar
+  /** Ends the crawl after the current page. */
+  stop: () => void
+  isStopped: () => boolean
+}
+
+/**
+ * Per-tool hook plugged into the engine. `processPage` receives every page
+ * the engine fetched successfully; `onPageError` replaces the default error
+ * log when the fetch or the processor throws; `onSkipped` is called for URLs
+ * that were dropped before being enqueued (after the skip has been logged).
+ */
+export interface PageProcessor {
+  processPage: (page: CrawlPage, ctx: CrawlContext) => Promise<void>
+  onPageError?: (item: CrawlItem, error: Error, ctx: CrawlContext) => void
+  onSkipped?: (item: CrawlItem, reason: SkipReason, ctx: CrawlContext) => void
+}
+
+export interface CrawlOptions extends UrlFilterOptions {
+  seeds: string[] | ((ctx: CrawlContext) => Promise<string[]>)
+  settings: RequestSettings
+  recursive: boolean
+  maxDepth: number
+  maxPages?: number
+  /** Only follow links whose host is in scope of one of the seed hosts */
+  sameDomainOnly?: boolean
+  /** Which hosts count as internal; default is the exact host */
+  siteScope?: SiteScope
+  /** Requests per second per host; omit to only cap concurrency */
+  rateLimit?: number
+  /** Skip URLs disallowed by robots.txt and honour Crawl-delay */
+  respectRobots?: boolean
+  /** Token used to pick the robots.txt group (default: URLTools) */
+  robotsUserAgent?: string
+  /**
+   * Don't follow rel="nofollow" links or any link on pages marked nofollow
+   * by meta robots or X-Robots-Tag. The pages are still processed.
+   */
+  respectNofollow?: boolean
+  /** Read links from the DOM rendered by headless Chrome */
+  render?: RenderOptions
+  /** Canonicalization applied to seeds and followed URLs */
+  canonical?: CanonicalRules
+  /** Continue an earlier crawl instead of starting from `seeds` */
+  resumeFrom?: CrawlState
+  /**
+   * Called with a snapshot of the frontier after a page was handled (at most
+   * every few seconds) and once more when the loop ends.
+   */
+  onCheckpoint?: (state: CrawlState) => Promise<void>
+}
+
+/** Serializable snapshot of the frontier, used for checkpoints */
+export interface CrawlState {
+  queue: CrawlItem[]
+  visited: string[]
+  skipped: string[]
+  baseDomains: string[]
+  pagesProcessed: number
+}
+
+/** Crawl-policy fields shared by the request bodies of all crawlers */
+export interface CrawlPolicyRequest {
+  respectRobots?: boolean
+  robotsUserAgent?: string
+  respectNofollow?: boolean
+  render?: RenderOptions
+  canonical?: CanonicalRules
+  siteScope?: SiteScope
+}
+
+export interface CrawlSummary {
+  pagesProcessed: number
+  visited: number
+  skipped: number
+  /** Page fetches per cache status; absent when the cache is off */
+  cache?: Record<CacheStatus, number>
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(Math.max(value, min), max)
+}
+
+/**
+ * Writes SSE headers to the response and returns an emitter bound to it.
+ * Events emitted after the client disconnected are dropped.
+ */
+export function createSseStream(event: H3Event): SseStream {
+  const res = event.node.res
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    Connection: 'keep-alive',
+    'X-Accel-Buffering': 'no',
+  })
+
+  let closed = false
+  res.on('close', () => {
+    closed = true
+  })
+
+  return {
+    emit(eventName, data, id) {
+      if (closed) return
+      const idLine = id === undefined ? '' : `id: ${id}\n`
+      res.write(
+        `${idLine}event: ${eventName}\ndata: ${JSON.stringify(data)}\n\n`,
+      )
+    },
+    isClosed: () => closed,
+    end: () => res.end(),
+  }
+}
+
+/**
+ * Opens an SSE stream, runs `run` against it and always closes the response.
+ * Uncaught errors are reported as a final `error` event.
+ */
+export async function streamCrawl(
+  event: H3Event,
+  run: CrawlRun,
+): Promise<void> {
+  const stream = createSseStream(event)
+  try {
+    await run(stream)
+  } catch (error) {
+    stream.emit('error', {
+      message: error instanceof Error ? error.message : 'Unknown error',
+    })
+  } finally {
+    stream.end()
+  }
+}
+
+/**
+ * Applies the shared defaults and bounds to user-supplied request settings.
+ */
+export function clampRequestSettings(
+  input?: Partial<RequestSettings>,
+): RequestSettings {
+  const defaults = getServerConfig().requestDefaults
+  return {
+    timeout: clamp(input?.timeout ?? defaults.timeout, 1, 120),
+    retries: clamp(input?.retries ?? defaults.retries, 0, 5),
+    proxy: resolveProxySetting(input?.proxy),
+    headers: input?.headers,
+    parallelRequests: clamp(
+      input?.parallelRequests ?? defaults.parallelRequests,
+      1,
+      20,
+    ),
+    cache: resolveCacheMode(input?.cache),
+    credentials: resolveCredentials(input?.credentials),
+    cookieJar: input?.cookieJar === true,
+    userAgent: resolveUserAgent(input?.userAgent),
+  }
+}
+
+export function parsePathList(value?: string): string[] {
+  if (!value) return []
+  return value
+    .split(',')
+    .map((p) => p.trim())
+    .filter(Boolean)
+}
+
+function matchesPathPrefix(path: string, prefix: string): boolean {
+  const p = prefix.replace(/\/+$/, '')
+  return path === p || path.startsWith(`${p}/`)
+}
+
+/**
+ * Builds the URL predicate shared by all crawlers: an optional regex (capped
+ * at 200 characters to limit ReDoS exposure; invalid patterns are ignored)
+ * plus path include/exclude prefixes. Excludes win over includes.
+ */
+export function createUrlFilter(
+  opts: UrlFilterOptions,
+): (url: string) => boolean {
+  let urlFilterRegex: RegExp | null = null
+  if (opts.urlFilter && opts.urlFilter.length <= 200) {
+    try {
+      urlFilterRegex = new RegExp(opts.urlFilter)
+    } catch {
+      // Invalid regex - ignore
+    }
+  }
+  const pathIncludes = parsePathList(opts.pathInclude)
+  const pathExcludes = parsePathList(opts.pathExclude)
+
+  return (url: string) => {
+    if (urlFilterRegex && !urlFilterRegex.test(url)) return false
+    let path: string
+    try {
+      path = new URL(url).pathname
+    } catch {
+      return true
+    }
+    if (pathExcludes.some((ex) => matchesPathPrefix(path, ex))) return false
+    if (pathIncludes.length > 0) {
+      return pathIncludes.some((inc) => matchesPathPrefix(path, inc))
+    }
+    return true
+  }
+}
+
+function getHostname(url: string): string | null {
+  try {
+    return new URL(url).hostname
+  } catch {
+    return null
+  }
+}
+
+async function fetchPage(
+  item: CrawlItem,
+  settings: RequestSettings,
+  render: Required<RenderOptions> | null,
+  retryOptions: FetchRetryOptions,
+): Promise<CrawlPage> {
+  if (render) {
+    const rendered = await renderPage(
+      item.url,
+      render,
+      settings,
+      retryOptions.cookieJar,
+    )
+    const { maxBodySize } = getServerConfig().limits
+    if (rendered.html.length > maxBodySize) throw tooLargeError(maxBodySize)
+    return { item, ...rendered, retryCount: 0 }
+  }
+
+  const { response, retryCount, loadTime, cacheStatus } = await fetchWithRetry(
+    item.url,
+    settings,
+    retryOptions,
+  )
+  const { text: html, encoding } = await readResponseText(response)
+
+  return { item, response, html, retryCount, loadTime, cacheStatus, encoding }
+}
+
+/**
+ * Breadth-first crawl loop shared by the link analyzer, the broken link
+ * checker and the inbound analyzer. The engine owns the frontier (queue +
+ * visited set), the scope and filter rules, pacing and progress events;
+ * what happens with each fetched page is up to the processor.
+ */
+export async function runCrawl(
+  sink: CrawlSink,
+  options: CrawlOptions,
+  processor: PageProcessor,
+): Promise<CrawlSummary> {
+  const { settings, resumeFrom } = options
+  const matchesFilter = createUrlFilter(options)
+  const visited = new Set<string>(resumeFrom?.visited)
+  const queue: CrawlItem[] = [...(resumeFrom?.queue ?? [])]
+  const baseDomains = new Set<string>(resumeFrom?.baseDomains)
+  const scheduler = createHostScheduler({
+    ratePerHost: options.rateLimit,
+    concurrency: settings.parallelRequests ?? 5,
+  })
+  const robotsUserAgent =
+    options.robotsUserAgent?.trim().slice(0, 100) ||
+    getServerConfig().userAgents.robots
+  const robots = options.respectRobots
+    ? createRobotsChecker(settings, robotsUserAgent)
+    : null
+  const cacheMode = settings.cache ?? 'off'
+  // Rendered pages are not cached, so an offline replay reads the stored HTML
+  const render =
+    cacheMode === 'offline' ? null : resolveRenderOptions(options.render)
+  const cacheCounts: Record<CacheStatus, number> = {
+    hit: 0,
+    miss: 0,
+    revalidated: 0,
+  }
+  // Cookies live as long as this run; a resumed crawl starts a new session
+  const cookieJar = settings.cookieJar ? createCookieJar() : undefined
+  // Backoffs are logged; Retry-After and a tripped breaker pause the whole
+  // host, not just the request that hit them
+  const retryOptions: FetchRetryOptions = {
+    onBackoff({ url, attempt, delayMs, reason, retryAfter }) {
+      const hostname = getHostname(url)
+      if (hostname && retryAfter) scheduler.pauseHost(hostname, delayMs)
+      sink.emit('log', {
+        message: `${reason} from ${hostname ?? url}, retrying in ${(delayMs / 1000).toFixed(1)}s${retryAfter ? ' (Retry-After)' : ''} (retry ${attempt}/${settings.retries})`,
+        type: 'info',
+      })
+    },
+    circuitBreaker: createCircuitBreaker({
+      threshold: CIRCUIT_BREAKER_THRESHOLD,
+      cooldownMs: CIRCUIT_BREAKER_COOLDOWN_MS,
+      onOpen(hostname, cooldownMs) {
+        scheduler.pauseHost(hostname, cooldownMs)
+        sink.emit('log', {
+          message: `Pausing ${hostname} for ${cooldownMs / 1000}s after ${CIRCUIT_BREAKER_THRESHOLD} failed requests in a row`,
+          type: 'info',
+        })
+      },
+    }),
+    cookieJar,
+  }
+  // Hosts whose Crawl-delay was already applied
+  const crawlDelayHosts = new Set<string>()
+  // Pages being processed whose links must not be followed
+  const nofollowPages = new Set<string>()
+  const skipped = new Set<string>(resumeFrom?.skipped)
+  let stopped = false
+  let pagesProcessed = resumeFrom?.pagesProcessed ?? 0
+  let lastCheckpoint = 0
+
+  async function checkpoint(force = false) {
+    if (!options.onCheckpoint) return
+    if (!force && Date.now() - lastCheckpoint < CHECKPOINT_INTERVAL_MS) return
+    lastCheckpoint = Date.now()
+    await options.onCheckpoint({
+      queue: [...queue],
+      visited: [...visited],
+      skipped: [...skipped],
+      baseDomains: [...baseDomains],
+      pagesProcessed,
+    })
+  }
+
+  function isInBaseDomains(hostname: string): boolean {
+    if (baseDomains.has(hostname)) return true
+    for (const base of baseDomains) {
+      if (isInScope(base, hostname, options.siteScope)) return true
+    }
+    return false
+  }
+
+  async function isAllowedByRobots(url: string): Promise<boolean> {
+    if (!robots) return true
+    const verdict = await robots.check(url)
+    const hostname = getHostname(url)
+    if (hostname && verdict.crawlDelay && !crawlDelayHosts.has(hostname)) {
+      crawlDelayHosts.add(hostname)
+      scheduler.setHostDelay(hostname, verdict.crawlDelay * 1000)
+      sink.emit('log', {
+        message: `robots.txt sets Crawl-delay: ${verdict.crawlDelay}s for ${hostname}`,
+        type: 'info',
+      })
+    }
+    return verdict.allowed
+  }
+
+  async function enqueue(
+    url: string,
+    depth: number,
+    sourceUrl?: string,
+  ): Promise<boolean> {
+    const normalized = normalizeUrl(url, undefined, options.canonical)
+    if (!normalized || visited.has(normalized) || skipped.has(normalized)) {
+      return false
+    }
+    if (!isAllowedUrl(normalized) || !matchesFilter(normalized)) return false
+
+    if (!(await isAllowedByRobots(normalized))) {
+      if (skipped.has(normalized)) return false
+      skipped.add(normalized)
+      sink.emit('log', {
+        message: `Skipped ${normalized}: disallowed by robots.txt`,
+        type: 'info',
+      })
+      processor.onSkipped?.(
+        { url: normalized, depth, sourceUrl },
+        'robots',
+        ctx,
+      )
+      return false
+    }
+
+    // Another follow() may have added the URL while robots.txt was loading
+    if (visited.has(normalized)) return false
+    visited.add(normalized)
+    queue.push({ url: normalized, depth, sourceUrl })
+    return true
+  }
+
+  const ctx: CrawlContext = {
+    emit: sink.emit,
+    settings,
+    matchesFilter,
+    isAllowedByRobots,
+    schedule: scheduler.schedule,
+    cookieJar,
+    async follow(url, from, rel) {
+      if (!options.recursive || stopped) return false
+      if (from.depth >= options.maxDepth) return false
+      if (options.respectNofollow) {
+        if (nofollowPages.has(from.url)) return false
+        if (rel?.some((r) => r.toLowerCase() === 'nofollow')) return false
+      }
+      if (!isInternalLink(from.url, url, options.siteScope)) return false
+      if (options.sameDomainOnly) {
+        const hostname = getHostname(url)
+        if (!hostname || !isInBaseDomains(hostname)) return false
+      }
+      return enqueue(url, from.depth + 1, from.url)
+    },
+    stop() {
+      stopped = true
+    },
+    isStopped: () => stopped || sink.isClosed(),
+  }
+
+  if (robots) {
+    sink.emit('log', {
+      message: `Respecting robots.txt (user-agent: ${robotsUserAgent})`,
+      type: 'info',
+    })
+  }
+  if (cacheMode === 'offline') {
+    sink.emit('log', {
+      message: 'Offline replay: reading pages from the cache only',
+      type: 'info',
+    })
+  } else if (cacheMode === 'revalidate') {
+    sink.emit('log', {
+      message: 'Caching responses and revalidating cached pages',
+      type: 'info',
+    })
+  }
+  const proxyCount = parseProxyList(settings.proxy).length
+  if (proxyCount > 0 && cacheMode !== 'offline') {
+    sink.emit('log', {
+      message:
+        proxyCount > 1
+          ? `Rotating requests through ${proxyCount} proxies`
+          : `Sending requests through ${maskProxy(settings.proxy ?? '')}`,
+      type: 'info',
+    })
+  }
+  if (settings.credentials) {
+    const hosts = settings.credentials.map((c) => c.host)
+    sink.emit('log', {
+      message: `Sending credentials to ${[...new Set(hosts)].join(', ')}`,
+      type: 'info',
+    })
+  }
+  if (cookieJar && cacheMode !== 'offline') {
+    sink.emit('log', {
+      message: 'Keeping cookies set by the site between requests',
+      type: 'info',
+    })
+  }
+  if (render) {
+    sink.emit('log', {
+      message: `Rendering pages with headless Chrome (waiting for ${render.waitUntil})`,
+      type: 'info',
+    })
+  }
+  if (options.respectNofollow) {
+    sink.emit('log', {
+      message: 'Not following nofollow links and pages',
+      type: 'info',
+    })
+  }
+  if (!resumeFrom) {
+    const seeds =
+      typeof options.seeds === 'function'
+        ? await options.seeds(ctx)
+        : options.seeds
+    for (const seed of seeds) {
+      const hostname = getHostname(seed)
+      if (hostname) baseDomains.add(hostname)
+      await enqueue(seed, 0)
+    }
+    await checkpoint(true)
+  }
+
+  while (
+    queue.length > 0 &&
+    !ctx.isStopped() &&
+    (options.maxPages === undefined || pagesProcessed < options.maxPages)
+  ) {
+    if (sink.untilResumed) {
+      await sink.untilResumed()
+      if (ctx.isStopped()) break
+    }
+
+    const item = queue.shift()
+    if (!item) break
+
+    sink.emit('progress', {
+      done: pagesProcessed,
+      total: pagesProcessed + queue.length + 1,
+      currentUrl: item.url,
+    })
+    sink.emit('log', {
+      message: `Fetching ${item.url} (depth: ${item.depth})`,
+      type: 'progress',
+    })
+
+    try {
+      const page = await scheduler.schedule(item.url, () =>
+        fetchPage(item, settings, render, retryOptions),
+      )
+      pagesProcessed++
+      if (page.cacheStatus) cacheCounts[page.cacheStatus]++
+      if (
+        options.respectNofollow &&
+        options.recursive &&
+        getPageDirectives(page.html, page.response.headers, robotsUserAgent)
+          .nofollow
+      ) {
+        nofollowPages.add(item.url)
+        sink.emit('log', {
+          message: `Not following links on ${item.url}: nofollow`,
+          type: 'info',
+        })
+      }
+      await processor.processPage(page, ctx)
+    } catch (err) {
+      const error = err instanceof Error ? err : new Error('Unknown error')
+      if (processor.onPageError) {
+        processor.onPageError(item, error, ctx)
+      } else {
+        sink.emit('log', {
+          message: `Error fetching ${item.url}: ${error.message}`,
+          type: 'error',
+        })
+      }
+    } finally {
+      nofollowPages.delete(item.url)
+    }
+
+    await checkpoint()
+  }
+
+  await checkpoint(true)
+
+  if (cacheMode !== 'off') {
+    sink.emit('log', {
+      message: `Cache: ${cacheCounts.hit} hit, ${cacheCounts.revalidated} revalidated, ${cacheCounts.miss} miss`,
+      type: 'info',
+    })
+  }
+
+  return {
+    pagesProcessed,
+    visited: visited.size,
+    skipped: skipped.size,
+    ...(cacheMode !== 'off' ? { cache: cacheCounts } : {}),
+  }
+}
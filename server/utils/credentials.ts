@@ -0,0 +1,169 @@
+import { createError } from 'h3'
+import type { CookieJar } from './cookie-jar'
+import { matchesHostList } from './site-scope'
+
+/**
+ * Per-host credentials (`RequestSettings.credentials`). Custom headers
+ * can't carry Authorization or Cookie (see `sanitize-headers.ts`), since
+ * they would go to every host a crawl touches; a credential is only sent
+ * to the host it names. Credentials are never written to checkpoints or
+ * logs.
+ *
+ * - `basic`: `Authorization: Basic` from username and password
+ * - `bearer`: `Authorization: Bearer` with the token
+ * - `cookie`: a Cookie header value (`name=value; other=value`)
+ */
+export type CredentialType = 'basic' | 'bearer' | 'cookie'
+
+export interface HostCredential {
+  /** Hostname; `*.example.com` also matches all subdomains */
+  host: string
+  type: CredentialType
+  username?: string
+  password?: string
+  token?: string
+  cookie?: string
+}
+
+const CREDENTIAL_TYPES: CredentialType[] = ['basic', 'bearer', 'cookie']
+const MAX_CREDENTIALS = 20
+const MAX_VALUE_LENGTH = 8192
+const HOST_PATTERN = /^(\*\.)?[a-z0-9.-]+$|^\[[0-9a-f:.]+\]$/
+
+function text(value: unknown): string {
+  return typeof value === 'string' ? value.trim() : ''
+}
+
+/**
+ * Validates the `credentials` field of a request. Returns undefined when
+ * none are set and throws a 400 error for malformed entries. Messages
+ * refer to entries by number and never echo secrets.
+ */
+export function resolveCredentials(
+  input: unknown,
+): HostCredential[] | undefined {
+  if (input === undefined || input === null) return undefined
+  const fail = (message: string) => createError({ statusCode: 400, message })
+  if (!Array.isArray(input)) throw fail('credentials must be a list')
+  if (input.length > MAX_CREDENTIALS) {
+    throw fail(`Too many credentials (max. ${MAX_CREDENTIALS})`)
+  }
+
+  const credentials = input.map((entry: Partial<HostCredential>, i) => {
+    const n = i + 1
+    const host = text(entry?.host).toLowerCase()
+    if (!HOST_PATTERN.test(host)) {
+      throw fail(`Credential ${n} needs a hostname like example.com`)
+    }
+    const type = entry.type as CredentialType
+    if (!CREDENTIAL_TYPES.includes(type)) {
+      throw fail(`Credential ${n} must be of type basic, bearer or cookie`)
+    }
+    const credential: HostCredential = { host, type }
+    if (type === 'basic') {
+      credential.username = text(entry.username)
+      credential.password =
+        typeof entry.password === 'string' ? entry.password : ''
+      if (!credential.username) throw fail(`Credential ${n} needs a username`)
+    } else if (type === 'bearer') {
+      credential.token = text(entry.token)
+      if (!credential.token) throw fail(`Credential ${n} needs a token`)
+    } else {
+      credential.cookie = text(entry.cookie).replace(/^cookie:\s*/i, '')
+      if (!credential.cookie) throw fail(`Credential ${n} needs a cookie`)
+    }
+    const values = [
+      credential.username,
+      credential.password,
+      credential.token,
+      credential.cookie,
+    ]
+    if (
+      values.some((v) => v && (v.length > MAX_VALUE_LENGTH || /[\r\n]/.test(v)))
+    ) {
+      throw fail(`Credential ${n} has an invalid value`)
+    }
+    return credential
+  })
+  return credentials.length > 0 ? credentials : undefined
+}
+
+function credentialsFor(
+  url: string,
+  credentials?: HostCredential[],
+): HostCredential[] {
+  if (!credentials?.length) return []
+  let hostname: string
+  try {
+    hostname = new URL(url).hostname.toLowerCase()
+  } catch {
+    return []
+  }
+  return credentials.filter((c) => matchesHostList(hostname, [c.host]))
+}
+
+/** The Authorization header for `url`: the first matching basic/bearer entry */
+export function authorizationFor(
+  url: string,
+  credentials?: HostCredential[],
+): string | undefined {
+  const match = credentialsFor(url, credentials).find(
+    (c) => c.type !== 'cookie',
+  )
+  if (!match) return undefined
+  if (match.type === 'bearer') return `Bearer ${match.token}`
+  const pair = `${match.username}:${match.password ?? ''}`
+  return `Basic ${Buffer.from(pair).toString('base64')}`
+}
+
+/** Name/value pairs of a Cookie header value */
+export function parseCookieHeader(value: string): [string, string][] {
+  return value
+    .split(';')
+    .map((part) => part.trim())
+    .filter((part) => part.includes('='))
+    .map((part) => {
+      const index = part.indexOf('=')
+      return [part.slice(0, index).trim(), part.slice(index + 1).trim()]
+    })
+}
+
+function credentialCookies(
+  url: string,
+  credentials?: HostCredential[],
+): [string, string][] {
+  return credentialsFor(url, credentials)
+    .filter((c) => c.type === 'cookie')
+    .flatMap((c) => parseCookieHeader(c.cookie ?? ''))
+}
+
+/**
+ * Authorization and Cookie headers for a request to `url`. Cookie
+ * credentials are merged with the jar; a cookie the site set since wins
+ * over a configured one of the same name.
+ */
+export function credentialHeaders(
+  url: string,
+  credentials?: HostCredential[],
+  jar?: CookieJar,
+): Record<string, string> {
+  const headers: Record<string, string> = {}
+  const authorization = authorizationFor(url, credentials)
+  if (authorization) headers.Authorization = authorization
+
+  // The jar lists the most specific path first; that one is kept
+  const jarCookies = new Map<string, string>()
+  for (const cookie of jar?.cookiesFor(url) ?? []) {
+    if (!jarCookies.has(cookie.name)) jarCookies.set(cookie.name, cookie.value)
+  }
+  const cookies = new Map([
+    ...credentialCookies(url, credentials),
+    ...jarCookies,
+  ])
+  if (cookies.size > 0) {
+    headers.Cookie = [...cookies]
+      .map(([name, value]) => `${name}=${value}`)
+      .join('; ')
+  }
+  return headers
+}
@@ -1,54 +1,291 @@
+import type { CircuitBreaker } from './circuit-breaker'
+import type { CookieJar } from './cookie-jar'
+import { credentialHeaders, type HostCredential } from './credentials'
+import {
+  type CacheMode,
+  type CacheStatus,
+  conditionalHeaders,
+  entryToResponse,
+  readCacheEntry,
+  storeResponse,
+} from './http-cache'
+import { proxyDispatcher } from './proxy'
 import { sanitizeHeaders } from './sanitize-headers'
+import { getServerConfig } from './server-config'
+import { assertAllowedTarget, blockedCause, blockedError } from './ssrf-guard'
+import { isAllowedUrl } from './url-validator'
+import { resolveUserAgent } from './user-agents'
 
 export interface RequestSettings {
   timeout: number
   retries: number
+  /** Proxy URL or list, rotated per request (see `proxy.ts`) */
   proxy?: string
   headers?: Record<string, string>
   parallelRequests?: number
+  /** On-disk response cache under OUTPUT_ROOT (default: off) */
+  cache?: CacheMode
+  /** Authorization/Cookie values sent only to their host (see `credentials.ts`) */
+  credentials?: HostCredential[]
+  /** Keep cookies set by responses for later requests of the same run */
+  cookieJar?: boolean
+  /** Preset id or custom User-Agent (see `user-agents.ts`); default from the config */
+  userAgent?: string
 }
 
 export interface FetchWithRetryResult {
   response: Response
   retryCount: number
   loadTime: number
+  /** Set when the cache is on */
+  cacheStatus?: CacheStatus
 }
 
+/** A wait before the next attempt, reported through `onBackoff` */
+export interface Backoff {
+  url: string
+  /** Number of the retry about to be made, starting at 1 */
+  attempt: number
+  delayMs: number
+  /** "HTTP 429", "HTTP 503" or the network error message */
+  reason: string
+  /** The delay was taken from a Retry-After header */
+  retryAfter: boolean
+}
+
+export interface FetchRetryOptions {
+  /** Called before every wait between attempts, e.g. to log it */
+  onBackoff?: (backoff: Backoff) => void
+  /** Records each attempt's outcome for the host */
+  circuitBreaker?: CircuitBreaker
+  /** Sends its cookies and stores the ones responses set */
+  cookieJar?: CookieJar
+}
+
+const BACKOFF_BASE_MS = 1000
+const MAX_BACKOFF_MS = 30000
+// A longer Retry-After ends the retries; the response is returned as is
+const MAX_RETRY_AFTER_MS = 60000
+const MAX_REDIRECTS = 10
+const REDIRECT_STATUSES = new Set([301, 302, 303, 307, 308])
+
+function isRetryableStatus(status: number): boolean {
+  return status === 429 || status >= 500
+}
+
+/**
+ * Parses a Retry-After header (delay in seconds or an HTTP-date) into
+ * milliseconds from `now`. Returns null when missing or invalid.
+ */
+export function parseRetryAfter(
+  value: string | null,
+  now = Date.now(),
+): number | null {
+  const trimmed = value?.trim()
+  if (!trimmed) return null
+  if (/^\d+$/.test(trimmed)) return Number(trimmed) * 1000
+  // HTTP-dates always contain a day and month name; Date.parse alone would
+  // also accept numbers like "-5" as years
+  if (!/[a-z]/i.test(trimmed)) return null
+  const date = Date.parse(trimmed)
+  if (Number.isNaN(date)) return null
+  return Math.max(date - now, 0)
+}
+
+/**
+ * Exponential backoff for retry `attempt` (0-based), capped at 30s. The
+ * delay is drawn from the upper half of the window so parallel requests
+ * don't retry in lockstep.
+ */
+export function backoffDelay(attempt: number, random = Math.random): number {
+  const windowMs = Math.min(BACKOFF_BASE_MS * 2 ** attempt, MAX_BACKOFF_MS)
+  return Math.round(windowMs / 2 + random() * (windowMs / 2))
+}
+
+/**
+ * The headers a cached response is keyed by: the custom headers plus the
+ * credentials for `url`, so responses fetched with and without credentials
+ * are kept apart, and a User-Agent other than the default (entries stored
+ * with the default keep their key). Cookies from the jar change during a
+ * run and are left out.
+ */
+export function cacheKeyHeaders(
+  url: string,
+  settings: Pick<RequestSettings, 'headers' | 'credentials' | 'userAgent'>,
+): Record<string, string> | undefined {
+  const userAgent = resolveUserAgent(settings.userAgent)
+  const custom =
+    userAgent === getServerConfig().userAgents.fetch
+      ? undefined
+      : { 'User-Agent': userAgent }
+  if (!settings.credentials && !custom) return settings.headers
+  return {
+    ...custom,
+    ...settings.headers,
+    ...credentialHeaders(url, settings.credentials),
+  }
+}
+
+/**
+ * Fetches `url`, retrying network errors, 429 and 5xx responses up to
+ * `settings.retries` times. 429/503 responses with Retry-After wait as long
+ * as the server asks; everything else backs off exponentially.
+ *
+ * With `settings.cache` on, responses are stored on disk and known URLs
+ * are revalidated with their ETag/Last-Modified; in `offline` mode only
+ * the cache is read, and uncached URLs fail.
+ */
 export async function fetchWithRetry(
   url: string,
   settings: RequestSettings,
+  options: FetchRetryOptions = {},
+): Promise<FetchWithRetryResult> {
+  const mode = settings.cache ?? 'off'
+  if (mode === 'off') return fetchFromNetwork(url, settings, options)
+
+  const keyHeaders = cacheKeyHeaders(url, settings)
+  const entry = await readCacheEntry(url, keyHeaders)
+  if (mode === 'offline') {
+    if (!entry) throw new Error('Not in cache (offline replay)')
+    return {
+      response: entryToResponse(entry),
+      retryCount: 0,
+      loadTime: 0,
+      cacheStatus: 'hit',
+    }
+  }
+
+  const result = await fetchFromNetwork(
+    url,
+    settings,
+    options,
+    entry ? conditionalHeaders(entry) : {},
+  )
+  if (entry && result.response.status === 304) {
+    return {
+      ...result,
+      response: entryToResponse(entry),
+      cacheStatus: 'revalidated',
+    }
+  }
+  return {
+    ...result,
+    response: await storeResponse(url, result.response, keyHeaders),
+    cacheStatus: 'miss',
+  }
+}
+
+/**
+ * One request of `url` (GET unless `init.method` says otherwise), following
+ * redirects by hand so every hop is checked by the SSRF guard, gets the
+ * credentials and cookies of its own host, and stores the cookies it sets.
+ * All hops go through the same proxy.
+ */
+export async function fetchFollowingRedirects(
+  url: string,
+  settings: RequestSettings,
+  init: {
+    method?: 'GET' | 'HEAD'
+    headers: Record<string, string>
+    signal: AbortSignal
+    cookieJar?: CookieJar
+  },
+): Promise<Response> {
+  // Every attempt takes the next proxy of a list
+  const dispatcher = proxyDispatcher(settings.proxy)
+  let currentUrl = url
+  for (let hop = 0; ; hop++) {
+    // Behind a proxy the guard never sees the target's address
+    if (settings.proxy) await assertAllowedTarget(currentUrl)
+    const response = await fetch(currentUrl, {
+      method: init.method,
+      redirect: 'manual',
+      headers: {
+        'User-Agent': resolveUserAgent(settings.userAgent),
+        ...init.headers,
+        ...credentialHeaders(currentUrl, settings.credentials, init.cookieJar),
+      },
+      signal: init.signal,
+      dispatcher,
+    })
+    init.cookieJar?.store(currentUrl, response.headers)
+
+    const location = response.headers.get('location')
+    if (!REDIRECT_STATUSES.has(response.status) || !location) return response
+    await response.body?.cancel().catch(() => {})
+    if (hop === MAX_REDIRECTS) throw new Error('Too many redirects')
+    currentUrl = new URL(location, currentUrl).href
+    if (!isAllowedUrl(currentUrl)) {
+      throw blockedError(`Redirect to blocked URL ${currentUrl}`)
+    }
+  }
+}
+
+async function fetchFromNetwork(
+  url: string,
+  settings: RequestSettings,
+  options: FetchRetryOptions,
+  conditional: Record<string, string> = {},
 ): Promise<FetchWithRetryResult> {
   const { timeout, retries, headers } = settings
+  const { onBackoff, circuitBreaker, cookieJar } = options
   let lastError: Error | null = null
   const startTime = Date.now()
 
   for (let attempt = 0; attempt <= retries; attempt++) {
+    let delayMs: number
+    let reason: string
+    let retryAfter = false
     try {
       const controller = new AbortController()
       const timeoutId = setTimeout(() => controller.abort(), timeout * 1000)
 
-      const response = await fetch(url, {
-        headers: {
-          'User-Agent': 'Mozilla/5.0 (compatible; URLTools/1.0)',
-          ...sanitizeHeaders(headers),
-        },
+      const response = await fetchFollowingRedirects(url, settings, {
+        headers: { ...sanitizeHeaders(headers), ...conditional },
         signal: controller.signal,
-      })
-      clearTimeout(timeoutId)
+        cookieJar,
+      }).finally(() => clearTimeout(timeoutId))
 
-      if (response.status >= 500 && attempt < retries) {
-        lastError = new Error(`Server error: ${response.status}`)
-        await new Promise((r) => setTimeout(r, 1000 * (attempt + 1)))
-        continue
+      const result = {
+        response,
+        retryCount: attempt,
+        loadTime: Date.now() - startTime,
+      }
+      if (!isRetryableStatus(response.status)) {
+        circuitBreaker?.recordSuccess(url)
+        return result
       }
+      circuitBreaker?.recordFailure(url)
 
-      return { response, retryCount: attempt, loadTime: Date.now() - startTime }
+      const retryAfterMs =
+        response.status === 429 || response.status === 503
+          ? parseRetryAfter(response.headers.get('retry-after'))
+          : null
+      if (
+        attempt >= retries ||
+        (retryAfterMs !== null && retryAfterMs > MAX_RETRY_AFTER_MS)
+      ) {
+        return result
+      }
+      // Free the connection; this response is discarded
+      await response.body?.cancel().catch(() => {})
+
+      reason = `HTTP ${response.status}`
+      retryAfter = retryAfterMs !== null
+      delayMs = retryAfterMs ?? backoffDelay(attempt)
     } catch (error) {
+      // A blocked target stays blocked; it's not the host failing either
+      const blocked = blockedCause(error)
+      if (blocked) throw blocked
       lastError = error instanceof Error ? error : new Error('Unknown error')
-      if (attempt < retries) {
-        await new Promise((r) => setTimeout(r, 1000 * (attempt + 1)))
-      }
+      circuitBreaker?.recordFailure(url)
+      if (attempt >= retries) break
+      reason = lastError.message
+      delayMs = backoffDelay(attempt)
     }
+
+    onBackoff?.({ url, attempt: attempt + 1, delayMs, reason, retryAfter })
+    await new Promise((r) => setTimeout(r, delayMs))
   }
 
   throw lastError
@@ -0,0 +1,191 @@
+import { createError } from 'h3'
+import type { Cookie } from 'puppeteer'
+import type { HostCredential } from './credentials'
+import type { RequestSettings } from './fetch-with-retry'
+import { guardRequests, openPage } from './page-renderer'
+import { sanitizeHeaders } from './sanitize-headers'
+import { getRegistrableDomain } from './site-scope'
+import { isAllowedUrl } from './url-validator'
+import { resolveUserAgent } from './user-agents'
+
+/**
+ * Login recipe: fills a login form in headless Chrome and hands the session
+ * cookies back as cookie credentials, so the fetch-based tools can crawl
+ * the area behind the login.
+ */
+export interface LoginRecipe {
+  /** Page with the login form */
+  loginUrl: string
+  username: string
+  password: string
+  usernameSelector: string
+  passwordSelector: string
+  /** Clicked to submit; without it Enter is pressed in the password field */
+  submitSelector: string
+  /** Element that only exists after a successful login, e.g. a logout link */
+  successSelector: string
+}
+
+export interface LoginSession {
+  /** Where the browser ended up after submitting */
+  finalUrl: string
+  /** One cookie credential per cookie domain */
+  credentials: HostCredential[]
+  cookieCount: number
+}
+
+const DEFAULT_USERNAME_SELECTOR =
+  'input[type="email"], input[autocomplete="username"], input[name*="user" i], input[name*="login" i], input[name*="email" i]'
+const DEFAULT_PASSWORD_SELECTOR = 'input[type="password"]'
+const MAX_SELECTOR_LENGTH = 200
+
+function selector(value: unknown, fallback = ''): string {
+  const trimmed = typeof value === 'string' ? value.trim() : ''
+  if (trimmed.length > MAX_SELECTOR_LENGTH) {
+    throw createError({
+      statusCode: 400,
+      message: `Selectors are limited to ${MAX_SELECTOR_LENGTH} characters`,
+    })
+  }
+  return trimmed || fallback
+}
+
+/** Validates a login request; errors are thrown as h3 errors */
+export function resolveLoginRecipe(input: Partial<LoginRecipe>): LoginRecipe {
+  const loginUrl = typeof input.loginUrl === 'string' ? input.loginUrl : ''
+  if (!loginUrl || !isAllowedUrl(loginUrl)) {
+    throw createError({
+      statusCode: 400,
+      message: 'loginUrl must be an allowed http(s) URL',
+    })
+  }
+  if (typeof input.username !== 'string' || !input.username) {
+    throw createError({ statusCode: 400, message: 'username is required' })
+  }
+  if (typeof input.password !== 'string' || !input.password) {
+    throw createError({ statusCode: 400, message: 'password is required' })
+  }
+  return {
+    loginUrl,
+    username: input.username,
+    password: input.password,
+    usernameSelector: selector(
+      input.usernameSelector,
+      DEFAULT_USERNAME_SELECTOR,
+    ),
+    passwordSelector: selector(
+      input.passwordSelector,
+      DEFAULT_PASSWORD_SELECTOR,
+    ),
+    submitSelector: selector(input.submitSelector),
+    successSelector: selector(input.successSelector),
+  }
+}
+
+/**
+ * Groups browser cookies into cookie credentials. Domain cookies
+ * (`.example.com`) apply to all subdomains, host-only ones to their host.
+ */
+export function cookiesToCredentials(
+  cookies: Cookie[],
+  now = Date.now(),
+): HostCredential[] {
+  const byHost = new Map<string, string[]>()
+  for (const cookie of cookies) {
+    if (!cookie.session && cookie.expires > 0 && cookie.expires * 1000 <= now) {
+      continue
+    }
+    const domain = cookie.domain.toLowerCase()
+    const host = domain.startsWith('.') ? `*${domain}` : domain
+    byHost.set(host, [
+      ...(byHost.get(host) ?? []),
+      `${cookie.name}=${cookie.value}`,
+    ])
+  }
+  return [...byHost].map(
+    ([host, pairs]): HostCredential => ({
+      host,
+      type: 'cookie',
+      cookie: pairs.join('; '),
+    }),
+  )
+}
+
+/**
+ * Runs a login recipe in a fresh browser context and returns the cookies
+ * of the login site (the registrable domains of the login and the final
+ * URL); third-party cookies are dropped. Fails when the success selector
+ * doesn't appear, or (without one) when the password field is still there
+ * after submitting.
+ */
+export async function loginWithForm(
+  recipe: LoginRecipe,
+  settings: RequestSettings,
+): Promise<LoginSession> {
+  const timeoutMs = settings.timeout * 1000
+  const { page, close } = await openPage(settings.proxy, { isolated: true })
+
+  try {
+    await page.setUserAgent(resolveUserAgent(settings.userAgent))
+    await page.setExtraHTTPHeaders(sanitizeHeaders(settings.headers))
+    await guardRequests(page, settings.credentials)
+
+    await page.goto(recipe.loginUrl, {
+      waitUntil: 'networkidle2',
+      timeout: timeoutMs,
+    })
+    const username = await page
+      .waitForSelector(recipe.usernameSelector, { timeout: timeoutMs })
+      .catch(() => null)
+    if (!username) throw new Error('Username field not found')
+    const password = await page.$(recipe.passwordSelector)
+    if (!password) throw new Error('Password field not found')
+    await username.type(recipe.username)
+    await password.type(recipe.password)
+
+    const submitted = recipe.successSelector
+      ? page.waitForSelector(recipe.successSelector, { timeout: timeoutMs })
+      : page.waitForNavigation({
+          waitUntil: 'networkidle2',
+          timeout: timeoutMs,
+        })
+    // Settled here so a failed submit doesn't leave it unhandled
+    const outcome = submitted.then(
+      () => true,
+      () => false,
+    )
+    if (recipe.submitSelector) {
+      await page.click(recipe.submitSelector)
+    } else {
+      await password.press('Enter')
+    }
+    if (!(await outcome)) {
+      throw new Error(
+        recipe.successSelector
+          ? 'Success selector did not appear after submitting'
+          : 'The form was submitted but the page did not change',
+      )
+    }
+    if (!recipe.successSelector && (await page.$(recipe.passwordSelector))) {
+      throw new Error(
+        'Still on the login form after submitting; check the credentials or set a success selector',
+      )
+    }
+
+    const sites = new Set(
+      [recipe.loginUrl, page.url()].map((url) =>
+        getRegistrableDomain(new URL(url).hostname),
+      ),
+    )
+    const cookies = (await page.browserContext().cookies()).filter((cookie) =>
+      sites.has(getRegistrableDomain(cookie.domain.replace(/^\./, ''))),
+    )
+    return {
+      finalUrl: page.url(),
+      credentials: cookiesToCredentials(cookies),
+      cookieCount: cookies.length,
+    }
+  } finally {
+    await close()
+  }
+}
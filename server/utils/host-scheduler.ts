@@ -0,0 +1,209 @@
+export interface HostSchedulerOptions {
+  /** Requests per second per host; omit for no per-host limit */
+  ratePerHost?: number
+  /** Requests a host may receive back-to-back before the rate applies */
+  burst?: number
+  /** Requests in flight across all hosts */
+  concurrency: number
+  /**
+   * Once this returns true, waiting requests reject instead of sleeping out
+   * their token or pause, so a stopped run settles at once
+   */
+  isStopped?: () => boolean
+}
+
+/**
+ * Paces requests per host with a token bucket while capping the requests in
+ * flight overall. Requests to different hosts only wait for each other when
+ * the global concurrency is exhausted.
+ */
+export interface HostScheduler {
+  /**
+   * Runs `task` once the host of `url` has a token and a slot is free.
+   * Rejects without running it when the run stops first.
+   */
+  schedule: <T>(url: string, task: () => Promise<T>) => Promise<T>
+  /**
+   * Enforces a minimum gap between requests to `hostname` (Crawl-delay).
+   * Can only slow a host down, never speed it up.
+   */
+  setHostDelay: (hostname: string, delayMs: number) => void
+  /**
+   * Holds back every request to `hostname` for `durationMs` (Retry-After,
+   * circuit breaker). Requests already running are not affected.
+   */
+  pauseHost: (hostname: string, durationMs: number) => void
+}
+
+interface Bucket {
+  tokens: number
+  updatedAt: number
+  /** Minimum ms between requests; 0 = unlimited */
+  intervalMs: number
+}
+
+interface Waiter {
+  resolve: () => void
+  reject: (error: Error) => void
+}
+
+// How often waiting requests check whether the run was stopped
+const STOP_CHECK_MS = 1000
+
+function hostKey(url: string): string {
+  try {
+    return new URL(url).hostname.toLowerCase()
+  } catch {
+    return ''
+  }
+}
+
+export function createHostScheduler(
+  options: HostSchedulerOptions,
+): HostScheduler {
+  const burst = Math.max(1, options.burst ?? 1)
+  const concurrency = Math.max(1, options.concurrency)
+  const defaultIntervalMs =
+    options.ratePerHost && options.ratePerHost > 0
+      ? 1000 / options.ratePerHost
+      : 0
+  const buckets = new Map<string, Bucket>()
+  const hostDelays = new Map<string, number>()
+  // Timestamp until which a host is paused
+  const pausedUntil = new Map<string, number>()
+  // Tasks waiting for a global slot, FIFO
+  const slotWaiters: Waiter[] = []
+  // Tasks sleeping until their token is due or their host's pause ends
+  const sleepers = new Set<Waiter>()
+  // One timer polls isStopped while anything waits, not one per request
+  let stopCheck: ReturnType<typeof setInterval> | undefined
+  let inFlight = 0
+
+  function stoppedError(): Error {
+    return new Error('Scheduler stopped')
+  }
+
+  function checkStopped() {
+    if (options.isStopped?.()) {
+      for (const waiter of [...sleepers, ...slotWaiters.splice(0)]) {
+        waiter.reject(stoppedError())
+      }
+      sleepers.clear()
+    }
+    if (sleepers.size === 0 && slotWaiters.length === 0) {
+      clearInterval(stopCheck)
+      stopCheck = undefined
+    }
+  }
+
+  function watchStop() {
+    if (options.isStopped && !stopCheck) {
+      stopCheck = setInterval(checkStopped, STOP_CHECK_MS)
+    }
+  }
+
+  function sleep(ms: number): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const waiter: Waiter = {
+        resolve: () => {
+          sleepers.delete(waiter)
+          resolve()
+        },
+        reject: (error) => {
+          clearTimeout(timer)
+          reject(error)
+        },
+      }
+      const timer = setTimeout(waiter.resolve, ms)
+      sleepers.add(waiter)
+      watchStop()
+    })
+  }
+
+  function getBucket(host: string): Bucket {
+    let bucket = buckets.get(host)
+    if (!bucket) {
+      bucket = {
+        tokens: burst,
+        updatedAt: Date.now(),
+        intervalMs: Math.max(defaultIntervalMs, hostDelays.get(host) ?? 0),
+      }
+      buckets.set(host, bucket)
+    }
+    return bucket
+  }
+
+  /**
+   * Takes a token from the host's bucket and returns how long to wait for
+   * it. Tokens may go negative: each caller reserves the next free slot, so
+   * concurrent callers queue up behind each other instead of all waking at
+   * the same moment.
+   */
+  function reserve(host: string): number {
+    const bucket = getBucket(host)
+    if (bucket.intervalMs === 0) return 0
+
+    const now = Date.now()
+    const refilled = (now - bucket.updatedAt) / bucket.intervalMs
+    bucket.tokens = Math.min(burst, bucket.tokens + refilled)
+    bucket.updatedAt = now
+    bucket.tokens -= 1
+    return bucket.tokens >= 0 ? 0 : -bucket.tokens * bucket.intervalMs
+  }
+
+  async function acquireSlot(): Promise<void> {
+    if (inFlight < concurrency) {
+      inFlight++
+      return
+    }
+    // The releasing task hands its slot over directly
+    await new Promise<void>((resolve, reject) => {
+      slotWaiters.push({ resolve, reject })
+      watchStop()
+    })
+  }
+
+  function releaseSlot() {
+    const next = slotWaiters.shift()
+    if (next) next.resolve()
+    else inFlight--
+  }
+
+  return {
+    async schedule(url, task) {
+      if (options.isStopped?.()) throw stoppedError()
+      const host = hostKey(url)
+      const waitMs = reserve(host)
+      if (waitMs > 0) await sleep(waitMs)
+      // A pause may be set or extended while we wait
+      let pauseMs = (pausedUntil.get(host) ?? 0) - Date.now()
+      while (pauseMs > 0) {
+        await sleep(pauseMs)
+        pauseMs = (pausedUntil.get(host) ?? 0) - Date.now()
+      }
+      await acquireSlot()
+      if (options.isStopped?.()) {
+        releaseSlot()
+        throw stoppedError()
+      }
+      try {
+        return await task()
+      } finally {
+        releaseSlot()
+      }
+    },
+    setHostDelay(hostname, delayMs) {
+      const host = hostname.toLowerCase()
+      const current = hostDelays.get(host) ?? 0
+      if (delayMs <= current) return
+      hostDelays.set(host, delayMs)
+      const bucket = buckets.get(host)
+      if (bucket) bucket.intervalMs = Math.max(bucket.intervalMs, delayMs)
+    },
+    pauseHost(hostname, durationMs) {
+      const host = hostname.toLowerCase()
+      const until = Date.now() + durationMs
+      if (until > (pausedUntil.get(host) ?? 0)) pausedUntil.set(host, until)
+    },
+  }
+}
@@ -0,0 +1,176 @@
+import { createHash } from 'node:crypto'
+import { mkdir, readFile, rename, writeFile } from 'node:fs/promises'
+import { join } from 'node:path'
+import { OUTPUT_ROOT } from './path-guard'
+import { sanitizeHeaders } from './sanitize-headers'
+
+/**
+ * - `off`: no cache (default)
+ * - `revalidate`: store responses; send `If-None-Match`/`If-Modified-Since`
+ *   for known URLs and reuse the stored body on 304
+ * - `offline`: answer from the cache only, never touch the network
+ */
+export type CacheMode = 'off' | 'revalidate' | 'offline'
+
+/** How a response was obtained when the cache is on */
+export type CacheStatus = 'hit' | 'miss' | 'revalidated'
+
+export interface CacheEntry {
+  url: string
+  status: number
+  headers: Record<string, string>
+  /** Base64, so binary bodies (gzipped sitemaps) survive */
+  body: string
+  storedAt: string
+}
+
+export const CACHE_DIR = join(OUTPUT_ROOT, 'http-cache')
+
+const CACHE_MODES: CacheMode[] = ['off', 'revalidate', 'offline']
+// Larger bodies are fetched normally but not stored
+const MAX_CACHED_BODY = 10 * 1024 * 1024
+
+export function resolveCacheMode(input: unknown): CacheMode {
+  return CACHE_MODES.find((mode) => mode === input) ?? 'off'
+}
+
+/**
+ * Cache key: the URL plus the custom request headers, since they can change
+ * the response (User-Agent, Accept-Language, ...). Header names are
+ * compared case-insensitively.
+ */
+export function cacheKey(
+  url: string,
+  headers?: Record<string, string>,
+): string {
+  const relevant = Object.entries(sanitizeHeaders(headers))
+    .map(([name, value]) => [name.toLowerCase(), value])
+    .sort(([a], [b]) => a.localeCompare(b))
+  return createHash('sha256')
+    .update(JSON.stringify([url, relevant]))
+    .digest('hex')
+}
+
+function entryPath(root: string, key: string): string {
+  // Two-character shards keep directories small on large crawls
+  return join(root, key.slice(0, 2), `${key}.json`)
+}
+
+export async function readCacheEntry(
+  url: string,
+  headers?: Record<string, string>,
+  root = CACHE_DIR,
+): Promise<CacheEntry | null> {
+  try {
+    const raw = await readFile(entryPath(root, cacheKey(url, headers)), 'utf-8')
+    return JSON.parse(raw) as CacheEntry
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Reads up to MAX_CACHED_BODY bytes of `response`. When the body is
+ * larger, `body` is null and `copy` replays what was read followed by the
+ * rest of the stream, so the caller's own size cap still applies without
+ * the whole body being buffered here.
+ */
+async function bufferBody(
+  response: Response,
+): Promise<{ body: Buffer | null; copy: Response }> {
+  const init = {
+    status: response.status,
+    statusText: response.statusText,
+    headers: response.headers,
+  }
+  const reader = response.body?.getReader()
+  const chunks: Uint8Array[] = []
+  let size = 0
+  while (reader) {
+    const { done, value } = await reader.read()
+    if (done) break
+    chunks.push(value)
+    size += value.byteLength
+    if (size > MAX_CACHED_BODY) {
+      const rest = new ReadableStream<Uint8Array>({
+        start(controller) {
+          for (const chunk of chunks) controller.enqueue(chunk)
+        },
+        async pull(controller) {
+          const next = await reader.read()
+          if (next.done) controller.close()
+          else controller.enqueue(next.value)
+        },
+        cancel(reason) {
+          return reader.cancel(reason)
+        },
+      })
+      return { body: null, copy: new Response(rest, init) }
+    }
+  }
+  const body = Buffer.concat(chunks, size)
+  return { body, copy: new Response(body, init) }
+}
+
+/**
+ * Stores `response` and returns an unread copy of it, or the response
+ * itself when it is not cacheable (server errors, 429, bare 304s,
+ * oversized bodies).
+ */
+export async function storeResponse(
+  url: string,
+  response: Response,
+  headers?: Record<string, string>,
+  root = CACHE_DIR,
+): Promise<Response> {
+  const contentLength = Number(response.headers.get('content-length') || 0)
+  if (
+    response.status >= 500 ||
+    response.status === 429 ||
+    response.status === 304 ||
+    contentLength > MAX_CACHED_BODY
+  ) {
+    return response
+  }
+
+  const { body, copy } = await bufferBody(response)
+  if (!body) return copy
+
+  const entry: CacheEntry = {
+    url,
+    status: response.status,
+    headers: Object.fromEntries(response.headers),
+    body: body.toString('base64'),
+    storedAt: new Date().toISOString(),
+  }
+  const target = entryPath(root, cacheKey(url, headers))
+  try {
+    await mkdir(join(target, '..'), { recursive: true })
+    // Write-then-rename so parallel crawls never read a partial entry
+    await writeFile(`${target}.tmp`, JSON.stringify(entry), 'utf-8')
+    await rename(`${target}.tmp`, target)
+  } catch {
+    // A failed write only costs the next crawl a download
+  }
+  return copy
+}
+
+/** Validators for a conditional request against a stored entry */
+export function conditionalHeaders(entry: CacheEntry): Record<string, string> {
+  const conditional: Record<string, string> = {}
+  if (entry.headers.etag) conditional['If-None-Match'] = entry.headers.etag
+  if (entry.headers['last-modified']) {
+    conditional['If-Modified-Since'] = entry.headers['last-modified']
+  }
+  return conditional
+}
+
+/** Rebuilds the stored response */
+export function entryToResponse(entry: CacheEntry): Response {
+  // Response rejects bodies for null-body statuses such as 204 and 304
+  const nullBody = [101, 204, 205, 304].includes(entry.status)
+  return new Response(nullBody ? null : Buffer.from(entry.body, 'base64'), {
+    status: entry.status,
+    headers: entry.headers,
+  })
+}
@@ -0,0 +1,314 @@
+import { createError } from 'h3'
+import {
+  type CheckpointStatus,
+  createCheckpoint,
+  type ResumedJob,
+  releaseOnError,
+  resolveCheckpointRequest,
+} from './crawl-checkpoint'
+import {
+  type CrawlPolicyRequest,
+  type CrawlRun,
+  clampRequestSettings,
+  runCrawl,
+} from './crawl-engine'
+import type { RequestSettings } from './fetch-with-retry'
+import {
+  type InboundLink,
+  matchesTarget,
+  normalizeTargets,
+} from './inbound-matcher'
+import { decideEmitInbound } from './inbound-stream-helpers'
+import { extractLinks } from './link-analyzer'
+import { getServerConfig } from './server-config'
+import { fetchSitemapUrls } from './sitemap'
+import {
+  resolveSitemapInput,
+  SITEMAP_DISCOVERY_LABELS,
+} from './sitemap-discovery'
+import { isAllowedUrl } from './url-validator'
+
+type TargetMode = 'single' | 'multi' | 'matrix'
+type CrawlScope = 'recursive' | 'sitemap'
+
+export interface AnalyzeInboundRequest extends CrawlPolicyRequest {
+  startUrls: string[]
+  crawlScope: CrawlScope
+  targetMode: TargetMode
+  targets?: string[]
+  maxUrls?: number
+  maxDepth?: number
+  rateLimit?: number
+  urlFilter?: string
+  pathInclude?: string
+  pathExclude?: string
+  settings?: RequestSettings
+  resumeJobId?: string // Continue an interrupted job instead of starting anew
+}
+
+/**
+ * Validates an inbound-link analysis request and returns the crawl to run.
+ * Validation errors are thrown as h3 errors before any stream is opened.
+ */
+export async function prepareInboundLinks(
+  input: AnalyzeInboundRequest,
+): Promise<CrawlRun> {
+  const { request, resume } = await resolveCheckpointRequest(
+    'inbound-links',
+    input,
+  )
+  return releaseOnError(resume, () => inboundLinksRun(request, resume))
+}
+
+function inboundLinksRun(
+  body: AnalyzeInboundRequest,
+  resume: ResumedJob | null,
+): CrawlRun {
+  const {
+    maxUrls: defaultMaxUrls,
+    maxTargets,
+    maxResults,
+  } = getServerConfig().limits
+
+  if (
+    !body.startUrls ||
+    !Array.isArray(body.startUrls) ||
+    body.startUrls.length === 0
+  ) {
+    throw createError({ statusCode: 400, message: 'startUrls array required' })
+  }
+
+  if (body.crawlScope !== 'recursive' && body.crawlScope !== 'sitemap') {
+    throw createError({ statusCode: 400, message: 'invalid crawlScope' })
+  }
+
+  if (
+    body.targetMode !== 'single' &&
+    body.targetMode !== 'multi' &&
+    body.targetMode !== 'matrix'
+  ) {
+    throw createError({ statusCode: 400, message: 'invalid targetMode' })
+  }
+
+  const targetsInput = body.targets ?? []
+  if (body.targetMode !== 'matrix') {
+    if (targetsInput.length === 0) {
+      throw createError({
+        statusCode: 400,
+        message: 'targets required for single/multi mode',
+      })
+    }
+    if (targetsInput.length > maxTargets) {
+      throw createError({
+        statusCode: 400,
+        message: `too many targets (max ${maxTargets})`,
+      })
+    }
+  }
+
+  const settings = clampRequestSettings(body.settings)
+  const maxUrls = Math.min(
+    Math.max(body.maxUrls || defaultMaxUrls.inboundLinks, 1),
+    10000,
+  )
+  const maxDepth = Math.min(Math.max(body.maxDepth ?? 3, 0), 10)
+  const rateLimit = Math.max(body.rateLimit || 2, 0.1)
+
+  const normalizedTargetSet = normalizeTargets(targetsInput, body.canonical)
+
+  return async (sink) => {
+    // Dedup identical (source, target) pairs — mostly matters for matrix mode
+    // where nav links repeat on every page.
+    const emittedEdges = new Set<string>()
+    let inboundFound = 0
+    const checkpoint =
+      resume?.store ?? (await createCheckpoint('inbound-links', body))
+    // Results found since the last checkpoint
+    const unsaved: InboundLink[] = []
+    let status: CheckpointStatus = 'interrupted'
+
+    async function seedFromSitemaps(): Promise<string[]> {
+      const seeds: string[] = []
+      sink.emit('log', { message: 'Fetching sitemap(s)...', type: 'info' })
+      for (const startUrl of body.startUrls) {
+        if (!isAllowedUrl(startUrl)) continue
+        try {
+          const discovered = await resolveSitemapInput(startUrl, settings)
+          for (const sitemap of discovered) {
+            if (sitemap.method === 'input') continue
+            sink.emit('log', {
+              message: `Found sitemap ${sitemap.url} (${SITEMAP_DISCOVERY_LABELS[sitemap.method]})`,
+              type: 'info',
+            })
+          }
+          if (discovered.length === 0) {
+            sink.emit('log', {
+              message: `No sitemap found for ${startUrl}`,
+              type: 'error',
+            })
+            continue
+          }
+          const sitemapUrls = discovered.map((sitemap) => sitemap.url)
+          const { entries } = await fetchSitemapUrls(sitemapUrls, settings, {
+            recursive: true,
+            onSitemapFetched: (url, n) => {
+              sink.emit('log', {
+                message: `Fetched sitemap ${url} (${n} entries)`,
+                type: 'progress',
+              })
+              sink.emit('progress', {
+                done: 0,
+                total: 0,
+                currentUrl: url,
+              })
+            },
+          })
+          for (const entry of entries) seeds.push(entry.loc)
+        } catch (err) {
+          sink.emit('log', {
+            message: `Sitemap fetch failed: ${err instanceof Error ? err.message : 'unknown'}`,
+            type: 'error',
+          })
+        }
+      }
+      sink.emit('log', {
+        message: `Seeded ${seeds.length} URL(s) from sitemap`,
+        type: 'info',
+      })
+      return seeds
+    }
+
+    sink.emit('job', { jobId: checkpoint.jobId })
+
+    try {
+      if (resume) {
+        // Replay what earlier runs found and rebuild the dedup state from it
+        for (const inbound of (await checkpoint.readResults()) as InboundLink[]) {
+          emittedEdges.add(`${inbound.sourceUrl}|${inbound.targetUrl}`)
+          inboundFound++
+          sink.emit('result', inbound)
+        }
+        sink.emit('log', {
+          message: `Resuming job ${checkpoint.jobId}: ${inboundFound} result(s) replayed, ${resume.checkpoint.state?.queue.length ?? 0} URL(s) queued`,
+          type: 'info',
+        })
+      } else if (body.crawlScope === 'recursive') {
+        sink.emit('log', {
+          message: `Starting recursive crawl with ${body.startUrls.length} seed(s)`,
+          type: 'info',
+        })
+      }
+
+      const summary = await runCrawl(
+        sink,
+        {
+          seeds:
+            body.crawlScope === 'sitemap' ? seedFromSitemaps : body.startUrls,
+          settings,
+          recursive: body.crawlScope === 'recursive',
+          maxDepth,
+          maxPages: maxUrls,
+          sameDomainOnly: true,
+          rateLimit,
+          urlFilter: body.urlFilter,
+          pathInclude: body.pathInclude,
+          pathExclude: body.pathExclude,
+          respectRobots: body.respectRobots === true,
+          respectNofollow: body.respectNofollow === true,
+          render: body.render,
+          robotsUserAgent: body.robotsUserAgent,
+          canonical: body.canonical,
+          siteScope: body.siteScope,
+          resumeFrom: resume?.checkpoint.state ?? undefined,
+          onCheckpoint: (state) => checkpoint.save(state, unsaved.splice(0)),
+        },
+        {
+          async processPage(
+            { item, html, response, cacheStatus, encoding },
+            ctx,
+          ) {
+            const sourceStatus = response.status
+            const links = extractLinks(
+              html,
+              item.url,
+              body.canonical,
+              body.siteScope,
+            ).filter((link) => link.kind === 'anchor')
+
+            let pageHits = 0
+            for (const link of links) {
+              if (!link.isInternal) continue
+
+              const isMatch =
+                body.targetMode === 'matrix' ||
+                matchesTarget(
+                  link.targetUrl,
+                  normalizedTargetSet,
+                  body.canonical,
+                )
+
+              if (isMatch) {
+                const decision = decideEmitInbound(
+                  item.url,
+                  link.targetUrl,
+                  emittedEdges,
+                  inboundFound,
+                  maxResults,
+                )
+                if (decision.kind === 'emit') {
+                  const inbound: InboundLink = {
+                    sourceUrl: item.url,
+                    targetUrl: link.targetUrl,
+                    anchorText: link.anchorText,
+                    rel: link.rel.join(', '),
+                    sourceStatus,
+                    sourceCache: cacheStatus,
+                    sourceEncoding: encoding,
+                    depth: item.depth,
+                  }
+                  sink.emit('result', inbound)
+                  unsaved.push(inbound)
+                  inboundFound++
+                  pageHits++
+                  if (decision.capReached) {
+                    ctx.stop()
+                    sink.emit('log', {
+                      message: `Result cap reached (${maxResults}); stopping early`,
+                      type: 'error',
+                    })
+                    break
+                  }
+                }
+              }
+
+              // Recursive crawl: enqueue internal link as next page to fetch
+              await ctx.follow(link.targetUrl, item, link.rel)
+            }
+
+            sink.emit('log', {
+              message: `Scanned ${item.url} — ${pageHits} inbound match(es), ${links.length} links total`,
+              type: pageHits > 0 ? 'success' : 'info',
+            })
+          },
+        },
+      )
+
+      status = sink.isClosed() ? 'interrupted' : 'completed'
+
+      sink.emit('done', {
+        jobId: checkpoint.jobId,
+        pagesProcessed: summary.pagesProcessed,
+        inboundFound,
+        visited: summary.visited,
+        skipped: summary.skipped,
+        cache: summary.cache,
+      })
+      sink.emit('log', {
+        message: `Complete: ${inboundFound} inbound link(s) across ${summary.pagesProcessed} page(s)`,
+        type: 'success',
+      })
+    } finally {
+      await checkpoint.close(status)
+    }
+  }
+}
@@ -1,4 +1,6 @@
+import type { CacheStatus } from './http-cache'
 import { normalizeUrl } from './link-analyzer'
+import type { CanonicalRules } from './url-canonical'
 
 export interface InboundLink {
   sourceUrl: string
@@ -6,6 +8,8 @@ export interface InboundLink {
   anchorText: string
   rel: string
   sourceStatus: number
+  sourceCache?: CacheStatus // How the source page was fetched (cache on)
+  sourceEncoding?: string // Charset the source page was decoded with
   depth: number
 }
 
@@ -23,10 +27,13 @@ export interface InboundGroup {
   anchorDistribution: Record<string, number>
 }
 
-export function normalizeTargets(targets: string[]): Set<string> {
+export function normalizeTargets(
+  targets: string[],
+  rules?: CanonicalRules,
+): Set<string> {
   const set = new Set<string>()
   for (const target of targets) {
-    const normalized = normalizeUrl(target)
+    const normalized = normalizeUrl(target, undefined, rules)
     if (normalized) set.add(normalized)
   }
   return set
@@ -35,8 +42,9 @@ export function normalizeTargets(targets: string[]): Set<string> {
 export function matchesTarget(
   targetUrl: string,
   normalizedTargets: Set<string>,
+  rules?: CanonicalRules,
 ): boolean {
-  const normalized = normalizeUrl(targetUrl)
+  const normalized = normalizeUrl(targetUrl, undefined, rules)
   if (!normalized) return false
   return normalizedTargets.has(normalized)
 }
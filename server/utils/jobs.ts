@@ -0,0 +1,240 @@
+import { randomUUID } from 'node:crypto'
+import type { CrawlRun, CrawlSink } from './crawl-engine'
+
+export type JobTool =
+  | 'scrape-links'
+  | 'check-links'
+  | 'inbound-links'
+  | 'cloaking-check'
+  | 'sitemap-status'
+export type JobStatus =
+  | 'running'
+  | 'paused'
+  | 'completed'
+  | 'failed'
+  | 'cancelled'
+
+export interface JobEvent {
+  /** Sequential per job, starting at 1; used as the SSE event id */
+  id: number
+  event: string
+  data: unknown
+}
+
+export interface JobSummary {
+  jobId: string
+  tool: JobTool
+  status: JobStatus
+  eventCount: number
+  createdAt: string
+  updatedAt: string
+}
+
+type JobListener = (event: JobEvent) => void
+
+interface Job {
+  id: string
+  tool: JobTool
+  status: JobStatus
+  /**
+   * Ring buffer of the latest events: the event with id `n` sits at
+   * `(n - 1) % MAX_JOB_EVENTS`, so a full buffer is overwritten in place
+   */
+  events: JobEvent[]
+  nextEventId: number
+  listeners: Set<JobListener>
+  // Callbacks of a crawl waiting in untilResumed()
+  resumeWaiters: (() => void)[]
+  createdAt: string
+  updatedAt: string
+}
+
+// Oldest events are dropped beyond this; replays then start mid-job
+export const MAX_JOB_EVENTS = 20000
+// Finished jobs kept in memory for late reattaching
+const MAX_FINISHED_JOBS = 20
+
+const jobs = new Map<string, Job>()
+
+function isFinished(job: Job): boolean {
+  return (
+    job.status === 'completed' ||
+    job.status === 'failed' ||
+    job.status === 'cancelled'
+  )
+}
+
+function toSummary(job: Job): JobSummary {
+  return {
+    jobId: job.id,
+    tool: job.tool,
+    status: job.status,
+    eventCount: job.nextEventId - 1,
+    createdAt: job.createdAt,
+    updatedAt: job.updatedAt,
+  }
+}
+
+function touch(job: Job) {
+  job.updatedAt = new Date().toISOString()
+}
+
+function append(job: Job, eventName: string, data: unknown) {
+  const entry: JobEvent = { id: job.nextEventId++, event: eventName, data }
+  job.events[(entry.id - 1) % MAX_JOB_EVENTS] = entry
+  for (const listener of job.listeners) listener(entry)
+}
+
+function releaseWaiters(job: Job) {
+  for (const resolve of job.resumeWaiters.splice(0)) resolve()
+}
+
+function finish(job: Job, status: JobStatus) {
+  job.status = status
+  touch(job)
+  releaseWaiters(job)
+  // Lets attached clients close their stream without guessing
+  append(job, 'end', { status })
+  job.listeners.clear()
+}
+
+function pruneFinishedJobs() {
+  const finished = [...jobs.values()]
+    .filter(isFinished)
+    .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt))
+  for (const job of finished.slice(MAX_FINISHED_JOBS)) jobs.delete(job.id)
+}
+
+function createJobSink(job: Job): CrawlSink {
+  return {
+    emit(eventName, data) {
+      if (job.status === 'cancelled') return
+      append(job, eventName, data)
+    },
+    isClosed: () => job.status === 'cancelled',
+    untilResumed() {
+      if (job.status !== 'paused') return Promise.resolve()
+      return new Promise((resolve) => job.resumeWaiters.push(resolve))
+    },
+  }
+}
+
+/**
+ * Runs a prepared tool in the background, detached from any request. Events
+ * are buffered on the job so clients can attach (and reattach) at any time.
+ */
+export function startJob(tool: JobTool, run: CrawlRun): JobSummary {
+  pruneFinishedJobs()
+
+  const now = new Date().toISOString()
+  const job: Job = {
+    id: randomUUID(),
+    tool,
+    status: 'running',
+    events: [],
+    nextEventId: 1,
+    listeners: new Set(),
+    resumeWaiters: [],
+    createdAt: now,
+    updatedAt: now,
+  }
+  jobs.set(job.id, job)
+
+  run(createJobSink(job))
+    .then(() => {
+      if (job.status !== 'cancelled') finish(job, 'completed')
+    })
+    .catch((error) => {
+      if (job.status === 'cancelled') return
+      append(job, 'error', {
+        message: error instanceof Error ? error.message : 'Unknown error',
+      })
+      finish(job, 'failed')
+    })
+
+  return toSummary(job)
+}
+
+export function getJob(jobId: string): JobSummary | null {
+  const job = jobs.get(jobId)
+  return job ? toSummary(job) : null
+}
+
+/**
+ * Lists all jobs known to this server process, newest first.
+ */
+export function listJobs(): JobSummary[] {
+  return [...jobs.values()]
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+    .map(toSummary)
+}
+
+/**
+ * Pauses a running job before its next page. Returns null for unknown jobs
+ * and leaves finished jobs untouched.
+ */
+export function pauseJob(jobId: string): JobSummary | null {
+  const job = jobs.get(jobId)
+  if (!job) return null
+  if (job.status === 'running') {
+    job.status = 'paused'
+    touch(job)
+    append(job, 'log', { message: 'Job paused', type: 'info' })
+  }
+  return toSummary(job)
+}
+
+export function resumeJob(jobId: string): JobSummary | null {
+  const job = jobs.get(jobId)
+  if (!job) return null
+  if (job.status === 'paused') {
+    job.status = 'running'
+    touch(job)
+    append(job, 'log', { message: 'Job resumed', type: 'info' })
+    releaseWaiters(job)
+  }
+  return toSummary(job)
+}
+
+/**
+ * Stops a job the same way a closed SSE connection stops a crawl: the
+ * current page finishes, then the crawl winds down and checkpoints.
+ */
+export function cancelJob(jobId: string): JobSummary | null {
+  const job = jobs.get(jobId)
+  if (!job) return null
+  if (!isFinished(job)) {
+    append(job, 'log', { message: 'Job cancelled', type: 'info' })
+    finish(job, 'cancelled')
+  }
+  return toSummary(job)
+}
+
+/**
+ * Replays buffered events after `afterId` and then forwards new ones until
+ * the job ends. Returns an unsubscribe function, or null for unknown jobs.
+ */
+export function subscribeJob(
+  jobId: string,
+  afterId: number,
+  listener: JobListener,
+): (() => void) | null {
+  const job = jobs.get(jobId)
+  if (!job) return null
+
+  const oldestId = job.nextEventId - job.events.length
+  for (let id = Math.max(afterId + 1, oldestId); id < job.nextEventId; id++) {
+    const entry = job.events[(id - 1) % MAX_JOB_EVENTS]
+    if (entry) listener(entry)
+  }
+  if (isFinished(job)) return () => {}
+
+  job.listeners.add(listener)
+  return () => {
+    job.listeners.delete(listener)
+  }
+}
+
+export function __resetJobsForTests() {
+  jobs.clear()
+}
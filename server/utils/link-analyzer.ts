@@ -1,116 +1,288 @@
 import * as cheerio from 'cheerio'
+import type { Dispatcher } from 'undici'
+import type { CookieJar } from './cookie-jar'
+import { credentialHeaders, type HostCredential } from './credentials'
+import { cacheKeyHeaders, type RequestSettings } from './fetch-with-retry'
+import { entryToResponse, readCacheEntry, storeResponse } from './http-cache'
+import { proxyDispatcher } from './proxy'
+import { sanitizeHeaders } from './sanitize-headers'
+import { isInScope, type SiteScope } from './site-scope'
+import { assertAllowedTarget, blockedCause } from './ssrf-guard'
+import { type CanonicalRules, canonicalizeUrl } from './url-canonical'
 import { isAllowedUrl } from './url-validator'
+import { resolveUserAgent } from './user-agents'
+
+/**
+ * What a reference points at. `anchor` covers `<a href>` and sitemap
+ * `<loc>` entries; `hreflang` is `<link rel="alternate" hreflang>`;
+ * `pagination` is `<link rel="next|prev">`; `image` includes srcset
+ * candidates, video posters and icons; `media` is video/audio sources.
+ */
+export type LinkKind =
+  | 'anchor'
+  | 'canonical'
+  | 'hreflang'
+  | 'pagination'
+  | 'iframe'
+  | 'script'
+  | 'stylesheet'
+  | 'image'
+  | 'media'
+  | 'meta-refresh'
+
+export const LINK_KINDS: LinkKind[] = [
+  'anchor',
+  'canonical',
+  'hreflang',
+  'pagination',
+  'iframe',
+  'script',
+  'stylesheet',
+  'image',
+  'media',
+  'meta-refresh',
+]
+
+// Kinds that point at HTML pages and may be crawled further
+const PAGE_KINDS = new Set<LinkKind>([
+  'anchor',
+  'canonical',
+  'hreflang',
+  'pagination',
+  'iframe',
+  'meta-refresh',
+])
 
 export interface LinkInfo {
   sourceUrl: string
   targetUrl: string
-  anchorText: string
+  anchorText: string // Link text; alt text for images
   rel: string[]
+  kind: LinkKind
+  hreflang?: string
   isInternal: boolean
 }
 
 export interface RedirectStep {
   url: string
   status: number
+  /** GET when the server rejected HEAD */
+  method: 'HEAD' | 'GET'
+  /** Absolute redirect target, for 3xx responses with a Location header */
+  location?: string
+  /** Milliseconds until the response headers arrived */
+  responseTime: number
+  /** Selected response headers (content-type, cache-control, ...) */
+  headers: Record<string, string>
 }
 
 /**
- * Checks if a link is internal (same domain)
+ * Checks if a link is internal: same host, or in the job's site scope
  */
-export function isInternalLink(baseUrl: string, targetUrl: string): boolean {
+export function isInternalLink(
+  baseUrl: string,
+  targetUrl: string,
+  scope?: SiteScope,
+): boolean {
   try {
     const base = new URL(baseUrl)
     const target = new URL(targetUrl, baseUrl)
-    return base.hostname === target.hostname
+    return isInScope(base.hostname, target.hostname, scope)
   } catch {
     return false
   }
 }
 
 /**
- * Normalizes a URL (removes fragment, trailing slash)
+ * Normalizes a URL (removes fragment, trailing slash) and applies the job's
+ * canonicalization rules, if any
  */
-export function normalizeUrl(url: string, baseUrl?: string): string | null {
+export function normalizeUrl(
+  url: string,
+  baseUrl?: string,
+  rules?: CanonicalRules,
+): string | null {
+  return canonicalizeUrl(url, rules, baseUrl)
+}
+
+// Statuses some servers return to HEAD although GET works
+const HEAD_REJECTED = new Set([403, 405, 501])
+
+// Response headers recorded per hop
+const HOP_HEADERS = [
+  'content-type',
+  'content-length',
+  'cache-control',
+  'last-modified',
+  'server',
+  'x-robots-tag',
+]
+
+export interface RedirectChainResult {
+  chain: RedirectStep[]
+  finalUrl: string
+  finalStatus: number
+  error?: string
+}
+
+function pickHopHeaders(headers: Headers): Record<string, string> {
+  const picked: Record<string, string> = {}
+  for (const name of HOP_HEADERS) {
+    const value = headers.get(name)
+    if (value !== null) picked[name] = value
+  }
+  return picked
+}
+
+/** What every hop of a redirect chain is sent with */
+export interface ChainRequestOptions {
+  userAgent?: string
+  headers?: Record<string, string>
+  proxy?: string
+  credentials?: HostCredential[]
+  jar?: CookieJar
+  /** Runs each hop, e.g. through a host scheduler so every request is paced */
+  schedule?: <T>(url: string, task: () => Promise<T>) => Promise<T>
+}
+
+async function requestHop(
+  url: string,
+  method: 'HEAD' | 'GET',
+  timeoutMs: number,
+  request: ChainRequestOptions,
+  dispatcher?: Dispatcher,
+  keepBody = false,
+): Promise<Response> {
+  // Behind a proxy the guard never sees the target's address
+  if (request.proxy) await assertAllowedTarget(url)
+  const controller = new AbortController()
+  const timeoutId = setTimeout(() => controller.abort(), timeoutMs)
   try {
-    const parsed = new URL(url, baseUrl)
-    // Remove fragment
-    parsed.hash = ''
-    // Normalize trailing slash (except for root)
-    let normalized = parsed.href
-    if (normalized.endsWith('/') && parsed.pathname !== '/') {
-      normalized = normalized.slice(0, -1)
+    const response = await fetch(url, {
+      method,
+      redirect: 'manual',
+      headers: {
+        'User-Agent': resolveUserAgent(request.userAgent),
+        ...sanitizeHeaders(request.headers),
+        ...credentialHeaders(url, request.credentials, request.jar),
+      },
+      signal: controller.signal,
+      dispatcher,
+    })
+    request.jar?.store(url, response.headers)
+    // Only the status and headers are needed; don't download the body
+    if (method === 'GET' && !keepBody) {
+      await response.body?.cancel().catch(() => {})
     }
-    return normalized
-  } catch {
-    return null
+    return response
+  } finally {
+    clearTimeout(timeoutId)
   }
 }
 
 /**
- * Follows redirects and returns the chain
+ * Follows redirects and returns the chain. Each hop is requested with HEAD
+ * and retried with GET when the server rejects HEAD (403/405/501). Sends
+ * the job's User-Agent and custom headers (a `User-Agent` header wins),
+ * and each hop gets the credentials and jar cookies of its own host. All
+ * hops of a chain go through the same proxy of the job's list.
  */
-export async function getRedirectChain(
+export function getRedirectChain(
   url: string,
   maxRedirects = 5,
   timeoutMs = 5000,
-): Promise<{
-  chain: RedirectStep[]
-  finalUrl: string
-  finalStatus: number
-  error?: string
-}> {
+  request: ChainRequestOptions = {},
+): Promise<RedirectChainResult> {
+  return followRedirects(url, maxRedirects, timeoutMs, request, false)
+}
+
+/**
+ * The loop behind `getRedirectChain` and `fetchRedirectChain`. With
+ * `readBody`, every hop is a GET and the final response is returned with
+ * its body unread.
+ */
+async function followRedirects(
+  url: string,
+  maxRedirects: number,
+  timeoutMs: number,
+  request: ChainRequestOptions,
+  readBody: boolean,
+): Promise<RedirectChainResult & { response?: Response }> {
+  const dispatcher = proxyDispatcher(request.proxy)
+  const schedule =
+    request.schedule ??
+    (<T>(_url: string, task: () => Promise<T>): Promise<T> => task())
   const chain: RedirectStep[] = []
+  const visited = new Set<string>()
   let currentUrl = url
   let redirectCount = 0
 
   while (redirectCount < maxRedirects) {
     try {
-      const controller = new AbortController()
-      const timeoutId = setTimeout(() => controller.abort(), timeoutMs)
-
-      const response = await fetch(currentUrl, {
-        method: 'HEAD',
-        redirect: 'manual',
-        headers: {
-          'User-Agent': 'Mozilla/5.0 (compatible; URLTools/1.0)',
-        },
-        signal: controller.signal,
+      visited.add(currentUrl)
+      const hopUrl = currentUrl
+      const send = (method: 'HEAD' | 'GET') =>
+        schedule(hopUrl, () =>
+          requestHop(hopUrl, method, timeoutMs, request, dispatcher, readBody),
+        )
+      const startTime = Date.now()
+      let method: 'HEAD' | 'GET' = readBody ? 'GET' : 'HEAD'
+      let response = await send(method)
+      if (method === 'HEAD' && HEAD_REJECTED.has(response.status)) {
+        method = 'GET'
+        response = await send(method)
+      }
+
+      const location = response.headers.get('location')
+      const nextUrl =
+        response.status >= 300 && response.status < 400 && location
+          ? new URL(location, currentUrl).href
+          : undefined
+
+      chain.push({
+        url: currentUrl,
+        status: response.status,
+        method,
+        location: nextUrl,
+        responseTime: Date.now() - startTime,
+        headers: pickHopHeaders(response.headers),
       })
 
-      clearTimeout(timeoutId)
-
-      chain.push({ url: currentUrl, status: response.status })
-
-      // Redirect?
-      if (response.status >= 300 && response.status < 400) {
-        const location = response.headers.get('location')
-        if (location) {
-          currentUrl = new URL(location, currentUrl).href
-          if (!isAllowedUrl(currentUrl)) {
-            return {
-              chain,
-              finalUrl: currentUrl,
-              finalStatus: 0,
-              error: 'Redirect to blocked URL',
-            }
-          }
-          redirectCount++
-          continue
+      // No more redirects
+      if (!nextUrl) {
+        return {
+          chain,
+          finalUrl: currentUrl,
+          finalStatus: response.status,
+          ...(readBody ? { response } : {}),
         }
       }
+      if (readBody) await response.body?.cancel().catch(() => {})
 
-      // No more redirects
-      return {
-        chain,
-        finalUrl: currentUrl,
-        finalStatus: response.status,
+      currentUrl = nextUrl
+      if (!isAllowedUrl(currentUrl)) {
+        return {
+          chain,
+          finalUrl: currentUrl,
+          finalStatus: 0,
+          error: 'Redirect to blocked URL',
+        }
+      }
+      if (visited.has(currentUrl)) {
+        return {
+          chain,
+          finalUrl: currentUrl,
+          finalStatus: 0,
+          error: 'Redirect loop',
+        }
       }
+      redirectCount++
     } catch (error) {
       const errorMsg =
         error instanceof Error
           ? error.name === 'AbortError'
             ? 'Timeout'
-            : error.message
+            : (blockedCause(error) ?? error).message
           : 'Unknown error'
       return {
         chain,
@@ -129,6 +301,92 @@ export async function getRedirectChain(
   }
 }
 
+/**
+ * Offline replay counterpart of `getRedirectChain`: reports the status the
+ * cache stored for `url` without any request. Redirects were already
+ * followed when the page was cached, so the chain is a single hop.
+ */
+export async function getCachedRedirectChain(
+  url: string,
+  request: ChainRequestOptions = {},
+): Promise<RedirectChainResult> {
+  const entry = await readCacheEntry(url, cacheKeyHeaders(url, request))
+  if (!entry) {
+    return {
+      chain: [],
+      finalUrl: url,
+      finalStatus: 0,
+      error: 'Not in cache (offline replay)',
+    }
+  }
+  return {
+    chain: [
+      {
+        url,
+        status: entry.status,
+        method: 'GET',
+        responseTime: 0,
+        headers: {},
+      },
+    ],
+    finalUrl: url,
+    finalStatus: entry.status,
+  }
+}
+
+/**
+ * The redirect chain of `url` together with the final response, its body
+ * unread. Every hop is a GET, so reading the page costs no request beyond
+ * the chain. Outside offline replay the page is stored under `url` when
+ * the cache is on, as `fetchWithRetry` does; offline, both come from the
+ * cache.
+ */
+export async function fetchRedirectChain(
+  url: string,
+  maxRedirects: number,
+  settings: RequestSettings & Pick<ChainRequestOptions, 'schedule'>,
+): Promise<RedirectChainResult & { response?: Response }> {
+  const mode = settings.cache ?? 'off'
+  const keyHeaders = cacheKeyHeaders(url, settings)
+  if (mode === 'offline') {
+    const entry = await readCacheEntry(url, keyHeaders)
+    const chain = await getCachedRedirectChain(url, settings)
+    return entry ? { ...chain, response: entryToResponse(entry) } : chain
+  }
+
+  const result = await followRedirects(
+    url,
+    maxRedirects,
+    settings.timeout * 1000,
+    settings,
+    true,
+  )
+  if (mode === 'off' || !result.response) return result
+  return {
+    ...result,
+    response: await storeResponse(url, result.response, keyHeaders),
+  }
+}
+
+/** Whether links of this kind lead to pages a crawler may follow */
+export function isPageKind(kind: LinkKind): boolean {
+  return PAGE_KINDS.has(kind)
+}
+
+/**
+ * Validates a user-supplied kind list. Returns `fallback` when the input is
+ * missing or contains no known kind.
+ */
+export function resolveLinkKinds(
+  input: unknown,
+  fallback: LinkKind[] = ['anchor'],
+): Set<LinkKind> {
+  const kinds = Array.isArray(input)
+    ? LINK_KINDS.filter((kind) => input.includes(kind))
+    : []
+  return new Set(kinds.length > 0 ? kinds : fallback)
+}
+
 /**
  * Checks if the content is an XML sitemap
  */
@@ -147,6 +405,8 @@ export function isSitemap(html: string): boolean {
 export function extractLinksFromSitemap(
   xml: string,
   baseUrl: string,
+  rules?: CanonicalRules,
+  scope?: SiteScope,
 ): LinkInfo[] {
   const $ = cheerio.load(xml, { xmlMode: true })
   const links: LinkInfo[] = []
@@ -157,7 +417,7 @@ export function extractLinksFromSitemap(
     const url = $(element).text().trim()
     if (!url) return
 
-    const normalizedUrl = normalizeUrl(url)
+    const normalizedUrl = normalizeUrl(url, undefined, rules)
     if (!normalizedUrl) return
 
     if (seenUrls.has(normalizedUrl)) return
@@ -168,60 +428,161 @@ export function extractLinksFromSitemap(
       targetUrl: normalizedUrl,
       anchorText: '',
       rel: [],
-      isInternal: isInternalLink(baseUrl, normalizedUrl),
+      kind: 'anchor',
+      isInternal: isInternalLink(baseUrl, normalizedUrl, scope),
     })
   })
 
   return links
 }
 
+// Schemes and fragments that never point at a fetchable resource
+const SKIPPED_PREFIXES = [
+  'javascript:',
+  'mailto:',
+  'tel:',
+  'data:',
+  'blob:',
+  'about:',
+  '#',
+]
+
+// Parses the URLs out of a srcset attribute ("a.jpg 1x, b.jpg 2x")
+function parseSrcset(srcset: string): string[] {
+  return srcset
+    .split(',')
+    .map((candidate) => candidate.trim().split(/\s+/)[0] ?? '')
+    .filter(Boolean)
+}
+
+// "5; url=/next" → "/next"
+function parseMetaRefresh(content: string): string | null {
+  const match = content.match(/url\s*=\s*['"]?([^'"]+)['"]?/i)
+  return match?.[1]?.trim() || null
+}
+
+/** Kind of a `<link rel=...>` element, by its rel tokens */
+function linkElementKind(rel: string[], hasHreflang: boolean): LinkKind | null {
+  if (rel.includes('stylesheet')) return 'stylesheet'
+  if (rel.includes('canonical')) return 'canonical'
+  if (rel.includes('alternate') && hasHreflang) return 'hreflang'
+  if (rel.includes('next') || rel.includes('prev')) return 'pagination'
+  if (rel.includes('icon')) return 'image'
+  return null
+}
+
 /**
- * Extracts all links from HTML or sitemap
+ * Extracts all links from HTML or sitemap: anchors plus every other
+ * resource reference, each tagged with its `kind`. A URL is reported once
+ * per kind.
  */
-export function extractLinks(html: string, baseUrl: string): LinkInfo[] {
+export function extractLinks(
+  html: string,
+  baseUrl: string,
+  rules?: CanonicalRules,
+  scope?: SiteScope,
+): LinkInfo[] {
   // Check if it's a sitemap
   if (isSitemap(html)) {
-    return extractLinksFromSitemap(html, baseUrl)
+    return extractLinksFromSitemap(html, baseUrl, rules, scope)
   }
 
   // Standard HTML extraction
   const $ = cheerio.load(html)
   const links: LinkInfo[] = []
-  const seenUrls = new Set<string>()
+  const seen = new Set<string>()
 
-  $('a[href]').each((_, element) => {
-    const href = $(element).attr('href')
-    if (!href) return
-
-    // Ignore javascript:, mailto:, tel:, etc.
-    if (
-      href.startsWith('javascript:') ||
-      href.startsWith('mailto:') ||
-      href.startsWith('tel:') ||
-      href.startsWith('#')
-    ) {
-      return
-    }
+  function add(
+    kind: LinkKind,
+    href: string | undefined,
+    extra: { anchorText?: string; rel?: string[]; hreflang?: string } = {},
+  ) {
+    const ref = href?.trim()
+    if (!ref) return
+    const lower = ref.toLowerCase()
+    if (SKIPPED_PREFIXES.some((prefix) => lower.startsWith(prefix))) return
 
-    const normalizedUrl = normalizeUrl(href, baseUrl)
+    const normalizedUrl = normalizeUrl(ref, baseUrl, rules)
     if (!normalizedUrl) return
 
     // Avoid duplicates
-    if (seenUrls.has(normalizedUrl)) return
-    seenUrls.add(normalizedUrl)
-
-    const relAttr = $(element).attr('rel') || ''
-    const relValues = relAttr.split(/\s+/).filter(Boolean)
+    const key = `${kind}|${normalizedUrl}`
+    if (seen.has(key)) return
+    seen.add(key)
 
     links.push({
       sourceUrl: baseUrl,
       targetUrl: normalizedUrl,
-      anchorText: $(element).text().trim().substring(0, 200),
-      rel: relValues,
-      isInternal: isInternalLink(baseUrl, normalizedUrl),
+      anchorText: extra.anchorText ?? '',
+      rel: extra.rel ?? [],
+      kind,
+      ...(extra.hreflang ? { hreflang: extra.hreflang } : {}),
+      isInternal: isInternalLink(baseUrl, normalizedUrl, scope),
+    })
+  }
+
+  function relOf(attr: string | undefined): string[] {
+    return (attr || '').split(/\s+/).filter(Boolean)
+  }
+
+  $('a[href]').each((_, element) => {
+    const el = $(element)
+    add('anchor', el.attr('href'), {
+      anchorText: el.text().trim().substring(0, 200),
+      rel: relOf(el.attr('rel')),
     })
   })
 
+  $('link[href]').each((_, element) => {
+    const el = $(element)
+    const rel = relOf(el.attr('rel'))
+    const hreflang = el.attr('hreflang')?.trim()
+    const kind = linkElementKind(
+      rel.map((r) => r.toLowerCase()),
+      Boolean(hreflang),
+    )
+    if (kind) add(kind, el.attr('href'), { rel, hreflang })
+  })
+
+  $('iframe[src], frame[src]').each((_, element) => {
+    add('iframe', $(element).attr('src'))
+  })
+
+  $('script[src]').each((_, element) => {
+    add('script', $(element).attr('src'))
+  })
+
+  $('img').each((_, element) => {
+    const el = $(element)
+    const anchorText = (el.attr('alt') || '').trim().substring(0, 200)
+    add('image', el.attr('src'), { anchorText })
+    for (const url of parseSrcset(el.attr('srcset') || '')) {
+      add('image', url, { anchorText })
+    }
+  })
+
+  $('picture source[srcset]').each((_, element) => {
+    for (const url of parseSrcset($(element).attr('srcset') || '')) {
+      add('image', url)
+    }
+  })
+
+  $('video[src], audio[src], video source[src], audio source[src]').each(
+    (_, element) => {
+      add('media', $(element).attr('src'))
+    },
+  )
+
+  $('video[poster]').each((_, element) => {
+    add('image', $(element).attr('poster'))
+  })
+
+  $('meta[http-equiv]').each((_, element) => {
+    const el = $(element)
+    if ((el.attr('http-equiv') || '').toLowerCase() !== 'refresh') return
+    add('meta-refresh', parseMetaRefresh(el.attr('content') || '') ?? undefined)
+  })
+
   return links
 }
 
@@ -0,0 +1,329 @@
+import puppeteer, {
+  type Browser,
+  type Cookie,
+  type CookieData,
+  type HTTPRequest,
+  type Page,
+} from 'puppeteer'
+import type { CookieJar, StoredCookie } from './cookie-jar'
+import {
+  authorizationFor,
+  type HostCredential,
+  parseCookieHeader,
+} from './credentials'
+import type { RequestSettings } from './fetch-with-retry'
+import { browserProxy, nextProxy } from './proxy'
+import { sanitizeHeaders } from './sanitize-headers'
+import { blockedCause, resolveAllowedAddresses } from './ssrf-guard'
+import { isAllowedUrl } from './url-validator'
+import { resolveUserAgent } from './user-agents'
+
+export type RenderWaitUntil =
+  | 'load'
+  | 'domcontentloaded'
+  | 'networkidle0'
+  | 'networkidle2'
+
+/** How a page is rendered in JavaScript mode (request field `render`) */
+export interface RenderOptions {
+  enabled?: boolean
+  /** Navigation event to wait for (default: networkidle2) */
+  waitUntil?: RenderWaitUntil
+  /** CSS selector that must appear before the DOM is read */
+  waitForSelector?: string
+  /** Extra delay after navigation, in ms (max. 10000) */
+  waitMs?: number
+}
+
+export interface RenderedPage {
+  /** Headers and status of the main document; the body is not readable */
+  response: Response
+  /** Serialized DOM after rendering */
+  html: string
+  /** Encoding Chrome decoded the document with */
+  encoding: string
+  loadTime: number
+}
+
+const WAIT_UNTIL: RenderWaitUntil[] = [
+  'load',
+  'domcontentloaded',
+  'networkidle0',
+  'networkidle2',
+]
+const MAX_WAIT_MS = 10000
+const MAX_SELECTOR_LENGTH = 200
+// Rendering for links and markup doesn't need these
+const SKIPPED_RESOURCES = new Set(['image', 'media', 'font'])
+
+let browser: Browser | null = null
+
+/**
+ * Returns the shared headless browser, launching it on first use. Shared by
+ * the screenshot endpoint and the render mode of the crawlers.
+ */
+export async function getBrowser(): Promise<Browser> {
+  if (!browser) {
+    browser = await puppeteer.launch({
+      headless: true,
+      args: ['--no-sandbox', '--disable-setuid-sandbox'],
+    })
+  }
+  return browser
+}
+
+/** Closes the shared browser after an error so the next call relaunches it */
+export async function resetBrowser(): Promise<void> {
+  if (!browser) return
+  try {
+    await browser.close()
+  } catch {}
+  browser = null
+}
+
+/**
+ * Opens a page in the shared browser. With a proxy setting, or when
+ * `isolated` is set, the page gets its own browser context (using the next
+ * proxy of the list), so its cookies don't leak into other pages; `close`
+ * closes the context too.
+ */
+export async function openPage(
+  proxySetting?: string,
+  { isolated = false }: { isolated?: boolean } = {},
+): Promise<{ page: Page; close: () => Promise<void> }> {
+  const proxy = nextProxy(proxySetting)
+  // Rejects SOCKS5 credentials before Chrome is involved
+  const options = proxy ? browserProxy(proxy) : null
+  try {
+    const instance = await getBrowser()
+    if (!options && !isolated) {
+      const page = await instance.newPage()
+      return { page, close: () => page.close().catch(() => {}) }
+    }
+    const context = await instance.createBrowserContext(
+      options ? { proxyServer: options.server } : {},
+    )
+    const page = await context.newPage().catch(async (error) => {
+      await context.close().catch(() => {})
+      throw error
+    })
+    if (options?.credentials) await page.authenticate(options.credentials)
+    return { page, close: () => context.close().catch(() => {}) }
+  } catch (error) {
+    await resetBrowser()
+    throw error
+  }
+}
+
+/**
+ * Validates user-supplied render options. Returns null when render mode is
+ * off, so callers can branch on the result.
+ */
+export function resolveRenderOptions(
+  input?: RenderOptions,
+): Required<RenderOptions> | null {
+  if (!input || input.enabled !== true) return null
+  const waitForSelector =
+    typeof input.waitForSelector === 'string'
+      ? input.waitForSelector.trim()
+      : ''
+  return {
+    enabled: true,
+    waitUntil:
+      input.waitUntil && WAIT_UNTIL.includes(input.waitUntil)
+        ? input.waitUntil
+        : 'networkidle2',
+    waitForSelector:
+      waitForSelector.length <= MAX_SELECTOR_LENGTH ? waitForSelector : '',
+    waitMs: Math.min(Math.max(Number(input.waitMs) || 0, 0), MAX_WAIT_MS),
+  }
+}
+
+/**
+ * Whether Chrome may load `url`: the URL check plus the resolved addresses
+ * of its host. Chrome resolves names itself, so the lookup is ours; it's
+ * made once per host and page.
+ */
+function isAllowedRequest(
+  url: string,
+  hosts: Map<string, Promise<boolean>>,
+): Promise<boolean> {
+  if (!isAllowedUrl(url)) return Promise.resolve(false)
+  const { hostname } = new URL(url)
+  let allowed = hosts.get(hostname)
+  if (!allowed) {
+    allowed = resolveAllowedAddresses(hostname).then(
+      () => true,
+      // A name that doesn't resolve here fails in Chrome as well, or is
+      // resolved by the proxy
+      (error) => !blockedCause(error),
+    )
+    hosts.set(hostname, allowed)
+  }
+  return allowed
+}
+
+interface RequestGuard {
+  credentials?: HostCredential[]
+  skipResources: boolean
+  hosts: Map<string, Promise<boolean>>
+}
+
+// Subresources go through the same SSRF guard as the page itself and get
+// the Authorization header of their own host
+async function filterRequest(request: HTTPRequest, guard: RequestGuard) {
+  if (
+    (guard.skipResources && SKIPPED_RESOURCES.has(request.resourceType())) ||
+    !(await isAllowedRequest(request.url(), guard.hosts))
+  ) {
+    request.abort().catch(() => {})
+    return
+  }
+  const authorization = authorizationFor(request.url(), guard.credentials)
+  request
+    .continue(
+      authorization
+        ? { headers: { ...request.headers(), authorization } }
+        : undefined,
+    )
+    .catch(() => {})
+}
+
+/**
+ * Routes every request of `page` through `filterRequest`: blocked URLs,
+ * including redirects and navigations to them, and skipped resource types
+ * are aborted; the rest get their host's Authorization header. Screenshots
+ * pass `skipResources: false` to keep images and fonts.
+ */
+export async function guardRequests(
+  page: Page,
+  credentials?: HostCredential[],
+  { skipResources = true }: { skipResources?: boolean } = {},
+): Promise<void> {
+  const guard: RequestGuard = { credentials, skipResources, hosts: new Map() }
+  await page.setRequestInterception(true)
+  page.on('request', (request) => filterRequest(request, guard))
+}
+
+// Chrome marks domain cookies with a leading dot, host-only cookies without
+function toBrowserCookie(cookie: StoredCookie): CookieData {
+  return {
+    name: cookie.name,
+    value: cookie.value,
+    domain: cookie.hostOnly ? cookie.domain : `.${cookie.domain}`,
+    path: cookie.path,
+    secure: cookie.secure,
+    expires: cookie.expires === undefined ? undefined : cookie.expires / 1000,
+  }
+}
+
+/** Converts a cookie read from the browser into the jar's format */
+function fromBrowserCookie(cookie: Cookie): StoredCookie {
+  return {
+    name: cookie.name,
+    value: cookie.value,
+    domain: cookie.domain.replace(/^\./, '').toLowerCase(),
+    hostOnly: !cookie.domain.startsWith('.'),
+    path: cookie.path || '/',
+    secure: cookie.secure,
+    expires:
+      cookie.session || cookie.expires < 0 ? undefined : cookie.expires * 1000,
+  }
+}
+
+// Cookie credentials and jar cookies for `url`, for the page's context
+function browserCookies(
+  url: string,
+  credentials?: HostCredential[],
+  jar?: CookieJar,
+): CookieData[] {
+  const configured = (credentials ?? [])
+    .filter((c) => c.type === 'cookie')
+    .flatMap((c) => {
+      const domain = c.host.startsWith('*.') ? `.${c.host.slice(2)}` : c.host
+      return parseCookieHeader(c.cookie ?? '').map(([name, value]) => ({
+        name,
+        value,
+        domain,
+        path: '/',
+      }))
+    })
+  return [...configured, ...(jar?.cookiesFor(url) ?? []).map(toBrowserCookie)]
+}
+
+// Puppeteer joins repeated headers (Set-Cookie) with newlines, which the
+// Headers constructor rejects
+function toHeaders(raw: Record<string, string>): Headers {
+  const headers = new Headers()
+  for (const [name, value] of Object.entries(raw)) {
+    try {
+      headers.set(name, value.replace(/\n/g, ', '))
+    } catch {
+      // Skip headers that are invalid for fetch (e.g. pseudo-headers)
+    }
+  }
+  return headers
+}
+
+/**
+ * Loads `url` in a headless page and returns the DOM after the configured
+ * wait strategy. Uses the timeout, proxy, custom headers and credentials
+ * from `settings`; a missing `waitForSelector` element fails the page like
+ * a timeout. With a cookie jar, the page starts with the jar's cookies and
+ * the cookies it ends with are stored back.
+ */
+export async function renderPage(
+  url: string,
+  render: Required<RenderOptions>,
+  settings: RequestSettings,
+  cookieJar?: CookieJar,
+): Promise<RenderedPage> {
+  const startTime = Date.now()
+  const timeoutMs = settings.timeout * 1000
+  const { page, close } = await openPage(settings.proxy, {
+    isolated: Boolean(settings.credentials || cookieJar),
+  })
+
+  try {
+    await page.setUserAgent(resolveUserAgent(settings.userAgent))
+    await page.setExtraHTTPHeaders(sanitizeHeaders(settings.headers))
+    await guardRequests(page, settings.credentials)
+    const cookies = browserCookies(url, settings.credentials, cookieJar)
+    if (cookies.length > 0) await page.browserContext().setCookie(...cookies)
+
+    const response = await page.goto(url, {
+      waitUntil: render.waitUntil,
+      timeout: timeoutMs,
+    })
+    if (!response) throw new Error('No response from page')
+    if (render.waitForSelector) {
+      await page.waitForSelector(render.waitForSelector, {
+        timeout: timeoutMs,
+      })
+    }
+    if (render.waitMs > 0) {
+      await new Promise((r) => setTimeout(r, render.waitMs))
+    }
+
+    const html = await page.content()
+    const encoding = String(await page.evaluate('document.characterSet'))
+    if (cookieJar) {
+      for (const cookie of await page.browserContext().cookies()) {
+        cookieJar.set(fromBrowserCookie(cookie))
+      }
+    }
+    const status = response.status()
+    return {
+      // Response only accepts 200-599; anything else is reported as 200
+      response: new Response(null, {
+        status: status >= 200 && status <= 599 ? status : 200,
+        headers: toHeaders(response.headers()),
+      }),
+      html,
+      encoding: encoding.toLowerCase(),
+      loadTime: Date.now() - startTime,
+    }
+  } finally {
+    await close()
+  }
+}
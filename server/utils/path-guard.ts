@@ -1,8 +1,16 @@
-import { resolve } from 'node:path'
+import { join, resolve } from 'node:path'
+import { getServerConfig, type ServerConfig } from './server-config'
 
-export const OUTPUT_ROOT = resolve(
-  process.env.OUTPUT_DIR || resolve(process.cwd(), 'output'),
-)
+export const OUTPUT_ROOT = getServerConfig().output.dir
+
+/** Result directory for one kind of result (`output.folders` in the config) */
+export function outputFolder(
+  kind: keyof ServerConfig['output']['folders'],
+): string {
+  return assertWithinOutput(
+    join(OUTPUT_ROOT, getServerConfig().output.folders[kind]),
+  )
+}
 
 // Checks if a path is within the output directory
 export function assertWithinOutput(path: string): string {
@@ -0,0 +1,145 @@
+import { getServerConfig } from './server-config'
+
+/**
+ * Shared response body reader. Bodies are streamed with a hard byte cap, so
+ * a chunked response without Content-Length is cut off as soon as it gets
+ * too large instead of being buffered first, and decoded with the charset
+ * the page declares rather than always as UTF-8. The default cap is
+ * `limits.maxBodySize` of the server config (10 MB).
+ */
+
+export interface DecodedBody {
+  text: string
+  /** WHATWG name of the encoding used, e.g. `utf-8`, `windows-1252` */
+  encoding: string
+  /** Size of the raw body in bytes */
+  bytes: number
+}
+
+// Browsers look for <meta charset> in the first 1024 bytes only
+const PRESCAN_BYTES = 1024
+const MB = 1024 * 1024
+// Windows-1252 code points for bytes 0x80-0x9f; the rest match Latin-1
+const WINDOWS_1252_HIGH = '€\x81‚ƒ„…†‡ˆ‰Š‹Œ\x8dŽ\x8f\x90‘’“”•–—˜™š›œ\x9džŸ'
+
+/** `Response too large (>10MB)` for a cap of `maxBytes` */
+export function tooLargeError(maxBytes: number): Error {
+  const limit =
+    maxBytes >= MB ? `${Number((maxBytes / MB).toFixed(1))}MB` : `${maxBytes}B`
+  return new Error(`Response too large (>${limit})`)
+}
+
+/**
+ * Reads the raw body, throwing once more than `maxBytes` arrived. A
+ * Content-Length over the cap fails before anything is read; otherwise
+ * the stream is cancelled at the first chunk past the cap.
+ */
+export async function readResponseBytes(
+  response: Response,
+  maxBytes = getServerConfig().limits.maxBodySize,
+): Promise<Buffer> {
+  const contentLength = Number(response.headers.get('content-length') || 0)
+  if (contentLength > maxBytes) {
+    await response.body?.cancel().catch(() => {})
+    throw tooLargeError(maxBytes)
+  }
+  if (!response.body) return Buffer.alloc(0)
+
+  const reader = response.body.getReader()
+  const chunks: Uint8Array[] = []
+  let size = 0
+  while (true) {
+    const { done, value } = await reader.read()
+    if (done) break
+    size += value.byteLength
+    if (size > maxBytes) {
+      await reader.cancel().catch(() => {})
+      throw tooLargeError(maxBytes)
+    }
+    chunks.push(value)
+  }
+  return Buffer.concat(chunks, size)
+}
+
+/** Canonical encoding name for a label, or null when unsupported */
+function encodingFor(label: string | undefined): string | null {
+  if (!label) return null
+  try {
+    return new TextDecoder(label.trim()).encoding
+  } catch {
+    return null
+  }
+}
+
+function charsetParam(value: string | null | undefined): string | undefined {
+  return value?.match(/charset\s*=\s*["']?([^"';\s]+)/i)?.[1]
+}
+
+/**
+ * Picks the encoding of a body the way browsers do: a byte order mark
+ * wins, then the Content-Type charset, then a `<meta charset>` (or
+ * `http-equiv` Content-Type) or XML declaration near the start. Unknown
+ * labels are skipped; the fallback is UTF-8.
+ */
+export function detectEncoding(
+  bytes: Uint8Array,
+  contentType?: string | null,
+): string {
+  if (bytes[0] === 0xef && bytes[1] === 0xbb && bytes[2] === 0xbf) {
+    return 'utf-8'
+  }
+  if (bytes[0] === 0xff && bytes[1] === 0xfe) return 'utf-16le'
+  if (bytes[0] === 0xfe && bytes[1] === 0xff) return 'utf-16be'
+
+  const fromHeader = encodingFor(charsetParam(contentType))
+  if (fromHeader) return fromHeader
+
+  // Every supported declaration is ASCII, so latin1 is safe for the scan
+  const head = Buffer.from(
+    bytes.buffer,
+    bytes.byteOffset,
+    Math.min(bytes.byteLength, PRESCAN_BYTES),
+  ).toString('latin1')
+  const declared =
+    head.match(/<meta\b[^>]*?charset\s*=\s*["']?\s*([\w.:-]+)/i)?.[1] ??
+    head.match(/^\s*<\?xml\b[^>]*?encoding\s*=\s*["']([\w.:-]+)/i)?.[1]
+  const fromDocument = encodingFor(declared)
+  // A UTF-16 page could not have declared itself in ASCII
+  if (fromDocument?.startsWith('utf-16')) return 'utf-8'
+  return fromDocument ?? 'utf-8'
+}
+
+function decodeWindows1252(bytes: Uint8Array): string {
+  return Buffer.from(bytes.buffer, bytes.byteOffset, bytes.byteLength)
+    .toString('latin1')
+    .replace(/[\x80-\x9f]/g, (c) =>
+      WINDOWS_1252_HIGH.charAt(c.charCodeAt(0) - 0x80),
+    )
+}
+
+/** Decodes a raw body; the BOM, if any, is dropped */
+export function decodeBody(
+  bytes: Uint8Array,
+  contentType?: string | null,
+): DecodedBody {
+  const encoding = detectEncoding(bytes, contentType)
+  return {
+    // Node's TextDecoder treats windows-1252 as plain Latin-1, which turns
+    // curly quotes and the euro sign into control characters
+    text:
+      encoding === 'windows-1252'
+        ? decodeWindows1252(bytes)
+        : new TextDecoder(encoding).decode(bytes),
+    encoding,
+    bytes: bytes.byteLength,
+  }
+}
+
+/** `readResponseBytes` + `decodeBody`: a capped, charset-aware `text()` */
+export async function readResponseText(
+  response: Response,
+  maxBytes = getServerConfig().limits.maxBodySize,
+): Promise<DecodedBody> {
+  const bytes = await readResponseBytes(response, maxBytes)
+  return decodeBody(bytes, response.headers.get('content-type'))
+}
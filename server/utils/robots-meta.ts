@@ -0,0 +1,85 @@
+import * as cheerio from 'cheerio'
+
+/**
+ * Page-level robots directives from `<meta name="robots">` and the
+ * `X-Robots-Tag` header, as opposed to robots.txt (see `robots.ts`).
+ */
+export interface PageDirectives {
+  nofollow: boolean
+}
+
+// X-Robots-Tag directives that carry a `name: value` pair themselves and
+// must not be mistaken for a user-agent prefix
+const VALUED_DIRECTIVES = new Set([
+  'unavailable_after',
+  'max-snippet',
+  'max-image-preview',
+  'max-video-preview',
+])
+
+function splitDirectives(value: string): string[] {
+  return value
+    .split(',')
+    .map((d) => d.trim().toLowerCase())
+    .filter(Boolean)
+}
+
+/**
+ * Directives from an `X-Robots-Tag` header that apply to `userAgent`. A
+ * `googlebot: nofollow` prefix scopes the directives after it to that
+ * crawler; unscoped ones apply to everyone. Multiple headers arrive joined
+ * with commas, so a scope runs until the next one.
+ */
+export function parseXRobotsTag(header: string, userAgent: string): string[] {
+  const agent = userAgent.toLowerCase()
+  const directives: string[] = []
+  let scope: string | null = null
+
+  for (const part of splitDirectives(header)) {
+    const match = part.match(/^([a-z0-9_-]+)\s*:\s*(.*)$/)
+    let directive = part
+    if (match?.[1] && !VALUED_DIRECTIVES.has(match[1])) {
+      scope = match[1]
+      directive = match[2] ?? ''
+    }
+    if (directive && (scope === null || scope === agent)) {
+      directives.push(directive)
+    }
+  }
+  return directives
+}
+
+/**
+ * Directives from `<meta name="robots">` and from a meta tag named after
+ * `userAgent` (e.g. `<meta name="googlebot">`).
+ */
+export function parseMetaRobots(html: string, userAgent: string): string[] {
+  const $ = cheerio.load(html)
+  const names = new Set(['robots', userAgent.toLowerCase()])
+  const directives: string[] = []
+  $('meta[name][content]').each((_, element) => {
+    const name = ($(element).attr('name') || '').trim().toLowerCase()
+    if (names.has(name)) {
+      directives.push(...splitDirectives($(element).attr('content') || ''))
+    }
+  })
+  return directives
+}
+
+/**
+ * Combines meta robots and X-Robots-Tag for one page. `none` implies
+ * `nofollow`.
+ */
+export function getPageDirectives(
+  html: string,
+  headers: Headers,
+  userAgent: string,
+): PageDirectives {
+  const directives = new Set([
+    ...parseMetaRobots(html, userAgent),
+    ...parseXRobotsTag(headers.get('x-robots-tag') || '', userAgent),
+  ])
+  return {
+    nofollow: directives.has('nofollow') || directives.has('none'),
+  }
+}
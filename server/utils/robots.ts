@@ -0,0 +1,214 @@
+import { fetchWithRetry, type RequestSettings } from './fetch-with-retry'
+import { readResponseText } from './response-body'
+import { getServerConfig } from './server-config'
+
+export interface RobotsRule {
+  allow: boolean
+  path: string
+}
+
+export interface RobotsGroup {
+  userAgents: string[]
+  rules: RobotsRule[]
+  crawlDelay?: number // Seconds
+}
+
+export interface RobotsTxt {
+  groups: RobotsGroup[]
+  sitemaps: string[]
+}
+
+export interface RobotsVerdict {
+  allowed: boolean
+  crawlDelay?: number // Seconds
+}
+
+export interface RobotsChecker {
+  check: (url: string) => Promise<RobotsVerdict>
+}
+
+// Google only honours the first 500 KiB of a robots.txt file
+const MAX_ROBOTS_SIZE = 500 * 1024
+
+const ALLOW_ALL: RobotsTxt = { groups: [], sitemaps: [] }
+const DISALLOW_ALL: RobotsTxt = {
+  groups: [{ userAgents: ['*'], rules: [{ allow: false, path: '/' }] }],
+  sitemaps: [],
+}
+
+/**
+ * Parses a robots.txt body (RFC 9309). Consecutive `User-agent` lines open a
+ * shared group; `Crawl-delay` and `Sitemap` are non-standard but widely used
+ * extensions and are collected as well. Unknown directives are ignored.
+ */
+export function parseRobotsTxt(text: string): RobotsTxt {
+  const groups: RobotsGroup[] = []
+  const sitemaps: string[] = []
+  let current: RobotsGroup | null = null
+  let lastWasUserAgent = false
+
+  for (const rawLine of text.slice(0, MAX_ROBOTS_SIZE).split(/\r\n|\r|\n/)) {
+    const line = rawLine.replace(/#.*$/, '').trim()
+    const sep = line.indexOf(':')
+    if (sep === -1) continue
+
+    const key = line.slice(0, sep).trim().toLowerCase()
+    const value = line.slice(sep + 1).trim()
+
+    if (key === 'user-agent') {
+      if (!current || !lastWasUserAgent) {
+        current = { userAgents: [], rules: [] }
+        groups.push(current)
+      }
+      if (value) current.userAgents.push(value.toLowerCase())
+      lastWasUserAgent = true
+      continue
+    }
+    lastWasUserAgent = false
+
+    if (key === 'sitemap') {
+      if (value) sitemaps.push(value)
+      continue
+    }
+    if (!current) continue
+
+    if (key === 'allow' || key === 'disallow') {
+      // An empty Disallow means "allow everything" — no rule needed
+      if (value) current.rules.push({ allow: key === 'allow', path: value })
+    } else if (key === 'crawl-delay') {
+      const delay = Number.parseFloat(value)
+      if (Number.isFinite(delay) && delay >= 0) current.crawlDelay = delay
+    }
+  }
+
+  return { groups, sitemaps }
+}
+
+/**
+ * Picks the rules that apply to `userAgent`: groups naming the token exactly
+ * win, then the group with the longest token that prefixes it (so
+ * `googlebot` covers `googlebot-news`), then `*`. All groups for the chosen
+ * token are merged, as required by RFC 9309.
+ */
+export function selectRobotsGroup(
+  robots: RobotsTxt,
+  userAgent: string,
+): RobotsGroup | null {
+  const token = userAgent.trim().toLowerCase()
+  let best: string | null = null
+
+  for (const group of robots.groups) {
+    for (const agent of group.userAgents) {
+      if (agent === '*') continue
+      if (token === agent || token.startsWith(agent)) {
+        if (best === null || agent.length > best.length) best = agent
+      }
+    }
+  }
+  const chosen = best ?? '*'
+
+  const matching = robots.groups.filter((g) => g.userAgents.includes(chosen))
+  if (matching.length === 0) return null
+
+  const delays = matching
+    .map((g) => g.crawlDelay)
+    .filter((d): d is number => d !== undefined)
+  return {
+    userAgents: [chosen],
+    rules: matching.flatMap((g) => g.rules),
+    crawlDelay: delays.length > 0 ? Math.max(...delays) : undefined,
+  }
+}
+
+function patternToRegExp(pattern: string): RegExp {
+  const anchored = pattern.endsWith('$')
+  const body = anchored ? pattern.slice(0, -1) : pattern
+  const source = body
+    .split('*')
+    .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*')
+  return new RegExp(`^${source}${anchored ? '$' : ''}`)
+}
+
+/**
+ * Longest-match evaluation of a group's rules against a path (including the
+ * query string). On equal length, Allow wins.
+ */
+export function isPathAllowed(
+  group: RobotsGroup | null,
+  path: string,
+): boolean {
+  if (!group) return true
+  if (path === '/robots.txt') return true
+
+  let decision: RobotsRule | null = null
+  for (const rule of group.rules) {
+    if (!patternToRegExp(rule.path).test(path)) continue
+    if (
+      !decision ||
+      rule.path.length > decision.path.length ||
+      (rule.path.length === decision.path.length && rule.allow)
+    ) {
+      decision = rule
+    }
+  }
+  return decision ? decision.allow : true
+}
+
+/**
+ * Downloads and parses `/robots.txt` for an origin. Per RFC 9309 a 4xx means
+ * "no restrictions", while a 5xx or network failure means the site must be
+ * treated as fully disallowed.
+ */
+export async function fetchRobotsTxt(
+  origin: string,
+  settings: RequestSettings,
+): Promise<RobotsTxt> {
+  try {
+    const { response } = await fetchWithRetry(`${origin}/robots.txt`, settings)
+    if (response.status >= 400 && response.status < 500) return ALLOW_ALL
+    if (!response.ok) return DISALLOW_ALL
+    const { text } = await readResponseText(response)
+    return parseRobotsTxt(text)
+  } catch {
+    return DISALLOW_ALL
+  }
+}
+
+/**
+ * Creates a per-crawl robots.txt cache. Each origin is fetched once; parallel
+ * checks against the same origin share the in-flight request.
+ */
+export function createRobotsChecker(
+  settings: RequestSettings,
+  userAgent = getServerConfig().userAgents.robots,
+): RobotsChecker {
+  const cache = new Map<string, Promise<RobotsGroup | null>>()
+
+  function groupFor(origin: string): Promise<RobotsGroup | null> {
+    let pending = cache.get(origin)
+    if (!pending) {
+      pending = fetchRobotsTxt(origin, settings).then((robots) =>
+        selectRobotsGroup(robots, userAgent),
+      )
+      cache.set(origin, pending)
+    }
+    return pending
+  }
+
+  return {
+    async check(url) {
+      let parsed: URL
+      try {
+        parsed = new URL(url)
+      } catch {
+        return { allowed: false }
+      }
+      const group = await groupFor(parsed.origin)
+      return {
+        allowed: isPathAllowed(group, parsed.pathname + parsed.search),
+        crawlDelay: group?.crawlDelay,
+      }
+    },
+  }
+}
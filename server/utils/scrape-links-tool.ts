@@ -0,0 +1,304 @@
+import { createError } from 'h3'
+import {
+  type CheckpointStatus,
+  createCheckpoint,
+  type ResumedJob,
+  releaseOnError,
+  resolveCheckpointRequest,
+} from './crawl-checkpoint'
+import {
+  type CrawlPolicyRequest,
+  type CrawlRun,
+  clampRequestSettings,
+  runCrawl,
+  type SkipReason,
+} from './crawl-engine'
+import type { RequestSettings } from './fetch-with-retry'
+import type { CacheStatus } from './http-cache'
+import {
+  extractLinks,
+  formatRedirectChain,
+  getCachedRedirectChain,
+  getRedirectChain,
+  isPageKind,
+  type LinkKind,
+  type RedirectStep,
+  resolveLinkKinds,
+} from './link-analyzer'
+import { getServerConfig } from './server-config'
+
+export interface ScrapeLinksRequest extends CrawlPolicyRequest {
+  urls: string[]
+  recursive: boolean
+  maxUrls: number
+  maxDepth: number
+  rateLimit: number
+  sameDomainOnly: boolean
+  linkKinds?: LinkKind[] // Reference kinds to report (default: anchors)
+  urlFilter?: string // Regex filter for URLs
+  pathInclude?: string // Comma-separated paths that must be included
+  pathExclude?: string // Comma-separated paths to exclude
+  settings?: RequestSettings
+  resumeJobId?: string // Continue an interrupted job instead of starting anew
+}
+
+interface LinkResult {
+  sourceUrl: string
+  targetUrl: string
+  status: number
+  redirectChain: string
+  redirectHops?: RedirectStep[] // Every request made, incl. the final one
+  type: 'internal' | 'external'
+  anchorText: string
+  rel: string
+  kind: LinkKind
+  depth: number
+  sourceCache?: CacheStatus // How the source page was fetched (cache on)
+  sourceEncoding?: string // Charset the source page was decoded with
+  error?: string
+  retryCount?: number
+  skipReason?: SkipReason
+}
+
+/**
+ * Validates a link-scrape request and returns the crawl to run. Validation
+ * errors are thrown as h3 errors before any stream is opened.
+ */
+export async function prepareScrapeLinks(
+  input: ScrapeLinksRequest,
+): Promise<CrawlRun> {
+  const { request, resume } = await resolveCheckpointRequest(
+    'scrape-links',
+    input,
+  )
+  return releaseOnError(resume, () => scrapeLinksRun(request, resume))
+}
+
+function scrapeLinksRun(
+  body: ScrapeLinksRequest,
+  resume: ResumedJob | null,
+): CrawlRun {
+  if (!body.urls || !Array.isArray(body.urls)) {
+    throw createError({
+      statusCode: 400,
+      message: 'urls array required',
+    })
+  }
+
+  const settings = clampRequestSettings(body.settings)
+  const maxUrls = Math.min(
+    Math.max(body.maxUrls || getServerConfig().limits.maxUrls.scrapeLinks, 1),
+    10000,
+  )
+  const maxDepth = Math.min(Math.max(body.maxDepth || 3, 1), 10)
+  const rateLimit = Math.max(body.rateLimit || 2, 0.1)
+  const linkKinds = resolveLinkKinds(body.linkKinds)
+
+  return async (sink) => {
+    const checkpoint =
+      resume?.store ?? (await createCheckpoint('scrape-links', body))
+    const results: LinkResult[] = []
+    // Results found since the last checkpoint
+    const unsaved: LinkResult[] = []
+    let status: CheckpointStatus = 'interrupted'
+
+    function pushResult(result: LinkResult) {
+      results.push(result)
+      unsaved.push(result)
+      // Stream result immediately
+      sink.emit('result', result)
+    }
+
+    sink.emit('job', { jobId: checkpoint.jobId })
+
+    try {
+      if (resume) {
+        // Replay what earlier runs found before continuing the crawl
+        for (const result of (await checkpoint.readResults()) as LinkResult[]) {
+          results.push(result)
+          sink.emit('result', result)
+        }
+        sink.emit('log', {
+          message: `Resuming job ${checkpoint.jobId}: ${results.length} result(s) replayed, ${resume.checkpoint.state?.queue.length ?? 0} URL(s) queued`,
+          type: 'info',
+        })
+      } else {
+        sink.emit('log', {
+          message: `Starting crawl with ${body.urls.length} seed URL(s)`,
+          type: 'info',
+        })
+      }
+
+      const summary = await runCrawl(
+        sink,
+        {
+          seeds: body.urls,
+          settings,
+          recursive: body.recursive === true,
+          maxDepth,
+          sameDomainOnly: body.sameDomainOnly,
+          rateLimit,
+          urlFilter: body.urlFilter,
+          pathInclude: body.pathInclude,
+          pathExclude: body.pathExclude,
+          respectRobots: body.respectRobots === true,
+          respectNofollow: body.respectNofollow === true,
+          render: body.render,
+          robotsUserAgent: body.robotsUserAgent,
+          canonical: body.canonical,
+          siteScope: body.siteScope,
+          resumeFrom: resume?.checkpoint.state ?? undefined,
+          onCheckpoint: (state) => checkpoint.save(state, unsaved.splice(0)),
+        },
+        {
+          async processPage(
+            { item, html, retryCount, cacheStatus, encoding },
+            ctx,
+          ) {
+            const links = extractLinks(
+              html,
+              item.url,
+              body.canonical,
+              body.siteScope,
+            ).filter((link) => linkKinds.has(link.kind))
+
+            sink.emit('log', {
+              message: `Found ${links.length} links on ${item.url}`,
+              type: 'success',
+            })
+
+            const linksToCheck: typeof links = []
+            for (const link of links) {
+              if (results.length + linksToCheck.length >= maxUrls) break
+
+              // Apply URL filter to target URLs as well
+              if (!ctx.matchesFilter(link.targetUrl)) continue
+
+              // Don't even HEAD-check URLs the site asked us not to crawl
+              if (!(await ctx.isAllowedByRobots(link.targetUrl))) {
+                pushResult({
+                  sourceUrl: item.url,
+                  targetUrl: link.targetUrl,
+                  status: 0,
+                  redirectChain: '',
+                  type: link.isInternal ? 'internal' : 'external',
+                  anchorText: link.anchorText,
+                  rel: link.rel.join(', '),
+                  kind: link.kind,
+                  depth: item.depth,
+                  sourceCache: cacheStatus,
+                  sourceEncoding: encoding,
+                  error: 'Blocked by robots.txt',
+                  skipReason: 'robots',
+                })
+                continue
+              }
+
+              linksToCheck.push(link)
+            }
+
+            // Checks run in parallel across hosts; the scheduler paces each
+            // host on its own
+            await Promise.all(
+              linksToCheck.map(async (link) => {
+                // Checks still queued when the crawl stops are dropped
+                const redirectInfo = await ctx.schedule(
+                  link.targetUrl,
+                  async () =>
+                    ctx.isStopped()
+                      ? null
+                      : settings.cache === 'offline'
+                        ? getCachedRedirectChain(link.targetUrl, settings)
+                        : getRedirectChain(link.targetUrl, 3, 5000, {
+                            ...settings,
+                            jar: ctx.cookieJar,
+                          }),
+                )
+                if (!redirectInfo) return
+
+                pushResult({
+                  sourceUrl: item.url,
+                  targetUrl: link.targetUrl,
+                  status: redirectInfo.finalStatus,
+                  redirectChain: formatRedirectChain(redirectInfo.chain),
+                  redirectHops: redirectInfo.chain,
+                  type: link.isInternal ? 'internal' : 'external',
+                  anchorText: link.anchorText,
+                  rel: link.rel.join(', '),
+                  kind: link.kind,
+                  depth: item.depth,
+                  sourceCache: cacheStatus,
+                  sourceEncoding: encoding,
+                  error: redirectInfo.error,
+                  retryCount,
+                })
+              }),
+            )
+
+            for (const link of linksToCheck) {
+              if (!isPageKind(link.kind)) continue
+              await ctx.follow(link.targetUrl, item, link.rel)
+            }
+
+            if (results.length >= maxUrls) ctx.stop()
+          },
+          onPageError(item, error, ctx) {
+            pushResult({
+              sourceUrl: item.sourceUrl || item.url,
+              targetUrl: item.url,
+              status: 0,
+              redirectChain: '',
+              type: 'internal',
+              anchorText: '',
+              rel: '',
+              kind: 'anchor',
+              depth: item.depth,
+              error: error.message,
+            })
+            sink.emit('log', {
+              message: `Error fetching ${item.url}: ${error.message}`,
+              type: 'error',
+            })
+            if (results.length >= maxUrls) ctx.stop()
+          },
+          onSkipped(item, reason, ctx) {
+            // Blocked links were already reported by processPage; seeds never
+            // reach it, so report them as their own row
+            if (item.depth > 0) return
+            pushResult({
+              sourceUrl: item.sourceUrl || item.url,
+              targetUrl: item.url,
+              status: 0,
+              redirectChain: '',
+              type: 'internal',
+              anchorText: '',
+              rel: '',
+              kind: 'anchor',
+              depth: item.depth,
+              error: 'Blocked by robots.txt',
+              skipReason: reason,
+            })
+            if (results.length >= maxUrls) ctx.stop()
+          },
+        },
+      )
+
+      status = sink.isClosed() ? 'interrupted' : 'completed'
+
+      // Send completion event
+      sink.emit('done', {
+        jobId: checkpoint.jobId,
+        totalLinks: results.length,
+        visited: summary.visited,
+        skipped: summary.skipped,
+        cache: summary.cache,
+      })
+      sink.emit('log', {
+        message: `Crawl complete: ${results.length} links found`,
+        type: 'success',
+      })
+    } finally {
+      await checkpoint.close(status)
+    }
+  }
+}
@@ -0,0 +1,245 @@
+import { existsSync, readFileSync } from 'node:fs'
+import { resolve } from 'node:path'
+
+/**
+ * Server-wide defaults and policies. Loaded once from
+ * `url-tools.config.json` in the working directory (or the file named by
+ * `URL_TOOLS_CONFIG`), merged over `DEFAULT_CONFIG`, then overridden by the
+ * environment variables in `ENV_OVERRIDES`. Every key is optional.
+ */
+export interface ServerConfig {
+  /** Used for `RequestSettings` fields a request leaves out */
+  requestDefaults: {
+    timeout: number
+    retries: number
+    parallelRequests: number
+  }
+  limits: {
+    /** Default page/link budget per tool when the request sets none */
+    maxUrls: {
+      scrapeLinks: number
+      checkLinks: number
+      inboundLinks: number
+    }
+    /** Bytes read per response before it fails as too large */
+    maxBodySize: number
+    maxImageSize: number
+    /** Target URLs per inbound-links run */
+    maxTargets: number
+    /** Rows per inbound-links run, entries per sitemap status check and rows per saved result file */
+    maxResults: number
+  }
+  userAgents: {
+    /** User-Agent header of every request and of headless Chrome */
+    fetch: string
+    /** robots.txt group and meta robots name used by default */
+    robots: string
+  }
+  /** Host names (and their subdomains) requests may or may never go to */
+  domains: {
+    /** When not empty, every other host is refused */
+    allow: string[]
+    /** Wins over `allow` */
+    deny: string[]
+  }
+  output: {
+    /** Root of all results, jobs and the HTTP cache */
+    dir: string
+    /** Sub-directories of `dir` per kind of result */
+    folders: {
+      scraper: string
+      seoAudit: string
+      silo: string
+      images: string
+      screenshots: string
+      cloaking: string
+      sitemap: string
+    }
+  }
+}
+
+export const CONFIG_FILE = 'url-tools.config.json'
+
+export const DEFAULT_CONFIG: ServerConfig = {
+  requestDefaults: {
+    timeout: 30,
+    retries: 1,
+    parallelRequests: 5,
+  },
+  limits: {
+    maxUrls: {
+      scrapeLinks: 100,
+      checkLinks: 500,
+      inboundLinks: 200,
+    },
+    maxBodySize: 10 * 1024 * 1024,
+    maxImageSize: 50 * 1024 * 1024,
+    maxTargets: 500,
+    maxResults: 50000,
+  },
+  userAgents: {
+    fetch: 'Mozilla/5.0 (compatible; URLTools/1.0)',
+    robots: 'URLTools',
+  },
+  domains: {
+    allow: [],
+    deny: [],
+  },
+  output: {
+    dir: 'output',
+    folders: {
+      scraper: 'scraper',
+      seoAudit: 'seo-audit',
+      silo: 'silo',
+      images: 'images',
+      screenshots: 'screenshots',
+      cloaking: 'cloaking',
+      sitemap: 'sitemap',
+    },
+  },
+}
+
+// Environment variable → config key. Numbers and comma-separated lists
+// are parsed according to the type of the default value.
+const ENV_OVERRIDES: Record<string, string> = {
+  OUTPUT_DIR: 'output.dir',
+  URL_TOOLS_TIMEOUT: 'requestDefaults.timeout',
+  URL_TOOLS_RETRIES: 'requestDefaults.retries',
+  URL_TOOLS_PARALLEL_REQUESTS: 'requestDefaults.parallelRequests',
+  URL_TOOLS_MAX_BODY_SIZE: 'limits.maxBodySize',
+  URL_TOOLS_USER_AGENT: 'userAgents.fetch',
+  URL_TOOLS_ROBOTS_USER_AGENT: 'userAgents.robots',
+  URL_TOOLS_ALLOW_DOMAINS: 'domains.allow',
+  URL_TOOLS_DENY_DOMAINS: 'domains.deny',
+}
+
+// Counts that may be zero; every other number must be positive
+const ZERO_ALLOWED = new Set(['requestDefaults.retries'])
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+/**
+ * Validates `value` against the shape of `defaults` and returns the merged
+ * result. Unknown keys are errors, so a typo doesn't silently do nothing.
+ */
+function merge<T>(
+  defaults: T,
+  value: unknown,
+  path: string,
+  source: string,
+): T {
+  const fail = (expected: string): never => {
+    throw new Error(`Invalid ${source}: ${path} must be ${expected}`)
+  }
+
+  if (typeof defaults === 'number') {
+    const min = ZERO_ALLOWED.has(path) ? 0 : 1
+    if (typeof value !== 'number' || !Number.isInteger(value) || value < min) {
+      fail(min === 0 ? 'a non-negative integer' : 'a positive integer')
+    }
+    return value as T
+  }
+  if (typeof defaults === 'string') {
+    if (typeof value !== 'string' || !value.trim()) fail('a non-empty string')
+    return (value as string).trim() as T
+  }
+  if (Array.isArray(defaults)) {
+    if (
+      !Array.isArray(value) ||
+      !value.every((entry) => typeof entry === 'string')
+    ) {
+      fail('an array of strings')
+    }
+    return (value as string[])
+      .map((entry) => entry.trim().toLowerCase())
+      .filter(Boolean) as T
+  }
+
+  if (!isRecord(value)) return fail('an object')
+  const merged = { ...defaults } as Record<string, unknown>
+  for (const [key, entry] of Object.entries(value)) {
+    const child = path ? `${path}.${key}` : key
+    if (!(key in merged)) {
+      throw new Error(`Invalid ${source}: unknown key ${child}`)
+    }
+    merged[key] = merge(merged[key], entry, child, source)
+  }
+  return merged as T
+}
+
+/** Turns the set `ENV_OVERRIDES` variables into a partial config object */
+function envOverrides(
+  env: Record<string, string | undefined>,
+): Record<string, unknown> {
+  const overrides: Record<string, unknown> = {}
+  for (const [variable, path] of Object.entries(ENV_OVERRIDES)) {
+    const raw = env[variable]?.trim()
+    if (!raw) continue
+
+    const keys = path.split('.')
+    let defaults: unknown = DEFAULT_CONFIG
+    let target = overrides
+    for (const key of keys.slice(0, -1)) {
+      defaults = (defaults as Record<string, unknown>)[key]
+      target[key] ??= {}
+      target = target[key] as Record<string, unknown>
+    }
+    const last = keys[keys.length - 1] as string
+    const defaultValue = (defaults as Record<string, unknown>)[last]
+    target[last] =
+      typeof defaultValue === 'number'
+        ? Number(raw)
+        : Array.isArray(defaultValue)
+          ? raw.split(',')
+          : raw
+  }
+  return overrides
+}
+
+export interface LoadConfigOptions {
+  /** Directory the config file and a relative `output.dir` resolve against */
+  cwd?: string
+  env?: Record<string, string | undefined>
+}
+
+/**
+ * Reads the config file and the environment. A missing default file means
+ * built-in defaults; a missing `URL_TOOLS_CONFIG` file, invalid JSON or an
+ * invalid value throws.
+ */
+export function loadServerConfig({
+  cwd = process.cwd(),
+  env = process.env,
+}: LoadConfigOptions = {}): ServerConfig {
+  const explicit = env.URL_TOOLS_CONFIG?.trim()
+  const file = resolve(cwd, explicit || CONFIG_FILE)
+
+  let config = DEFAULT_CONFIG
+  if (explicit || existsSync(file)) {
+    let parsed: unknown
+    try {
+      parsed = JSON.parse(readFileSync(file, 'utf8'))
+    } catch (error) {
+      throw new Error(
+        `Cannot read ${file}: ${error instanceof Error ? error.message : error}`,
+      )
+    }
+    config = merge(DEFAULT_CONFIG, parsed, '', file)
+  }
+  config = merge(config, envOverrides(env), '', 'environment')
+
+  return {
+    ...config,
+    output: { ...config.output, dir: resolve(cwd, config.output.dir) },
+  }
+}
+
+let current: ServerConfig | null = null
+
+/** The effective configuration, loaded on first use */
+export function getServerConfig(): ServerConfig {
+  current ??= loadServerConfig()
+  return current
+}
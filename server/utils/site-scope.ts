@@ -0,0 +1,70 @@
+import { getDomain } from 'tldts'
+
+/**
+ * Site scope: which hosts count as "internal" relative to a page. Drives
+ * internal/external classification and recursion in every crawler.
+ *
+ * Mirrored in `app/utils/site-scope.ts` for the Silo graph; the parity test
+ * in `app/utils/__tests__/site-scope.test.ts` keeps them in sync.
+ */
+
+/**
+ * - `host`: only the exact same hostname (default)
+ * - `domain`: the same registrable domain, i.e. all subdomains
+ * - `hosts`: the page's own host plus every host in `hosts`
+ */
+export type SiteScopeMode = 'host' | 'domain' | 'hosts'
+
+export interface SiteScope {
+  mode: SiteScopeMode
+  /** For mode `hosts`: hostnames, `*.example.com` matches all subdomains */
+  hosts?: string[]
+}
+
+const MAX_SCOPE_HOSTS = 100
+
+/**
+ * Returns the registrable domain of a hostname (`blog.example.co.uk` →
+ * `example.co.uk`), per the Public Suffix List including its private
+ * section, so tenants of `github.io` or `herokuapp.com` are separate sites.
+ * IP addresses, single-label hosts and suffixes themselves are returned as
+ * is.
+ */
+export function getRegistrableDomain(hostname: string): string {
+  const host = hostname.toLowerCase().replace(/\.$/, '')
+  return getDomain(host, { allowPrivateDomains: true }) ?? host
+}
+
+/** Whether `hostname` is one of `hosts`; `*.example.com` also matches subdomains */
+export function matchesHostList(hostname: string, hosts: string[]): boolean {
+  return hosts.some((entry) => {
+    const pattern = entry.trim().toLowerCase()
+    if (pattern.startsWith('*.')) {
+      const base = pattern.slice(2)
+      return hostname === base || hostname.endsWith(`.${base}`)
+    }
+    return hostname === pattern
+  })
+}
+
+/**
+ * Whether `targetHost` is internal relative to `baseHost` under `scope`.
+ * Without a scope only identical hosts are internal.
+ */
+export function isInScope(
+  baseHost: string,
+  targetHost: string,
+  scope?: SiteScope,
+): boolean {
+  const base = baseHost.toLowerCase()
+  const target = targetHost.toLowerCase()
+  if (base === target) return true
+  if (scope?.mode === 'domain') {
+    return getRegistrableDomain(base) === getRegistrableDomain(target)
+  }
+  if (scope?.mode === 'hosts' && Array.isArray(scope.hosts)) {
+    const hosts = scope.hosts.slice(0, MAX_SCOPE_HOSTS).map(String)
+    return matchesHostList(target, hosts)
+  }
+  return false
+}
@@ -0,0 +1,126 @@
+import { createError } from 'h3'
+import { fetchWithRetry, type RequestSettings } from './fetch-with-retry'
+import { fetchRobotsTxt } from './robots'
+import { isAllowedUrl } from './url-validator'
+
+/**
+ * How a sitemap URL was found: given as is, listed in a `Sitemap:` line of
+ * robots.txt, or probed at a path from `PROBE_PATHS`
+ */
+export type SitemapDiscoveryMethod = 'input' | 'robots' | 'default' | 'cms'
+
+export const SITEMAP_DISCOVERY_LABELS: Record<SitemapDiscoveryMethod, string> =
+  {
+    input: 'as entered',
+    robots: 'robots.txt',
+    default: 'default path',
+    cms: 'CMS path',
+  }
+
+export interface DiscoveredSitemap {
+  url: string
+  method: SitemapDiscoveryMethod
+}
+
+// Probed in order when robots.txt lists no sitemap; the first hit wins
+const PROBE_PATHS: [path: string, method: SitemapDiscoveryMethod][] = [
+  ['/sitemap.xml', 'default'],
+  ['/sitemap_index.xml', 'default'],
+  ['/sitemap.xml.gz', 'default'],
+  ['/wp-sitemap.xml', 'cms'], // WordPress core
+  ['/sitemap-index.xml', 'cms'], // Astro, Next.js sitemap plugins
+  ['/sitemap/sitemap-index.xml', 'cms'], // Magento
+  ['/sitemaps/sitemap.xml', 'cms'],
+  ['/sitemap.txt', 'cms'],
+]
+
+/**
+ * Parses the Sitemap Parser / inbound sitemap scope input. A bare domain
+ * gets `https://`; the result is null for anything but an http(s) URL.
+ */
+export function parseSitemapInput(input: string): URL | null {
+  const value = input.trim()
+  if (!value) return null
+  try {
+    const url = new URL(
+      /^[a-z][\w+.-]*:/i.test(value) ? value : `https://${value}`,
+    )
+    return url.protocol === 'http:' || url.protocol === 'https:' ? url : null
+  } catch {
+    return null
+  }
+}
+
+/** True when the input names a site rather than a sitemap file */
+export function isSiteInput(url: URL): boolean {
+  return url.pathname === '/' && !url.search
+}
+
+/**
+ * A probed path counts as a sitemap when it answers 2xx with something
+ * other than HTML, which rules out soft 404s that render the home page
+ */
+async function probeSitemap(
+  url: string,
+  settings: RequestSettings,
+): Promise<boolean> {
+  try {
+    const { response } = await fetchWithRetry(url, settings)
+    await response.body?.cancel().catch(() => {})
+    const contentType = response.headers.get('content-type') ?? ''
+    return response.ok && !/html/i.test(contentType)
+  } catch {
+    return false
+  }
+}
+
+/**
+ * Finds the sitemaps of a site: every `Sitemap:` line of its robots.txt,
+ * or else the first of `PROBE_PATHS` that exists. Returns an empty list
+ * when nothing was found; blocked URLs are dropped.
+ */
+export async function discoverSitemaps(
+  origin: string,
+  settings: RequestSettings,
+): Promise<DiscoveredSitemap[]> {
+  const robots = await fetchRobotsTxt(origin, settings)
+  const listed = [...new Set(robots.sitemaps)]
+    .map((href) => {
+      try {
+        return new URL(href, origin).href
+      } catch {
+        return null
+      }
+    })
+    .filter((url): url is string => url !== null && isAllowedUrl(url))
+  if (listed.length > 0) {
+    return listed.map((url) => ({ url, method: 'robots' }))
+  }
+
+  for (const [path, method] of PROBE_PATHS) {
+    const url = `${origin}${path}`
+    if (await probeSitemap(url, settings)) return [{ url, method }]
+  }
+  return []
+}
+
+/**
+ * Turns the user's input into the sitemaps to fetch: a sitemap URL is used
+ * as is, a domain or home page URL goes through `discoverSitemaps`. Throws
+ * a 400 for invalid or blocked input.
+ */
+export async function resolveSitemapInput(
+  input: string,
+  settings: RequestSettings,
+): Promise<DiscoveredSitemap[]> {
+  const url = parseSitemapInput(input)
+  if (!url) throw createError({ statusCode: 400, message: 'Invalid URL' })
+  if (!isAllowedUrl(url.href)) {
+    throw createError({
+      statusCode: 400,
+      message: 'URL is not allowed (blocked by SSRF protection)',
+    })
+  }
+  if (!isSiteInput(url)) return [{ url: url.href, method: 'input' }]
+  return discoverSitemaps(url.origin, settings)
+}
@@ -0,0 +1,285 @@
+import * as cheerio from 'cheerio'
+import { createError } from 'h3'
+import { type CrawlRun, clampRequestSettings } from './crawl-engine'
+import type { RequestSettings } from './fetch-with-retry'
+import { createHostScheduler } from './host-scheduler'
+import {
+  type ChainRequestOptions,
+  fetchRedirectChain,
+  formatRedirectChain,
+} from './link-analyzer'
+import { readResponseText } from './response-body'
+import { parseMetaRobots, parseXRobotsTag } from './robots-meta'
+import { getServerConfig } from './server-config'
+import type { SitemapEntry } from './sitemap'
+import { canonicalizeUrl } from './url-canonical'
+import { isAllowedUrl } from './url-validator'
+
+export interface SitemapStatusRequest {
+  /** Entries as returned by `fetchSitemapUrls` (only `loc` is required) */
+  entries: Pick<SitemapEntry, 'loc' | 'source'>[]
+  /** Requests per second per host, counting every redirect hop (default 2) */
+  rateLimit?: number
+  /** Token whose meta tag counts besides `robots` (default: URLTools) */
+  robotsUserAgent?: string
+  settings?: RequestSettings
+}
+
+export type SitemapStatusIssue =
+  | 'error'
+  | 'non-200'
+  | 'redirect'
+  | 'noindex'
+  | 'canonicalized'
+
+/** Every issue an entry can have, in the order summaries count them */
+export const SITEMAP_STATUS_ISSUES: SitemapStatusIssue[] = [
+  'error',
+  'non-200',
+  'redirect',
+  'noindex',
+  'canonicalized',
+]
+
+export interface SitemapStatusResult {
+  loc: string
+  /** The sitemap that listed the entry */
+  source?: string
+  /** Status of the first response; 0 when the request failed */
+  status: number
+  /** e.g. "301 → 200" */
+  redirects: string
+  finalUrl: string
+  finalStatus: number
+  /** Meta robots and X-Robots-Tag directives that apply, joined */
+  robots: string | null
+  /** Absolute `<link rel="canonical">` of the final page */
+  canonical: string | null
+  /** Empty for a clean entry */
+  issues: SitemapStatusIssue[]
+  error?: string
+}
+
+export interface SitemapStatusSummary {
+  total: number
+  dirtyCount: number
+  counts: Record<SitemapStatusIssue, number>
+}
+
+/** What the final page says about itself */
+interface PageSignals {
+  directives: string[]
+  canonical: string | null
+}
+
+const NO_SIGNALS: PageSignals = { directives: [], canonical: null }
+
+/**
+ * Lists what keeps an entry out of a clean sitemap: only indexable URLs
+ * that answer 200 directly and are their own canonical belong in one.
+ */
+export function sitemapStatusIssues(
+  result: Omit<SitemapStatusResult, 'issues'>,
+  directives: string[] = [],
+): SitemapStatusIssue[] {
+  if (result.error) return ['error']
+
+  const issues: SitemapStatusIssue[] = []
+  if (result.finalStatus !== 200) issues.push('non-200')
+  if (result.status >= 300 && result.status < 400) issues.push('redirect')
+  if (directives.includes('noindex') || directives.includes('none')) {
+    issues.push('noindex')
+  }
+  if (
+    result.canonical &&
+    canonicalizeUrl(result.canonical) !== canonicalizeUrl(result.finalUrl)
+  ) {
+    issues.push('canonicalized')
+  }
+  return issues
+}
+
+/**
+ * Reads the robots directives and the canonical from the final response
+ * of `url`. Non-HTML responses only have the header.
+ */
+async function readPageSignals(
+  url: string,
+  response: Response,
+  robotsUserAgent: string,
+): Promise<PageSignals> {
+  const headerDirectives = parseXRobotsTag(
+    response.headers.get('x-robots-tag') ?? '',
+    robotsUserAgent,
+  )
+  if (!/html/i.test(response.headers.get('content-type') ?? '')) {
+    await response.body?.cancel().catch(() => {})
+    return { directives: headerDirectives, canonical: null }
+  }
+
+  const { text: html } = await readResponseText(response)
+  const href = cheerio.load(html)('link[rel="canonical"]').attr('href')?.trim()
+  let canonical: string | null = null
+  if (href) {
+    try {
+      canonical = new URL(href, url).href
+    } catch {
+      canonical = href
+    }
+  }
+  return {
+    directives: [
+      ...parseMetaRobots(html, robotsUserAgent),
+      ...headerDirectives,
+    ],
+    canonical,
+  }
+}
+
+/**
+ * Follows the redirects of one entry hop by hop, each hop going through
+ * `schedule`, then reads the final page from the last hop if it answered
+ * 2xx. Failures become a result with `error`.
+ */
+async function checkEntry(
+  entry: Pick<SitemapEntry, 'loc' | 'source'>,
+  settings: RequestSettings,
+  robotsUserAgent: string,
+  schedule: ChainRequestOptions['schedule'],
+): Promise<SitemapStatusResult> {
+  const { response, ...chain } = await fetchRedirectChain(entry.loc, 10, {
+    ...settings,
+    schedule,
+  })
+  const checked: Omit<SitemapStatusResult, 'issues'> = {
+    loc: entry.loc,
+    ...(entry.source ? { source: entry.source } : {}),
+    status: chain.chain[0]?.status ?? 0,
+    redirects: formatRedirectChain(chain.chain),
+    finalUrl: chain.finalUrl,
+    finalStatus: chain.finalStatus,
+    robots: null,
+    canonical: null,
+    ...(chain.error ? { error: chain.error } : {}),
+  }
+
+  let signals = NO_SIGNALS
+  if (
+    response &&
+    !chain.error &&
+    chain.finalStatus >= 200 &&
+    chain.finalStatus < 300
+  ) {
+    try {
+      signals = await readPageSignals(chain.finalUrl, response, robotsUserAgent)
+    } catch (error) {
+      checked.error = error instanceof Error ? error.message : 'Unknown error'
+    }
+  } else {
+    await response?.body?.cancel().catch(() => {})
+  }
+  checked.robots = signals.directives.join(', ') || null
+  checked.canonical = signals.canonical
+
+  return {
+    ...checked,
+    issues: sitemapStatusIssues(checked, signals.directives),
+  }
+}
+
+/**
+ * Validates a sitemap status request and returns the run. Entries are
+ * checked in parallel and every request, redirect hops included, is paced
+ * per host by the rate limit, so results arrive in completion order; a
+ * "dirty" entry is one with at least one issue.
+ */
+export async function prepareSitemapStatus(
+  body: SitemapStatusRequest,
+): Promise<CrawlRun> {
+  if (!body.entries || !Array.isArray(body.entries)) {
+    throw createError({ statusCode: 400, message: 'entries array required' })
+  }
+  const seen = new Set<string>()
+  const entries = body.entries
+    .filter((entry) => {
+      if (typeof entry?.loc !== 'string') return false
+      if (seen.has(entry.loc) || !isAllowedUrl(entry.loc)) return false
+      seen.add(entry.loc)
+      return true
+    })
+    .slice(0, getServerConfig().limits.maxResults)
+  if (entries.length === 0) {
+    throw createError({ statusCode: 400, message: 'No valid URLs provided' })
+  }
+
+  const settings = clampRequestSettings(body.settings)
+  const rateLimit = Math.max(body.rateLimit || 2, 0.1)
+  const robotsUserAgent =
+    body.robotsUserAgent?.trim().slice(0, 100) ||
+    getServerConfig().userAgents.robots
+
+  return async (sink) => {
+    // Every entry reserves its token up front, so a stop has to cut the
+    // waits short or the run would only settle once the last one is due
+    const scheduler = createHostScheduler({
+      ratePerHost: rateLimit,
+      concurrency: settings.parallelRequests ?? 5,
+      isStopped: () => sink.isClosed(),
+    })
+    const summary: SitemapStatusSummary = {
+      total: entries.length,
+      dirtyCount: 0,
+      counts: {
+        error: 0,
+        'non-200': 0,
+        redirect: 0,
+        noindex: 0,
+        canonicalized: 0,
+      },
+    }
+
+    sink.emit('log', {
+      message: `Checking ${entries.length} sitemap entries at ${rateLimit} requests/s per host`,
+      type: 'info',
+    })
+
+    // Requests that got their turn wait while the run is paused and are
+    // dropped if it was closed meanwhile
+    const schedule = <T>(url: string, task: () => Promise<T>) =>
+      scheduler.schedule(url, async () => {
+        if (sink.untilResumed) await sink.untilResumed()
+        if (sink.isClosed()) throw new Error('Check stopped')
+        return task()
+      })
+
+    // Checks run in parallel across hosts; the scheduler paces each host
+    // and caps the requests in flight at parallelRequests
+    let done = 0
+    await Promise.all(
+      entries.map(async (entry) => {
+        const result = await checkEntry(
+          entry,
+          settings,
+          robotsUserAgent,
+          schedule,
+        )
+        if (sink.isClosed()) return
+        done++
+        if (result.issues.length > 0) summary.dirtyCount++
+        for (const issue of result.issues) summary.counts[issue]++
+        sink.emit('result', result)
+        sink.emit('progress', {
+          done,
+          total: entries.length,
+          currentUrl: entry.loc,
+        })
+      }),
+    )
+
+    sink.emit('done', summary)
+    sink.emit('log', {
+      message: `Check complete: ${summary.dirtyCount} of ${entries.length} entries are dirty`,
+      type: 'success',
+    })
+  }
+}
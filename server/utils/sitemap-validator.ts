@@ -0,0 +1,198 @@
+import { tooLargeError } from './response-body'
+import type { FetchedSitemap, SitemapFormat } from './sitemap'
+
+/** Limits of the sitemaps.org protocol, per file */
+export const MAX_SITEMAP_URLS = 50000
+export const MAX_SITEMAP_BYTES = 50 * 1024 * 1024
+
+export type SitemapIssueType =
+  | 'fetch-failed'
+  | 'not-a-sitemap'
+  | 'too-many-urls'
+  | 'too-large'
+  | 'nested-index'
+  | 'foreign-url'
+  | 'duplicate-loc'
+  | 'invalid-lastmod'
+  | 'invalid-priority'
+
+/** Every issue type, in the order reports count them */
+export const SITEMAP_ISSUE_TYPES: SitemapIssueType[] = [
+  'fetch-failed',
+  'not-a-sitemap',
+  'too-many-urls',
+  'too-large',
+  'nested-index',
+  'foreign-url',
+  'duplicate-loc',
+  'invalid-lastmod',
+  'invalid-priority',
+]
+
+export interface SitemapIssue {
+  type: SitemapIssueType
+  message: string
+  /** The entry (or child sitemap) the issue is about */
+  loc?: string
+}
+
+export interface SitemapFileReport {
+  url: string
+  /** null when the file couldn't be read */
+  format: SitemapFormat | null
+  urlCount: number
+  /** Uncompressed size */
+  bytes: number
+  counts: Partial<Record<SitemapIssueType, number>>
+  /** The first `MAX_ISSUES_PER_FILE` issues */
+  issues: SitemapIssue[]
+}
+
+export interface SitemapValidation {
+  files: SitemapFileReport[]
+  issueCount: number
+}
+
+const MAX_ISSUES_PER_FILE = 100
+const MB = 1024 * 1024
+
+// W3C Datetime (https://www.w3.org/TR/NOTE-datetime): YYYY, YYYY-MM,
+// YYYY-MM-DD, or a date with hh:mm[:ss[.s]] and a time zone
+const W3C_DATETIME =
+  /^(\d{4})(?:-(\d{2})(?:-(\d{2})(?:T(\d{2}):(\d{2})(?::(\d{2})(?:\.\d+)?)?(Z|[+-](\d{2}):(\d{2})))?)?)?$/
+
+/** True for a W3C Datetime with an existing date and time */
+export function isW3cDatetime(value: string): boolean {
+  const match = W3C_DATETIME.exec(value)
+  if (!match) return false
+  const [, year, month, day, hour, minute, second, , tzHour, tzMinute] = match
+  if (month && (Number(month) < 1 || Number(month) > 12)) return false
+  if (day) {
+    const daysInMonth = new Date(
+      Date.UTC(Number(year), Number(month), 0),
+    ).getUTCDate()
+    if (Number(day) < 1 || Number(day) > daysInMonth) return false
+  }
+  if (hour && (Number(hour) > 23 || Number(minute) > 59)) return false
+  if (second && Number(second) > 59) return false
+  if (tzHour && (Number(tzHour) > 23 || Number(tzMinute) > 59)) return false
+  return true
+}
+
+/** A decimal number from 0.0 to 1.0 */
+export function isValidPriority(value: string): boolean {
+  return /^(?:0(?:\.\d+)?|1(?:\.0+)?|\.\d+)$/.test(value)
+}
+
+/**
+ * Collects protocol violations while `fetchSitemapUrls` walks the sitemaps:
+ * pass `onSitemapParsed` and `onSitemapFailed` as its options, then call
+ * `report()`. Duplicate locs are reported in the file that repeats them.
+ */
+export function createSitemapValidator(maxBytes = MAX_SITEMAP_BYTES) {
+  const files: SitemapFileReport[] = []
+  // loc → the file that listed it first
+  const firstSeen = new Map<string, string>()
+
+  function fileReport(
+    url: string,
+    format: SitemapFormat | null,
+    urlCount: number,
+    bytes: number,
+  ) {
+    const report: SitemapFileReport = {
+      url,
+      format,
+      urlCount,
+      bytes,
+      counts: {},
+      issues: [],
+    }
+    files.push(report)
+    const add = (type: SitemapIssueType, message: string, loc?: string) => {
+      report.counts[type] = (report.counts[type] ?? 0) + 1
+      if (report.issues.length < MAX_ISSUES_PER_FILE) {
+        report.issues.push(loc ? { type, message, loc } : { type, message })
+      }
+    }
+    return add
+  }
+
+  function onSitemapParsed({ url, parentUrl, bytes, parsed }: FetchedSitemap) {
+    const { format, entries, childSitemaps } = parsed
+    const urlCount =
+      format === 'sitemapindex' ? childSitemaps.length : entries.length
+    const add = fileReport(url, format, urlCount, bytes)
+
+    if (format === 'unknown') {
+      add('not-a-sitemap', 'Neither a urlset, a sitemap index nor a feed')
+    }
+    if (urlCount > MAX_SITEMAP_URLS) {
+      add(
+        'too-many-urls',
+        `${urlCount} URLs (max. ${MAX_SITEMAP_URLS} per file)`,
+      )
+    }
+    if (format === 'sitemapindex' && parentUrl) {
+      add('nested-index', `Sitemap index listed in the index ${parentUrl}`)
+    }
+
+    const base = new URL(url)
+    const checkLocation = (loc: string) => {
+      let target: URL
+      try {
+        target = new URL(loc)
+      } catch {
+        add('foreign-url', 'Not an absolute URL', loc)
+        return
+      }
+      if (target.protocol !== base.protocol || target.host !== base.host) {
+        add('foreign-url', `Not on ${base.protocol}//${base.host}`, loc)
+      }
+    }
+    for (const child of childSitemaps) checkLocation(child)
+
+    for (const entry of entries) {
+      checkLocation(entry.loc)
+
+      const first = firstSeen.get(entry.loc)
+      if (first === undefined) firstSeen.set(entry.loc, url)
+      else add('duplicate-loc', `Also listed in ${first}`, entry.loc)
+
+      if (entry.lastmod !== undefined && !isW3cDatetime(entry.lastmod)) {
+        add(
+          'invalid-lastmod',
+          `lastmod "${entry.lastmod}" is not a W3C Datetime`,
+          entry.loc,
+        )
+      }
+      if (entry.priority !== undefined && !isValidPriority(entry.priority)) {
+        add(
+          'invalid-priority',
+          `priority "${entry.priority}" is outside 0.0-1.0`,
+          entry.loc,
+        )
+      }
+    }
+  }
+
+  function onSitemapFailed(url: string, message: string) {
+    const add = fileReport(url, null, 0, 0)
+    // Bodies are read up to the protocol limit, so "too large" means over it
+    if (message === tooLargeError(maxBytes).message) {
+      add('too-large', `Over ${maxBytes / MB}MB uncompressed`)
+    } else {
+      add('fetch-failed', message)
+    }
+  }
+
+  function report(): SitemapValidation {
+    let issueCount = 0
+    for (const file of files) {
+      for (const count of Object.values(file.counts)) issueCount += count ?? 0
+    }
+    return { files, issueCount }
+  }
+
+  return { onSitemapParsed, onSitemapFailed, report }
+}
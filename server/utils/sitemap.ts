@@ -1,13 +1,87 @@
+import { promisify } from 'node:util'
+import { gunzip } from 'node:zlib'
 import * as cheerio from 'cheerio'
 import { fetchWithRetry, type RequestSettings } from './fetch-with-retry'
+import {
+  type DecodedBody,
+  decodeBody,
+  readResponseBytes,
+  tooLargeError,
+} from './response-body'
 import { isAllowedUrl } from './url-validator'
 
+/** `<image:image>` (Google image sitemap extension) */
+export interface SitemapImage {
+  loc: string
+  /** Deprecated by Google, still common */
+  title?: string
+  caption?: string
+}
+
+/** `<video:video>` (Google video sitemap extension) */
+export interface SitemapVideo {
+  thumbnailLoc: string
+  title: string
+  description: string
+  contentLoc?: string
+  playerLoc?: string
+  /** Seconds, as written */
+  duration?: string
+  publicationDate?: string
+}
+
+/** `<news:news>` (Google News sitemap extension) */
+export interface SitemapNews {
+  publicationName: string
+  publicationLanguage: string
+  publicationDate: string
+  title: string
+}
+
+/** `<xhtml:link rel="alternate" hreflang>` */
+export interface SitemapAlternate {
+  hreflang: string
+  href: string
+}
+
 export interface SitemapEntry {
   loc: string
   lastmod?: string
   changefreq?: string
   priority?: string
   source: string
+  /** Extension fields, only set when the entry has them */
+  images?: SitemapImage[]
+  videos?: SitemapVideo[]
+  news?: SitemapNews
+  alternates?: SitemapAlternate[]
+}
+
+/** How a sitemap file was written, sniffed from its content */
+export type SitemapFormat =
+  | 'urlset'
+  | 'sitemapindex'
+  | 'rss'
+  | 'atom'
+  | 'text'
+  /** XML, but none of the above (e.g. an HTML error page) */
+  | 'unknown'
+
+export interface ParsedSitemap {
+  format: SitemapFormat
+  entries: SitemapEntry[]
+  /** `<sitemap><loc>` of a sitemap index; always empty for other formats */
+  childSitemaps: string[]
+}
+
+/** One sitemap file as read by `fetchSitemapUrls` */
+export interface FetchedSitemap {
+  url: string
+  /** The sitemap index that listed it; null for a start URL */
+  parentUrl: string | null
+  /** Uncompressed size */
+  bytes: number
+  parsed: ParsedSitemap
 }
 
 export interface FetchSitemapResult {
@@ -26,17 +100,257 @@ export interface FetchSitemapOptions {
    * callback can't break the fetch loop.
    */
   onSitemapFetched?: (url: string, entriesAdded: number) => void
+  /** Called with every parsed file, before entries are capped */
+  onSitemapParsed?: (sitemap: FetchedSitemap) => void
+  /** Called when a sitemap can't be fetched or read */
+  onSitemapFailed?: (url: string, message: string) => void
 }
 
 const DEFAULT_MAX_SITEMAPS = 50
 const DEFAULT_MAX_ENTRIES = 50000
 const DEFAULT_MAX_BODY_SIZE = 10 * 1024 * 1024
 
-export function parseSitemapXml(
-  xml: string,
+const gunzipAsync = promisify(gunzip)
+
+function isGzip(bytes: Uint8Array): boolean {
+  return bytes[0] === 0x1f && bytes[1] === 0x8b
+}
+
+/**
+ * Reads a sitemap body. Gzip is detected by its magic bytes rather than the
+ * `.gz` extension or Content-Type, and `maxBytes` applies both to the
+ * compressed download and to the decompressed size.
+ */
+async function readSitemapBody(
+  response: Response,
+  maxBytes: number,
+): Promise<DecodedBody> {
+  const raw = await readResponseBytes(response, maxBytes)
+  if (!isGzip(raw)) {
+    return decodeBody(raw, response.headers.get('content-type'))
+  }
+
+  let bytes: Buffer
+  try {
+    bytes = await gunzipAsync(raw, { maxOutputLength: maxBytes })
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ERR_BUFFER_TOO_LARGE') {
+      throw tooLargeError(maxBytes)
+    }
+    throw error
+  }
+  // The Content-Type of a .gz file says nothing about the charset inside
+  return decodeBody(bytes)
+}
+
+/** Resolves `href` against the sitemap URL; null unless it's http(s) */
+function absoluteUrl(href: string, base: string): string | null {
+  try {
+    const url = new URL(href, base)
+    return url.protocol === 'http:' || url.protocol === 'https:'
+      ? url.href
+      : null
+  } catch {
+    return null
+  }
+}
+
+/** RFC 822 (RSS) dates become ISO 8601 like sitemap `lastmod` */
+function toIsoDate(value: string): string | undefined {
+  if (!value) return undefined
+  const time = Date.parse(value)
+  return Number.isNaN(time) ? value : new Date(time).toISOString()
+}
+
+/**
+ * Parses any supported sitemap format: XML urlset or sitemap index, RSS 2.0,
+ * Atom, or plain text with one URL per line. Anything that starts with `<`
+ * is treated as XML.
+ */
+export function parseSitemap(body: string, sourceUrl: string): ParsedSitemap {
+  if (!body.trimStart().startsWith('<')) {
+    return {
+      format: 'text',
+      entries: parseSitemapText(body, sourceUrl),
+      childSitemaps: [],
+    }
+  }
+  return parseSitemapXml(body, sourceUrl)
+}
+
+/** Plain-text sitemap: one absolute URL per line, other lines are skipped */
+export function parseSitemapText(
+  text: string,
   sourceUrl: string,
-): { entries: SitemapEntry[]; childSitemaps: string[] } {
+): SitemapEntry[] {
+  const entries: SitemapEntry[] = []
+  const seenLocs = new Set<string>()
+  for (const line of text.split(/\r?\n/)) {
+    const loc = line.trim()
+    if (!/^https?:\/\//i.test(loc) || !absoluteUrl(loc, sourceUrl)) continue
+    if (seenLocs.has(loc)) continue
+    seenLocs.add(loc)
+    entries.push({ loc, source: sourceUrl })
+  }
+  return entries
+}
+
+/** RSS `<item>`s and Atom `<entry>`s; `null` when the XML is neither */
+function parseFeed(
+  $: cheerio.CheerioAPI,
+  sourceUrl: string,
+): Pick<ParsedSitemap, 'format' | 'entries'> | null {
+  const entries: SitemapEntry[] = []
+  const seenLocs = new Set<string>()
+  const add = (href: string, lastmod: string) => {
+    const loc = absoluteUrl(href.trim(), sourceUrl)
+    if (!loc || seenLocs.has(loc)) return
+    seenLocs.add(loc)
+    entries.push({ loc, lastmod: toIsoDate(lastmod.trim()), source: sourceUrl })
+  }
+
+  if ($('rss').length > 0) {
+    $('rss > channel > item').each((_, el) => {
+      const item = $(el)
+      add(
+        item.children('link').first().text(),
+        item.children('pubDate').first().text(),
+      )
+    })
+    return { format: 'rss', entries }
+  }
+
+  if ($('feed').length > 0) {
+    $('feed > entry').each((_, el) => {
+      const entry = $(el)
+      // The page itself is rel="alternate", which is also the default
+      const link = entry
+        .children('link')
+        .filter((_, l) => ($(l).attr('rel') ?? 'alternate') === 'alternate')
+        .first()
+      add(
+        link.attr('href') ?? '',
+        entry.children('updated').first().text() ||
+          entry.children('published').first().text(),
+      )
+    })
+    return { format: 'atom', entries }
+  }
+
+  return null
+}
+
+const EXTENSION_NAMESPACES = {
+  image: 'http://www.google.com/schemas/sitemap-image/1.1',
+  video: 'http://www.google.com/schemas/sitemap-video/1.1',
+  news: 'http://www.google.com/schemas/sitemap-news/0.9',
+  xhtml: 'http://www.w3.org/1999/xhtml',
+}
+
+type SitemapExtension = keyof typeof EXTENSION_NAMESPACES
+
+type Selection = ReturnType<cheerio.CheerioAPI>
+
+/**
+ * Tag selectors for the extension elements, keyed like `image:loc`. They
+ * use the prefix each namespace is bound to on the root element; nearly
+ * every sitemap uses the names from Google's docs, which are also the
+ * fallback when a namespace isn't declared.
+ */
+function extensionTags(
+  rootAttributes: Record<string, string> | undefined,
+): (extension: SitemapExtension, name: string) => string {
+  const prefixes: Record<SitemapExtension, string> = {
+    image: 'image',
+    video: 'video',
+    news: 'news',
+    xhtml: 'xhtml',
+  }
+  for (const [name, value] of Object.entries(rootAttributes ?? {})) {
+    if (!name.startsWith('xmlns:')) continue
+    for (const [extension, uri] of Object.entries(EXTENSION_NAMESPACES)) {
+      if (value.trim() === uri) {
+        prefixes[extension as SitemapExtension] = name.slice('xmlns:'.length)
+      }
+    }
+  }
+  // `image:loc` is a tag name in XML but a pseudo-class in CSS
+  return (extension, name) =>
+    `${prefixes[extension].replace(/[^\w-]/g, '\\$&')}\\:${name}`
+}
+
+function childText(parent: Selection, selector: string): string {
+  return parent.children(selector).first().text().trim()
+}
+
+/** The extension fields of one `<url>`; absent extensions stay undefined */
+function parseExtensions(
+  $: cheerio.CheerioAPI,
+  url: Selection,
+  tag: ReturnType<typeof extensionTags>,
+): Pick<SitemapEntry, 'images' | 'videos' | 'news' | 'alternates'> {
+  const images: SitemapImage[] = []
+  url.children(tag('image', 'image')).each((_, el) => {
+    const image = $(el)
+    const loc = childText(image, tag('image', 'loc'))
+    if (!loc) return
+    images.push({
+      loc,
+      title: childText(image, tag('image', 'title')) || undefined,
+      caption: childText(image, tag('image', 'caption')) || undefined,
+    })
+  })
+
+  const videos: SitemapVideo[] = []
+  url.children(tag('video', 'video')).each((_, el) => {
+    const video = $(el)
+    const field = (name: string) => childText(video, tag('video', name))
+    videos.push({
+      thumbnailLoc: field('thumbnail_loc'),
+      title: field('title'),
+      description: field('description'),
+      contentLoc: field('content_loc') || undefined,
+      playerLoc: field('player_loc') || undefined,
+      duration: field('duration') || undefined,
+      publicationDate: field('publication_date') || undefined,
+    })
+  })
+
+  let news: SitemapNews | undefined
+  const newsElement = url.children(tag('news', 'news')).first()
+  if (newsElement.length > 0) {
+    const publication = newsElement.children(tag('news', 'publication')).first()
+    news = {
+      publicationName: childText(publication, tag('news', 'name')),
+      publicationLanguage: childText(publication, tag('news', 'language')),
+      publicationDate: childText(newsElement, tag('news', 'publication_date')),
+      title: childText(newsElement, tag('news', 'title')),
+    }
+  }
+
+  const alternates: SitemapAlternate[] = []
+  url.children(tag('xhtml', 'link')).each((_, el) => {
+    const link = $(el)
+    const hreflang = link.attr('hreflang')?.trim()
+    const href = link.attr('href')?.trim()
+    if (link.attr('rel')?.trim() !== 'alternate' || !hreflang || !href) return
+    alternates.push({ hreflang, href })
+  })
+
+  return {
+    images: images.length > 0 ? images : undefined,
+    videos: videos.length > 0 ? videos : undefined,
+    news,
+    alternates: alternates.length > 0 ? alternates : undefined,
+  }
+}
+
+export function parseSitemapXml(xml: string, sourceUrl: string): ParsedSitemap {
   const $ = cheerio.load(xml, { xmlMode: true })
+
+  const feed = parseFeed($, sourceUrl)
+  if (feed) return { ...feed, childSitemaps: [] }
+
   const entries: SitemapEntry[] = []
   const childSitemaps: string[] = []
   const seenLocs = new Set<string>()
@@ -49,26 +363,39 @@ export function parseSitemapXml(
     }
   })
 
+  const tag = extensionTags($('urlset').attr())
   $('urlset > url').each((_, el) => {
-    const loc = $('loc', el).text().trim()
+    const url = $(el)
+    const loc = childText(url, 'loc')
     if (!loc) return
     if (seenLocs.has(loc)) return
     seenLocs.add(loc)
 
     entries.push({
       loc,
-      lastmod: $('lastmod', el).text().trim() || undefined,
-      changefreq: $('changefreq', el).text().trim() || undefined,
-      priority: $('priority', el).text().trim() || undefined,
+      lastmod: childText(url, 'lastmod') || undefined,
+      changefreq: childText(url, 'changefreq') || undefined,
+      priority: childText(url, 'priority') || undefined,
       source: sourceUrl,
+      ...parseExtensions($, url, tag),
     })
   })
 
-  return { entries, childSitemaps }
+  const format = $('sitemapindex').length
+    ? 'sitemapindex'
+    : $('urlset').length
+      ? 'urlset'
+      : 'unknown'
+  return { format, entries, childSitemaps }
 }
 
+/**
+ * Fetches and parses sitemaps breadth-first, starting with `startUrls` (one
+ * or several, e.g. everything robots.txt lists). Child sitemaps of an index
+ * are followed only with `recursive`.
+ */
 export async function fetchSitemapUrls(
-  startUrl: string,
+  startUrls: string | string[],
   settings: RequestSettings,
   opts: FetchSitemapOptions = {},
 ): Promise<FetchSitemapResult> {
@@ -79,14 +406,16 @@ export async function fetchSitemapUrls(
 
   const allEntries: SitemapEntry[] = []
   const fetchedSitemaps = new Set<string>()
-  const queue: string[] = [startUrl]
+  const queue = (Array.isArray(startUrls) ? startUrls : [startUrls]).map(
+    (url) => ({ url, parentUrl: null as string | null }),
+  )
 
   while (
     queue.length > 0 &&
     fetchedSitemaps.size < maxSitemaps &&
     allEntries.length < maxEntries
   ) {
-    const currentUrl = queue.shift()!
+    const { url: currentUrl, parentUrl } = queue.shift()!
 
     if (fetchedSitemaps.has(currentUrl)) continue
     fetchedSitemaps.add(currentUrl)
@@ -96,16 +425,20 @@ export async function fetchSitemapUrls(
     try {
       const { response } = await fetchWithRetry(currentUrl, settings)
 
-      const contentLength = parseInt(
-        response.headers.get('content-length') || '0',
-        10,
-      )
-      if (contentLength > maxBodySize) continue
-
-      const xml = await response.text()
-      if (xml.length > maxBodySize) continue
+      const body = await readSitemapBody(response, maxBodySize)
 
-      const { entries, childSitemaps } = parseSitemapXml(xml, currentUrl)
+      const parsed = parseSitemap(body.text, currentUrl)
+      const { entries, childSitemaps } = parsed
+      try {
+        opts.onSitemapParsed?.({
+          url: currentUrl,
+          parentUrl,
+          bytes: body.bytes,
+          parsed,
+        })
+      } catch {
+        // Same as onSitemapFetched below
+      }
 
       const before = allEntries.length
       for (const entry of entries) {
@@ -122,11 +455,18 @@ export async function fetchSitemapUrls(
       if (recursive) {
         for (const childUrl of childSitemaps) {
           if (!fetchedSitemaps.has(childUrl) && isAllowedUrl(childUrl)) {
-            queue.push(childUrl)
+            queue.push({ url: childUrl, parentUrl: currentUrl })
           }
         }
       }
-    } catch {}
+    } catch (error) {
+      try {
+        opts.onSitemapFailed?.(
+          currentUrl,
+          error instanceof Error ? error.message : 'Unknown error',
+        )
+      } catch {}
+    }
   }
 
   return {
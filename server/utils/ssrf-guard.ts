@@ -0,0 +1,139 @@
+import { lookup } from 'node:dns/promises'
+import { isIP, type LookupFunction } from 'node:net'
+import { Agent, buildConnector, type Dispatcher } from 'undici'
+import { isBlockedAddress } from './url-validator'
+
+/**
+ * Resolver-backed SSRF guard. `isAllowedUrl` only sees the URL; a public
+ * looking name can still resolve to 127.0.0.1 or a cloud metadata address.
+ * Direct connections therefore resolve through `guardedLookup`, which
+ * rejects the connection when any address of the host is blocked. The
+ * check runs when the socket is opened, so it covers every redirect hop
+ * and a name that changes its answer between two requests (DNS rebinding).
+ */
+
+/** Resolves a host name to all of its addresses */
+export type HostResolver = (hostname: string) => Promise<string[]>
+
+export const systemResolver: HostResolver = async (hostname) =>
+  (await lookup(hostname, { all: true })).map((entry) => entry.address)
+
+const BLOCKED_CODE = 'ERR_BLOCKED_ADDRESS'
+
+/** An error `blockedCause` recognizes, so callers don't retry it */
+export function blockedError(message: string): Error {
+  return Object.assign(new Error(message), { code: BLOCKED_CODE })
+}
+
+function blockedAddressError(hostname: string, address: string): Error {
+  return blockedError(
+    hostname === address
+      ? `Blocked: ${address} is a private or reserved address`
+      : `Blocked: ${hostname} resolves to a private or reserved address (${address})`,
+  )
+}
+
+/**
+ * The guard's error behind `error`, if any. fetch reports connection
+ * failures as `TypeError: fetch failed` with the real error as `cause`.
+ */
+export function blockedCause(error: unknown): Error | null {
+  for (let e = error; e instanceof Error; e = e.cause) {
+    if ((e as NodeJS.ErrnoException).code === BLOCKED_CODE) return e
+  }
+  return null
+}
+
+/**
+ * Resolves `hostname` (an IP literal is taken as is) and throws when any of
+ * its addresses is blocked; returns the addresses otherwise.
+ */
+export async function resolveAllowedAddresses(
+  hostname: string,
+  resolve: HostResolver = systemResolver,
+): Promise<string[]> {
+  const host = hostname.replace(/^\[|\]$/g, '')
+  const addresses = isIP(host) ? [host] : await resolve(host)
+  const blocked = addresses.find(isBlockedAddress)
+  if (blocked) throw blockedAddressError(host, blocked)
+  return addresses
+}
+
+/**
+ * Checks the host of `url` before a request whose connection the guard
+ * can't see (HTTP and socks5h proxies, headless Chrome). A name that
+ * doesn't resolve here may still resolve at the proxy, so lookup failures
+ * are left to the request itself.
+ */
+export async function assertAllowedTarget(
+  url: string,
+  resolve: HostResolver = systemResolver,
+): Promise<void> {
+  try {
+    await resolveAllowedAddresses(new URL(url).hostname, resolve)
+  } catch (error) {
+    if (blockedCause(error)) throw error
+  }
+}
+
+/** A `net.connect` lookup that refuses blocked addresses */
+export function guardedLookup(
+  resolve: HostResolver = systemResolver,
+): LookupFunction {
+  return (hostname, options, callback) => {
+    resolveAllowedAddresses(hostname, resolve).then(
+      (resolved) => {
+        const family =
+          options.family === 'IPv4'
+            ? 4
+            : options.family === 'IPv6'
+              ? 6
+              : options.family
+        const addresses = resolved
+          .map((address) => ({ address, family: isIP(address) }))
+          .filter((entry) => !family || entry.family === family)
+        const [first] = addresses
+        if (!first) {
+          const error: NodeJS.ErrnoException = new Error(
+            `No IPv${family} address for ${hostname}`,
+          )
+          error.code = 'ENOTFOUND'
+          callback(error, '', 0)
+        } else if (options.all) {
+          callback(null, addresses)
+        } else {
+          callback(null, first.address, first.family)
+        }
+      },
+      (error: NodeJS.ErrnoException) => callback(error, '', 0),
+    )
+  }
+}
+
+/**
+ * Dispatcher for direct (unproxied) requests. Host names go through
+ * `guardedLookup`; IP literals skip DNS, so they are checked here.
+ */
+export function createGuardedAgent(
+  resolve: HostResolver = systemResolver,
+): Agent {
+  const connect = buildConnector({ lookup: guardedLookup(resolve) })
+  return new Agent({
+    connect(options, callback) {
+      const host = options.hostname.replace(/^\[|\]$/g, '')
+      if (isIP(host) && isBlockedAddress(host)) {
+        callback(blockedAddressError(host, host), null)
+        return
+      }
+      connect(options, callback)
+    },
+  })
+}
+
+let directAgent: Agent | null = null
+
+/** The shared guarded dispatcher every direct request goes through */
+export function directDispatcher(): Dispatcher {
+  directAgent ??= createGuardedAgent()
+  return directAgent
+}
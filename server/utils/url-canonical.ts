@@ -0,0 +1,155 @@
+/**
+ * Per-job URL canonicalization rules. Every crawler normalizes discovered
+ * URLs with them, so the visited set, results and target matching all agree
+ * on one spelling per page.
+ *
+ * Mirrored in `app/utils/url-canonical.ts` for the Silo graph; the parity
+ * test in `app/utils/__tests__/url-canonical.test.ts` keeps them in sync.
+ */
+
+export type TrailingSlashPolicy = 'strip' | 'add' | 'keep'
+
+export interface CanonicalRewrite {
+  /** Regex matched against the full URL (max. 200 characters) */
+  pattern: string
+  /** Replacement, may use `$1`-style group references */
+  replacement: string
+}
+
+export interface CanonicalRules {
+  /** Query parameter names to drop (case-insensitive) */
+  stripParams?: string[]
+  /** Regex; query parameters whose name matches are dropped */
+  stripParamsPattern?: string
+  /** Sort the remaining query parameters by name */
+  sortParams?: boolean
+  /** Lowercase the path (hosts are always lowercased) */
+  lowercasePath?: boolean
+  /** Default 'strip': `/a/` becomes `/a`. The root path always keeps its slash */
+  trailingSlash?: TrailingSlashPolicy
+  /** Applied in order to the URL after all other rules */
+  rewrites?: CanonicalRewrite[]
+}
+
+interface CompiledRules {
+  stripParams: Set<string>
+  stripParamsPattern: RegExp | null
+  sortParams: boolean
+  lowercasePath: boolean
+  trailingSlash: TrailingSlashPolicy
+  rewrites: { pattern: RegExp; replacement: string }[]
+}
+
+const MAX_PATTERN_LENGTH = 200
+const MAX_REWRITES = 20
+
+const NO_RULES: CanonicalRules = {}
+
+// Rules objects are reused for every URL of a job, so compile them once
+const compiled = new WeakMap<CanonicalRules, CompiledRules>()
+
+// Patterns are capped to limit ReDoS exposure; invalid ones are ignored,
+// like the crawlers' URL filter
+function compilePattern(source: unknown, flags = ''): RegExp | null {
+  if (typeof source !== 'string' || !source) return null
+  if (source.length > MAX_PATTERN_LENGTH) return null
+  try {
+    return new RegExp(source, flags)
+  } catch {
+    return null
+  }
+}
+
+// Rules arrive straight from request bodies, so every field is checked
+function compileRules(rules: CanonicalRules): CompiledRules {
+  const cached = compiled.get(rules)
+  if (cached) return cached
+
+  const rewrites: CompiledRules['rewrites'] = []
+  const rawRewrites = Array.isArray(rules.rewrites) ? rules.rewrites : []
+  for (const rewrite of rawRewrites.slice(0, MAX_REWRITES)) {
+    const pattern = compilePattern(rewrite?.pattern)
+    if (pattern) {
+      rewrites.push({ pattern, replacement: String(rewrite.replacement ?? '') })
+    }
+  }
+  const stripParams = Array.isArray(rules.stripParams) ? rules.stripParams : []
+
+  const result: CompiledRules = {
+    stripParams: new Set(
+      stripParams.map((p) => String(p).trim().toLowerCase()),
+    ),
+    stripParamsPattern: compilePattern(rules.stripParamsPattern, 'i'),
+    sortParams: rules.sortParams === true,
+    lowercasePath: rules.lowercasePath === true,
+    trailingSlash:
+      rules.trailingSlash === 'add' || rules.trailingSlash === 'keep'
+        ? rules.trailingSlash
+        : 'strip',
+    rewrites,
+  }
+  compiled.set(rules, result)
+  return result
+}
+
+function applyTrailingSlash(url: URL, policy: TrailingSlashPolicy) {
+  const path = url.pathname
+  if (path === '/' || policy === 'keep') return
+  if (policy === 'strip') {
+    url.pathname = path.replace(/\/+$/, '') || '/'
+    return
+  }
+  // 'add' leaves file-like paths (/feed.xml) alone
+  const lastSegment = path.slice(path.lastIndexOf('/') + 1)
+  if (lastSegment && !lastSegment.includes('.')) url.pathname = `${path}/`
+}
+
+/**
+ * Resolves `url` against `baseUrl` and applies the rules. The fragment is
+ * always dropped; scheme and host case and default ports are normalized by
+ * the URL parser. Returns null when the URL cannot be parsed.
+ */
+export function canonicalizeUrl(
+  url: string,
+  rules: CanonicalRules = NO_RULES,
+  baseUrl?: string,
+): string | null {
+  let parsed: URL
+  try {
+    parsed = new URL(url, baseUrl)
+  } catch {
+    return null
+  }
+  const r = compileRules(rules)
+
+  parsed.hash = ''
+  if (r.lowercasePath) parsed.pathname = parsed.pathname.toLowerCase()
+
+  if (parsed.search) {
+    const params = parsed.searchParams
+    const names = [...new Set(params.keys())]
+    const dropped = names.filter(
+      (name) =>
+        r.stripParams.has(name.toLowerCase()) ||
+        r.stripParamsPattern?.test(name),
+    )
+    // searchParams writes through to the URL, re-encoding the query; an
+    // untouched query keeps its original spelling
+    for (const name of dropped) params.delete(name)
+    if (r.sortParams) params.sort()
+  }
+
+  applyTrailingSlash(parsed, r.trailingSlash)
+
+  let href = parsed.href
+  for (const rewrite of r.rewrites) {
+    const rewritten = href.replace(rewrite.pattern, rewrite.replacement)
+    if (rewritten === href) continue
+    try {
+      href = new URL(rewritten).href
+    } catch {
+      // A rewrite that breaks the URL is skipped
+    }
+  }
+  return href
+}
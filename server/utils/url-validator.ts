@@ -1,4 +1,132 @@
-// Checks if a URL is safe to fetch (SSRF protection)
+import { BlockList, isIP } from 'node:net'
+import { getServerConfig } from './server-config'
+
+// Never fetched: private, loopback, link-local (incl. cloud metadata),
+// carrier-grade NAT, multicast and reserved ranges. IPv4-mapped IPv6
+// addresses (::ffff:10.0.0.1) are matched against the IPv4 ranges.
+const BLOCKED_RANGES: [string, number, 'ipv4' | 'ipv6'][] = [
+  ['0.0.0.0', 8, 'ipv4'],
+  ['10.0.0.0', 8, 'ipv4'],
+  ['100.64.0.0', 10, 'ipv4'],
+  ['127.0.0.0', 8, 'ipv4'],
+  ['169.254.0.0', 16, 'ipv4'],
+  ['172.16.0.0', 12, 'ipv4'],
+  ['192.0.0.0', 24, 'ipv4'],
+  ['192.168.0.0', 16, 'ipv4'],
+  ['198.18.0.0', 15, 'ipv4'],
+  ['224.0.0.0', 3, 'ipv4'],
+  // Unspecified, loopback and deprecated IPv4-compatible (::10.0.0.1)
+  ['::', 96, 'ipv6'],
+  ['fc00::', 7, 'ipv6'],
+  ['fe80::', 10, 'ipv6'],
+  ['ff00::', 8, 'ipv6'],
+]
+
+const LOOPBACK_RANGES: [string, number, 'ipv4' | 'ipv6'][] = [
+  ['127.0.0.0', 8, 'ipv4'],
+  ['::1', 128, 'ipv6'],
+]
+
+function blockList(ranges: [string, number, 'ipv4' | 'ipv6'][]): BlockList {
+  const list = new BlockList()
+  for (const [network, prefix, type] of ranges) {
+    list.addSubnet(network, prefix, type)
+  }
+  return list
+}
+
+const blocked = blockList(BLOCKED_RANGES)
+const loopback = blockList(LOOPBACK_RANGES)
+
+/**
+ * Parses a comma-separated CIDR list (`10.1.0.0/16, fd00::/8`); a bare
+ * address counts as a single host. Throws on invalid entries, so a typo
+ * fails closed instead of silently allowing or denying nothing.
+ */
+export function parseCidrList(
+  value: string,
+  source: string,
+): [string, number, 'ipv4' | 'ipv6'][] {
+  return value
+    .split(',')
+    .map((entry) => entry.trim())
+    .filter(Boolean)
+    .map((entry) => {
+      const [network = '', prefix] = entry.split('/')
+      const version = isIP(network)
+      const bits = version === 6 ? 128 : 32
+      const length = prefix === undefined ? bits : Number(prefix)
+      if (
+        !version ||
+        !Number.isInteger(length) ||
+        length < 0 ||
+        length > bits
+      ) {
+        throw new Error(`Invalid CIDR "${entry}" in ${source}`)
+      }
+      return [network, length, version === 6 ? 'ipv6' : 'ipv4']
+    })
+}
+
+// Parsed lists keyed by the raw variable value, so edits to the
+// environment (and tests) take effect without a restart
+const envLists = new Map<string, BlockList>()
+
+function envList(variable: string): BlockList | null {
+  const value = process.env[variable]?.trim()
+  if (!value) return null
+  let list = envLists.get(`${variable}=${value}`)
+  if (!list) {
+    list = blockList(parseCidrList(value, variable))
+    envLists.set(`${variable}=${value}`, list)
+  }
+  return list
+}
+
+// Opt-in escape hatch for crawling localhost — useful in dev for the
+// bundled demo fixtures (e.g. /demo/dead-links.html). Off by default.
+function allowLocalhost(): boolean {
+  return process.env.URL_TOOLS_ALLOW_LOCALHOST === '1'
+}
+
+/**
+ * Whether connecting to an IP address is forbidden. `URL_TOOLS_DENY_CIDRS`
+ * always wins; `URL_TOOLS_ALLOW_CIDRS` opens ranges that are blocked by
+ * default (e.g. a staging server in 10.0.0.0/8).
+ */
+export function isBlockedAddress(address: string): boolean {
+  const ip = address.replace(/^\[|\]$/g, '')
+  const version = isIP(ip)
+  if (!version) return true
+  const type = version === 6 ? 'ipv6' : 'ipv4'
+  if (envList('URL_TOOLS_DENY_CIDRS')?.check(ip, type)) return true
+  if (envList('URL_TOOLS_ALLOW_CIDRS')?.check(ip, type)) return false
+  if (allowLocalhost() && loopback.check(ip, type)) return false
+  return blocked.check(ip, type)
+}
+
+function matchesDomain(hostname: string, domain: string): boolean {
+  const name = domain.replace(/^\*?\./, '')
+  return hostname === name || hostname.endsWith(`.${name}`)
+}
+
+/**
+ * Domain policy of the server config: `domains.deny` always wins; a
+ * non-empty `domains.allow` refuses every host not listed. Entries cover
+ * their subdomains.
+ */
+function isAllowedDomain(hostname: string): boolean {
+  const { allow, deny } = getServerConfig().domains
+  if (deny.some((domain) => matchesDomain(hostname, domain))) return false
+  return allow.length === 0 || allow.some((d) => matchesDomain(hostname, d))
+}
+
+/**
+ * Checks if a URL is safe to fetch (SSRF protection). This only looks at
+ * the URL; host names are resolved and checked when connecting (see
+ * `ssrf-guard.ts`). Decimal, octal and hex IPv4 forms are normalized by
+ * the URL parser, so `http://2130706433/` is checked as 127.0.0.1.
+ */
 export function isAllowedUrl(url: string): boolean {
   try {
     const parsed = new URL(url)
@@ -6,28 +134,17 @@ export function isAllowedUrl(url: string): boolean {
     // Only allow http/https
     if (!['http:', 'https:'].includes(parsed.protocol)) return false
 
-    const hostname = parsed.hostname.toLowerCase()
-
-    // Opt-in escape hatch for crawling localhost — useful in dev for the
-    // bundled demo fixtures (e.g. /demo/dead-links.html). Off by default.
-    const allowLocalhost = process.env.URL_TOOLS_ALLOW_LOCALHOST === '1'
+    const hostname = parsed.hostname
+      .toLowerCase()
+      .replace(/^\[|\]$/g, '')
+      .replace(/\.$/, '')
+    if (!isAllowedDomain(hostname)) return false
+    if (isIP(hostname)) return !isBlockedAddress(hostname)
 
     // Block localhost
     const isLocalhost =
-      hostname === 'localhost' ||
-      hostname === '127.0.0.1' ||
-      hostname === '::1' ||
-      hostname.endsWith('.localhost')
-    if (isLocalhost && !allowLocalhost) return false
-
-    // Block private IP ranges
-    if (hostname.startsWith('10.')) return false
-    if (hostname.startsWith('192.168.')) return false
-    if (/^172\.(1[6-9]|2\d|3[01])\./.test(hostname)) return false
-
-    // Block link-local and cloud metadata
-    if (hostname.startsWith('169.254.')) return false
-    if (hostname === '0.0.0.0') return false
+      hostname === 'localhost' || hostname.endsWith('.localhost')
+    if (isLocalhost && !allowLocalhost()) return false
 
     return true
   } catch {
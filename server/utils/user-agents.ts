@@ -0,0 +1,45 @@
+import { createError } from 'h3'
+import { getServerConfig } from './server-config'
+
+/**
+ * User-Agent presets for `RequestSettings.userAgent`. The crawler ones are
+ * the strings Google and Bing document for their evergreen bots.
+ */
+export const USER_AGENT_PRESETS = {
+  'googlebot-smartphone':
+    'Mozilla/5.0 (Linux; Android 6.0.1; Nexus 5X Build/MMB29P) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/131.0.6778.204 Mobile Safari/537.36 (compatible; Googlebot/2.1; +http://www.google.com/bot.html)',
+  'googlebot-desktop':
+    'Mozilla/5.0 AppleWebKit/537.36 (KHTML, like Gecko; compatible; Googlebot/2.1; +http://www.google.com/bot.html) Chrome/131.0.6778.204 Safari/537.36',
+  bingbot:
+    'Mozilla/5.0 AppleWebKit/537.36 (KHTML, like Gecko; compatible; bingbot/2.0; +http://www.bing.com/bingbot.htm) Chrome/131.0.0.0 Safari/537.36',
+  'chrome-desktop':
+    'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/131.0.0.0 Safari/537.36',
+  'chrome-mobile':
+    'Mozilla/5.0 (Linux; Android 10; K) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/131.0.0.0 Mobile Safari/537.36',
+} as const
+
+export type UserAgentPreset = keyof typeof USER_AGENT_PRESETS
+
+const MAX_USER_AGENT_LENGTH = 512
+
+function isPreset(value: string): value is UserAgentPreset {
+  return Object.hasOwn(USER_AGENT_PRESETS, value)
+}
+
+/**
+ * Turns `RequestSettings.userAgent` into the header value: empty or
+ * `default` is the configured `userAgents.fetch`, a preset id its string,
+ * anything else a custom User-Agent. Line breaks are rejected.
+ */
+export function resolveUserAgent(input: unknown): string {
+  const value = typeof input === 'string' ? input.trim() : ''
+  if (!value || value === 'default') return getServerConfig().userAgents.fetch
+  if (isPreset(value)) return USER_AGENT_PRESETS[value]
+  if (value.length > MAX_USER_AGENT_LENGTH || /[\r\n\t]/.test(value)) {
+    throw createError({
+      statusCode: 400,
+      message: `Invalid user agent (one line, max. ${MAX_USER_AGENT_LENGTH} characters)`,
+    })
+  }
+  return value
+}